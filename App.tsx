@@ -8,7 +8,11 @@
  *     including the primary content area (`GameScreen`), the navigation (`NavBar`). The global header has been removed
  *     in favor of component-specific titles for better UI context and encapsulation.
  *
- * 2.  **State-Driven Modal System:** The component implements a powerful and flexible modal system. Instead of having
+ * 2.  **Case Selection:** Until the player picks a case from the story registry, `CaseSelectScreen` replaces the
+ *     game. Picking one resets every story-specific slice (see `caseSelectionSlice`); this component then loads the
+ *     case's cached images and autosave, exactly as startup used to.
+ *
+ * 3.  **State-Driven Modal System:** The component implements a powerful and flexible modal system. Instead of having
  *     components directly toggle modal visibility, they dispatch a `showModal` action to the Redux store with a `type`
  *     and `props`. This `App` component listens to the `activeModal` state and uses a `MODAL_COMPONENTS` registry
  *     (a simple object map) to render the correct modal component with the correct props.
@@ -27,6 +31,7 @@ import React, { useEffect } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from './store';
 import GameScreen from './components/templates/GameScreen';
+import CaseSelectScreen from './components/templates/CaseSelectScreen';
 import NavBar from './components/organisms/NavBar';
 
 // Import all modal components from their correct locations
@@ -44,13 +49,25 @@ import DocumentViewerModal from './components/organisms/modals/DocumentViewerMod
 import ForensicFindingModal from './components/organisms/modals/ForensicFindingModal';
 import LatentConnectionModal from './components/organisms/modals/LatentConnectionModal';
 import ErrorLogModal from './components/templates/ErrorLogView';
+import AIUsageModal from './components/templates/AIUsageView';
+import PromptPreviewModal from './components/templates/PromptPreviewView';
+import SaveSlotsModal from './components/organisms/modals/SaveSlotsModal';
+import HistoryModal from './components/organisms/modals/HistoryModal';
 import ADADebugFab from './components/organisms/ADAFab';
+import SaveSlotsFab from './components/organisms/SaveSlotsFab';
+import HistoryFab from './components/organisms/HistoryFab';
+import AIStatusBadge from './components/organisms/AIStatusBadge';
 import { ModalType, markIntroAsPlayed } from './store/uiSlice';
 import { 
   hydrateImageCache,
   preloadKeyStoryAssets,
 } from './store/storySlice';
 import { logError } from './store/errorLogSlice';
+import { loadSavedGame } from './store/persistenceSlice';
+import { startTabSync } from './store/tabSyncSlice';
+import { startAIStatusSync } from './store/aiStatusSlice';
+import { startAIUsageTracking } from './store/aiUsageSlice';
+import { selectActiveStoryId } from './store/caseSelectionSlice';
 
 /**
  * --- Modal Registry Pattern ---
@@ -73,6 +90,10 @@ const MODAL_COMPONENTS: { [key in ModalType]?: React.FC<any> } = {
   forensicFinding: ForensicFindingModal,
   latentConnection: LatentConnectionModal,
   errorLog: ErrorLogModal,
+  aiUsage: AIUsageModal,
+  promptPreview: PromptPreviewModal,
+  saveSlots: SaveSlotsModal,
+  history: HistoryModal,
 };
 
 /**
@@ -83,22 +104,30 @@ const App: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   // Select necessary state from the Redux store
   const { activeModal, activeModalProps, introPlayed, activeView, activeCardType } = useSelector((state: RootState) => state.ui);
+  const activeStoryId = useSelector(selectActiveStoryId);
   
-  // On initial app load, hydrate the cache and start preloading assets.
+  // When a case is opened, hydrate its image cache, restore its saved game and start preloading assets.
   // The intro slideshow has been disabled to reduce initial image generation.
   useEffect(() => {
-    const initializeApp = async () => {
+    if (!activeStoryId) return;
+    const initializeCase = async () => {
       await dispatch(hydrateImageCache());
+      // The save must be restored before anything is queued, so preloading sees the player's real progress.
+      await dispatch(loadSavedGame());
+      // Join the other open tabs only once hydrated, so the restore itself isn't broadcast.
+      await dispatch(startTabSync());
 
       // To save on image generations, we skip the intro slideshow.
-      // We'll mark it as played and load the main game assets directly.
+      // We'll mark it as played and load the main game assets directly. `introPlayed` is
+      // deliberately not a dependency: marking it must not re-open the case.
       if (!introPlayed) {
         dispatch(markIntroAsPlayed());
       }
       dispatch(preloadKeyStoryAssets());
     };
-    initializeApp();
-  }, [dispatch, introPlayed]);
+    initializeCase();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dispatch, activeStoryId]);
 
 
   // --- Global Error Handling ---
@@ -124,6 +153,8 @@ const App: React.FC = () => {
 
     window.onerror = handleError;
     window.addEventListener('unhandledrejection', handleRejection);
+    dispatch(startAIStatusSync());
+    dispatch(startAIUsageTracking());
 
     return () => {
         window.onerror = null;
@@ -137,7 +168,7 @@ const App: React.FC = () => {
    * @returns {React.ReactNode | null} The modal component to render, or null if no modal is active.
    */
   const renderModal = () => {
-    if (!activeModal) return null;
+    if (!activeModal || !activeStoryId) return null;
     
     const ModalComponent = MODAL_COMPONENTS[activeModal];
     if (!ModalComponent) {
@@ -161,6 +192,16 @@ const App: React.FC = () => {
   // above the navigation bar, fixing a key UI layout issue.
   const mainContentLayoutClass = isLocationCardActive ? 'pb-16' : '';
 
+  if (!activeStoryId) {
+    return (
+      <div className="relative h-screen w-screen max-w-md mx-auto flex flex-col bg-brand-bg overflow-hidden font-mono shadow-2xl shadow-black">
+        <main className="flex-1 overflow-x-hidden overflow-y-hidden relative">
+          <CaseSelectScreen />
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="relative h-screen w-screen max-w-md mx-auto flex flex-col bg-brand-bg overflow-hidden font-mono shadow-2xl shadow-black">
       {/* --- SCROLLING FIX: ---
@@ -175,6 +216,9 @@ const App: React.FC = () => {
       
       {/* Render the active modal if there is one */}
       {renderModal()}
+      <AIStatusBadge />
+      <HistoryFab />
+      <SaveSlotsFab />
       <ADADebugFab />
     </div>
   );
@@ -1,29 +1,34 @@
 
 import React from 'react';
 // Replaced DoorOpen with ArrowLeftRight for a clearer 'move' action icon.
-import { Fingerprint, ArrowLeftRight } from 'lucide-react';
+import { Fingerprint, ArrowLeftRight, Lock } from 'lucide-react';
 
 interface HotspotProps {
   coords: { top: string; left: string };
   onClick: () => void;
   label: string;
   type?: 'investigate' | 'move';
+  /** When set, the hotspot is locked: it can't be tapped and shows the teaser instead of its label. */
+  lockedTeaser?: string;
 }
 
-const Hotspot: React.FC<HotspotProps> = React.memo(({ coords, onClick, label, type = 'investigate' }) => {
+const Hotspot: React.FC<HotspotProps> = React.memo(({ coords, onClick, label, type = 'investigate', lockedTeaser }) => {
   const isMoveType = type === 'move';
+  const isLocked = lockedTeaser !== undefined;
 
   // Conditionally select the icon and its styling based on the 'type' prop.
   // 'move' hotspots now use the ArrowLeftRight icon and are colored white for visual distinction.
-  const IconComponent = isMoveType ? ArrowLeftRight : Fingerprint;
-  const iconColorClass = isMoveType ? 'text-brand-accent' : 'text-brand-primary';
+  // Locked hotspots are drawn muted with a padlock, whatever their type.
+  const IconComponent = isLocked ? Lock : isMoveType ? ArrowLeftRight : Fingerprint;
+  const iconColorClass = isLocked ? 'text-brand-text-muted' : isMoveType ? 'text-brand-accent' : 'text-brand-primary';
 
   return (
     <button
       onClick={onClick}
-      className="absolute transform -translate-x-1/2 -translate-y-1/2 flex flex-col items-center group cursor-pointer focus:outline-none"
+      disabled={isLocked}
+      className={`absolute transform -translate-x-1/2 -translate-y-1/2 flex flex-col items-center group focus:outline-none ${isLocked ? 'cursor-not-allowed opacity-80' : 'cursor-pointer'}`}
       style={{ ...coords }}
-      aria-label={`Hotspot: ${label}`}
+      aria-label={isLocked ? `Locked hotspot: ${lockedTeaser}` : `Hotspot: ${label}`}
     >
       {/* Visual Target with dynamic Icon */}
       <div className="relative w-12 h-12 flex items-center justify-center rounded-full bg-black/60 backdrop-blur-sm border-2 border-brand-border/70 group-hover:border-brand-primary transition-all duration-300 animate-pulse-subtle shadow-lg">
@@ -33,7 +38,7 @@ const Hotspot: React.FC<HotspotProps> = React.memo(({ coords, onClick, label, ty
       
       {/* Label */}
       <span className="text-white text-xs font-bold bg-black/80 px-2 py-0.5 rounded-sm mt-2 whitespace-nowrap group-hover:text-brand-primary transition-colors drop-shadow-lg uppercase font-oswald tracking-wider">
-        {label}
+        {isLocked ? lockedTeaser : label}
       </span>
     </button>
   );
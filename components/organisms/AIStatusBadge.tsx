@@ -0,0 +1,48 @@
+/**
+ * @file AIStatusBadge.tsx
+ * @description A small banner that tells the player AI features are paused after repeated quota
+ * errors, and counts down to when they resume. It renders nothing while AI requests go out normally.
+ */
+import React, { useState, useEffect } from 'react';
+import { useSelector } from 'react-redux';
+import { selectAIStatus } from '../../store/aiStatusSlice';
+import { WifiOff, RefreshCw } from 'lucide-react';
+
+const AIStatusBadge: React.FC = () => {
+    const { circuit, resumesAt, reason } = useSelector(selectAIStatus);
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        if (circuit !== 'open') return;
+        const intervalId = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(intervalId);
+    }, [circuit]);
+
+    if (circuit === 'closed') return null;
+
+    const secondsLeft = resumesAt ? Math.max(0, Math.ceil((Date.parse(resumesAt) - now) / 1000)) : 0;
+
+    return (
+        <div className="fixed top-2 inset-x-0 z-50 flex justify-center pointer-events-none">
+            <div
+                className="flex items-center gap-2 px-3 py-1 rounded-full bg-black/80 backdrop-blur-sm border border-brand-primary text-white text-xs font-mono shadow-lg pointer-events-auto"
+                role="status"
+                title={reason ?? undefined}
+            >
+                {circuit === 'open' ? (
+                    <>
+                        <WifiOff className="w-4 h-4 text-brand-primary" />
+                        <span>AI offline · resumes in {secondsLeft}s</span>
+                    </>
+                ) : (
+                    <>
+                        <RefreshCw className="w-4 h-4 text-brand-accent" />
+                        <span>AI reconnecting…</span>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AIStatusBadge;
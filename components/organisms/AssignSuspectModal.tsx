@@ -7,7 +7,7 @@ import React, { useState } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
 import { hideModal, showModal, checkMilestoneProgress, addNewlyAddedEvidenceId } from '../../store/uiSlice';
-import { selectSuspects, selectObjectById, setAssignedSuspects, addToTimeline, selectLocationById } from '../../store/storySlice';
+import { selectSuspects, selectObjectById, setAssignedSuspects, addToTimeline, selectLocationById, selectStoryPackage } from '../../store/storySlice';
 import { addUnlockedClue } from '../../store/caseFileSlice';
 import { useADA } from '../../hooks/useADA';
 import { PlayerAction, Character, StoryObject } from '../../types';
@@ -15,7 +15,6 @@ import { X, FolderKanban, Check, MapPin } from 'lucide-react';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import { useCardImage } from '../../hooks/useCardImage';
 import Button from '../atoms/Button';
-import { caseFileCluesById } from '../../data/caseFileData';
 
 interface AssignSuspectModalProps {
   objectId: string;
@@ -56,6 +55,7 @@ const AssignmentTarget: React.FC<{
 
 const AssignSuspectModal: React.FC<AssignSuspectModalProps> = ({ objectId, initialAssignments }) => {
     const dispatch = useDispatch<AppDispatch>();
+    const caseFileClues = useSelector(selectStoryPackage).storyData.caseFile.clues;
     const triggerADA = useADA();
     const suspects = useSelector((state: RootState) => selectSuspects(state));
     const object = useSelector((state: RootState) => selectObjectById(state, objectId));
@@ -100,7 +100,7 @@ const AssignSuspectModal: React.FC<AssignSuspectModalProps> = ({ objectId, initi
         // Check if this object unlocks a clue for the case file puzzle.
         const clueIdToUnlock = object.metadata?.unlocksCaseFileClueId;
         if (clueIdToUnlock) {
-            const clueData = caseFileCluesById.get(clueIdToUnlock);
+            const clueData = caseFileClues.find(clue => clue.id === clueIdToUnlock);
             if (clueData) {
                 // If a valid clue is found, dispatch the action to add it to the evidence pool.
                 dispatch(addUnlockedClue(clueData));
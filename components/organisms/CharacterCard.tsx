@@ -2,14 +2,16 @@
  * @file CharacterCard.tsx
  * @description Renders the detailed view for a single character. This component is now fully data-driven,
  * rendering its sidebar actions dynamically based on the character's `components` array and the
- * central `componentRegistry`.
+ * central `componentRegistry`. A component with an unmet `lock` keeps its place but is shown locked, with its teaser.
  */
 
 import React from 'react';
-import { useDispatch, useSelector } from 'react-redux';
-import { Character, PlayerAction, DataComponent, DialogueData } from '../../types';
+import { useDispatch, useSelector, shallowEqual } from 'react-redux';
+import { Character, PlayerAction, CardType, CollectionComponentType, DataComponentType } from '../../types';
+import { findComponentProps } from '../../data/dataComponents';
 import { toggleSuspect, selectAllObjects } from '../../store/storySlice';
 import { showModal, goBack, setActiveCard } from '../../store/uiSlice';
+import { isContentUnlocked } from '../../store/narrativeSlice';
 import { AppDispatch, RootState } from '../../store';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import ToggleButton from '../atoms/ToggleButton';
@@ -17,15 +19,15 @@ import SidebarActionButton from '../atoms/SidebarActionButton';
 import { useADA } from '../../hooks/useADA';
 import { useCardImage } from '../../hooks/useCardImage';
 import { COMPONENT_REGISTRY } from './componentRegistry';
-import { History, Mic, ArrowLeft } from 'lucide-react';
+import { History, Mic, ArrowLeft, Lock } from 'lucide-react';
 import Button from '../atoms/Button';
 
 // --- Canonical List of Character Actions ---
 // This fixed array defines exactly which buttons should appear on a character card and in what order.
-const CHARACTER_ACTION_KEYS = ['socialMedia', 'phoneLog', 'cctv', 'records', 'file'];
+const CHARACTER_ACTION_KEYS: CollectionComponentType[] = ['socialMedia', 'phoneLog', 'cctv', 'records', 'file'];
 
 // A map for special component types to their corresponding card types.
-const COMPONENT_TO_CARD_TYPE_MAP: { [key: string]: string } = {
+const COMPONENT_TO_CARD_TYPE_MAP: Partial<Record<CollectionComponentType, CardType>> = {
   socialMedia: 'socialMediaFeed',
   file: 'mugshot',
 };
@@ -35,7 +37,7 @@ const COMPONENT_TO_CARD_TYPE_MAP: { [key: string]: string } = {
 // to the specific category strings used in the StoryObject data model ('phone_log', 'cctv_sighting', etc.).
 // This resolves the bug where the sidebar buttons were always disabled because the previous
 // direct string comparison was failing.
-const CATEGORY_MAP: { [key: string]: string } = {
+const CATEGORY_MAP: Record<CollectionComponentType, string> = {
   socialMedia: 'socialMedia', // This one matches
   phoneLog: 'phone_log',
   cctv: 'cctv_sighting',
@@ -54,6 +56,14 @@ const CharacterCard: React.FC<{ character: Character }> = ({ character }) => {
       selectAllObjects(state).filter(obj => obj.ownerCharacterId === character.id)
   );
 
+  const lockedComponentTypes = useSelector(
+    (state: RootState) => character.components.filter(comp => !isContentUnlocked(comp.lock, state)).map(comp => comp.type),
+    shallowEqual
+  );
+  const getLockedTeaser = (componentType: DataComponentType) => lockedComponentTypes.includes(componentType)
+    ? character.components.find(comp => comp.type === componentType)?.lock?.teaser
+    : undefined;
+
   const handleGoBack = () => {
     dispatch(goBack());
     triggerADA(PlayerAction.VIEW_LIST, 'Player has returned to the previous list view.');
@@ -70,10 +80,11 @@ const CharacterCard: React.FC<{ character: Character }> = ({ character }) => {
     dispatch(showModal({ type: 'introSlideshow' }));
   };
   
-  const dialogueData = character.components.find(c => c.type === 'dialogue')?.props as DialogueData | undefined;
+  const dialogueData = findComponentProps(character.components, 'dialogue');
+  const dialogueLockedTeaser = getLockedTeaser('dialogue');
   
   const handleDialogueClick = () => {
-      if (!dialogueData) return;
+      if (!dialogueData || dialogueLockedTeaser !== undefined) return;
       // Navigate to the unified DialogueCard.
       dispatch(setActiveCard({ 
           id: character.id, 
@@ -104,16 +115,17 @@ const CharacterCard: React.FC<{ character: Character }> = ({ character }) => {
       
       // The button is disabled if no data exists.
       const isDisabled = !hasData;
+      const lockedTeaser = getLockedTeaser(componentType);
 
       const handleClick = () => {
-        if (isDisabled) return;
+        if (isDisabled || lockedTeaser !== undefined) return;
         
         // Use the map for special cases, otherwise default to the generic 'collection' card.
         const cardType = COMPONENT_TO_CARD_TYPE_MAP[componentType] || 'collection';
         
         dispatch(setActiveCard({ 
             id: character.id, 
-            type: cardType as any, // Cast as any to satisfy the complex CardType union
+            type: cardType,
             collectionType: cardType === 'collection' ? componentType : undefined,
             title: registryEntry.label,
         }));
@@ -126,6 +138,7 @@ const CharacterCard: React.FC<{ character: Character }> = ({ character }) => {
           Icon={registryEntry.Icon}
           onClick={handleClick}
           disabled={isDisabled}
+          lockedTeaser={hasData ? lockedTeaser : undefined}
         />
       );
     });
@@ -176,12 +189,16 @@ const CharacterCard: React.FC<{ character: Character }> = ({ character }) => {
              <div className="mt-6 border-t border-brand-border/50 pt-6">
                 <Button
                 onClick={handleDialogueClick}
-                className="w-full flex items-center justify-center gap-2 uppercase font-oswald tracking-wider"
+                disabled={dialogueLockedTeaser !== undefined}
+                className="w-full flex items-center justify-center gap-2 uppercase font-oswald tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
                 variant={character.role === 'suspect' ? 'primary' : 'secondary'}
                 >
-                <Mic size={16} />
+                {dialogueLockedTeaser !== undefined ? <Lock size={16} /> : <Mic size={16} />}
                 {dialogueData.buttonText}
                 </Button>
+                {dialogueLockedTeaser !== undefined && (
+                    <p className="mt-2 text-sm text-center text-brand-text-muted italic">{dialogueLockedTeaser}</p>
+                )}
             </div>
         )}
 
@@ -9,13 +9,25 @@
  * view with the current question pinned at the top, and a dedicated "actions" panel at the bottom,
  * removing the free-form text input for a more guided experience. The logic has been updated to drive
  * this new flow, cleanly separating the display of past conversation from the selection of future actions.
+ * The conversation itself (transcript, lines of inquiry, suggestions) lives in the dialogue slice, so
+ * leaving the card and coming back resumes the session instead of starting over.
  */
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { useDispatch } from 'react-redux';
-import { AppDispatch } from '../../store';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../store';
 import { goBack, showModal, hideModal } from '../../store/uiSlice';
-import { Character, DialogueData, Insight, LineOfInquiryData, WitnessResponse, DialogueChunkData, ActiveFeedback } from '../../types';
-import { createEvidenceFromTestimony } from '../../store/storySlice';
+import { Character, Insight, LineOfInquiryData, WitnessResponse, DialogueChunkData, ActiveFeedback } from '../../types';
+import { createEvidenceFromTestimony, selectObjectEntities } from '../../store/storySlice';
+import { findComponentProps } from '../../data/dataComponents';
+import {
+  selectDialogueSession,
+  dialogueOpened,
+  lineOfInquirySelected,
+  questionAsked,
+  witnessResponded,
+  lineOfInquiryCompleted,
+  lineOfInquiryEnded,
+} from '../../store/dialogueSlice';
 import { useInterrogationAI } from '../../hooks/useInterrogationAI';
 import ChatLog from './ChatLog';
 import InterrogationActions from '../molecules/InterrogationActions'; // New component
@@ -34,63 +46,62 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
   const dispatch = useDispatch<AppDispatch>();
   
   const dialogueData = useMemo(() => 
-    character.components.find(c => c.type === 'dialogue')?.props as DialogueData | undefined,
+    findComponentProps(character.components, 'dialogue'),
     [character.components]
   );
   
-  // State now only holds witness responses. Player questions are handled separately.
-  const [messages, setMessages] = useState<WitnessResponse[]>([]);
+  // --- Persisted Session State ---
+  const session = useSelector((state: RootState) => selectDialogueSession(state, character.id));
+  const messages = useMemo(() => session?.messages || [], [session?.messages]);
+  const lastQuestionAsked = session?.lastQuestionAsked ?? null;
+  const suggestedQuestions = session?.suggestedQuestions || dialogueData?.suggestedQuestions || [];
+  const initialQuestions = session?.initialQuestions ?? null;
+  const loiStatus = useMemo(() => session?.loiStatus || {}, [session?.loiStatus]);
+  const activeLoi = useMemo(
+    () => dialogueData?.interrogation?.linesOfInquiry.find(loi => loi.id === session?.activeLoiId) || null,
+    [dialogueData, session?.activeLoiId]
+  );
+
+  // Logged testimony is read back from the story, so an undone log makes the statement loggable again.
+  const objectEntities = useSelector(selectObjectEntities);
+  const evidenceCreatedChunkIds = useMemo(() => new Set(
+    messages.flatMap(m => m.chunks).filter(chunk => !!objectEntities[`obj-testimony-${chunk.id}`]).map(chunk => chunk.id)
+  ), [messages, objectEntities]);
+  const revealedCriticalIds = useMemo(() => new Set(
+    messages.flatMap(m => m.chunks).filter(chunk => chunk.isCriticalClue && chunk.insight && evidenceCreatedChunkIds.has(chunk.id)).map(chunk => chunk.id)
+  ), [messages, evidenceCreatedChunkIds]);
+
+  // --- Presentational State ---
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
-  const [suggestedQuestions, setSuggestedQuestions] = useState<string[]>(dialogueData?.suggestedQuestions || []);
   
-  const { sendMessage, isAiResponding } = useInterrogationAI(dialogueData?.persona || '');
+  const { sendMessage, isAiResponding } = useInterrogationAI(character, dialogueData);
   
-  const [phase, setPhase] = useState<InterrogationPhase>('select');
-  const [activeLoi, setActiveLoi] = useState<LineOfInquiryData | null>(null);
+  // An interrogation resumes mid-inquiry if the player left before finishing it.
+  const [phase, setPhase] = useState<InterrogationPhase>(() =>
+    dialogueData?.mode === 'interrogation' && !(activeLoi && !loiStatus[activeLoi.id]) ? 'select' : 'active'
+  );
   const [phaseProgress, setPhaseProgress] = useState(0);
-  const [loiStatus, setLoiStatus] = useState<Record<string, 'completed'>>({});
-  const [initialQuestions, setInitialQuestions] = useState<string[] | null>(null);
-  const [evidenceCreatedChunkIds, setEvidenceCreatedChunkIds] = useState<Set<string>>(new Set());
   const [completionData, setCompletionData] = useState<{ loi: LineOfInquiryData, insight?: Insight } | null>(null);
-  const [revealedCriticalIds, setRevealedCriticalIds] = useState<Set<string>>(new Set());
   const [activeFeedback, setActiveFeedback] = useState<ActiveFeedback | null>(null);
-  
-  // New state to manage the "pinned" question in the transcript view.
-  const [lastQuestionAsked, setLastQuestionAsked] = useState<string | null>(null);
 
   useEffect(() => {
-    if (!dialogueData) return;
-    
-    if (dialogueData.mode === 'interrogation') {
-      setPhase('select');
-    } else {
-      if (dialogueData.openingStatement) {
-        const openingChunk: DialogueChunkData = { id: `dialogue-chunk-${character.id}-opening`, text: dialogueData.openingStatement };
-        setMessages([{ sender: 'witness', chunks: [openingChunk] }]);
-      }
-      setPhase('active');
-    }
-  }, [dialogueData, character.id]);
+    if (dialogueData?.mode !== 'interview') return;
+    const openingMessage: WitnessResponse | undefined = dialogueData.openingStatement
+      ? { sender: 'witness', chunks: [{ id: `dialogue-chunk-${character.id}-opening`, text: dialogueData.openingStatement }] }
+      : undefined;
+    dispatch(dialogueOpened({ characterId: character.id, openingMessage }));
+  }, [dialogueData, character.id, dispatch]);
 
   const handleSelectLoi = useCallback((loi: LineOfInquiryData) => {
-    setActiveLoi(loi);
+    dispatch(lineOfInquirySelected({ characterId: character.id, loi }));
     setPhaseProgress(0);
-    setMessages([]);
-    setLastQuestionAsked(null); // Clear the last question
-    setEvidenceCreatedChunkIds(new Set());
-    setRevealedCriticalIds(new Set());
-    setInitialQuestions(loi.initialQuestions);
     setPhase('active');
-  }, []);
+  }, [dispatch, character.id]);
 
   const handleSendMessage = useCallback(async (text: string) => {
     if (!text.trim() || isAiResponding || !dialogueData) return;
     
-    if (dialogueData.mode === 'interrogation' && activeLoi) {
-        if (initialQuestions) setInitialQuestions(null);
-    }
-    
-    setLastQuestionAsked(text);
+    dispatch(questionAsked({ characterId: character.id, text }));
     
     const messageWithContext = dialogueData.mode === 'interrogation' && activeLoi 
       ? `(My current line of inquiry is: "${activeLoi.label}")\n\n${text}` 
@@ -113,11 +124,11 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
         });
         
         const witnessResponseMessage: WitnessResponse = { sender: 'witness', chunks: chunksWithIds };
-        setMessages(prev => [...prev, witnessResponseMessage]);
-        
-        if (parsed.nextSuggestedQuestions) {
-            setSuggestedQuestions(parsed.nextSuggestedQuestions);
-        }
+        dispatch(witnessResponded({
+            characterId: character.id,
+            response: witnessResponseMessage,
+            suggestedQuestions: parsed.nextSuggestedQuestions,
+        }));
         
         if (dialogueData.mode === 'interrogation' && parsed.phaseCompleted && activeLoi) {
             const completedInsight = chunksWithIds.find(c => c.insight)?.insight;
@@ -128,16 +139,14 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
     } else {
         const fallbackChunk: DialogueChunkData = { id: `fallback-${Date.now()}`, text: "(The response is unclear or there was a connection issue.)" };
         const fallbackResponse: WitnessResponse = { sender: 'witness', chunks: [fallbackChunk] };
-        setMessages(prev => [...prev, fallbackResponse]);
+        dispatch(witnessResponded({ characterId: character.id, response: fallbackResponse }));
     }
-  }, [isAiResponding, dialogueData, sendMessage, activeLoi, initialQuestions, character.id]);
+  }, [isAiResponding, dialogueData, sendMessage, activeLoi, character.id, dispatch]);
   
   const handleCreateEvidence = useCallback((chunk: DialogueChunkData) => {
     if (evidenceCreatedChunkIds.has(chunk.id)) return;
 
     dispatch(createEvidenceFromTestimony({ chunk, character }));
-
-    setEvidenceCreatedChunkIds(prev => new Set(prev).add(chunk.id));
     
     const evidenceProgress = GAME_MECHANICS.EVIDENCE_CREATION_PROGRESS;
     // setPhaseProgress(prev => Math.min(GAME_MECHANICS.PHASE_COMPLETION_GOAL, prev + evidenceProgress));
@@ -146,22 +155,21 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
 
     if (chunk.isCriticalClue && chunk.insight) {
       dispatch(showModal({ type: 'insightUnlocked', props: { insight: chunk.insight, statement: chunk.text } }));
-      setRevealedCriticalIds(prev => new Set(prev).add(chunk.id));
     }
   }, [evidenceCreatedChunkIds, dispatch, character]);
 
   const handleEndPhase = useCallback(() => {
     dispatch(hideModal());
+    dispatch(lineOfInquiryEnded(character.id));
     setPhase('select');
-    setActiveLoi(null);
     setCompletionData(null);
-  }, [dispatch]);
+  }, [dispatch, character.id]);
 
   useEffect(() => {
     if (!activeLoi || phase !== 'active' || dialogueData?.mode !== 'interrogation') return;
 
     if (completionData?.loi.id === activeLoi.id || phaseProgress >= GAME_MECHANICS.PHASE_COMPLETION_GOAL) {
-        setLoiStatus(prev => ({ ...prev, [activeLoi.id]: 'completed' }));
+        dispatch(lineOfInquiryCompleted({ characterId: character.id, loiId: activeLoi.id }));
         const foundInsight = completionData?.insight || messages.flatMap(m => m.chunks)
                                      .find(c => revealedCriticalIds.has(c.id))?.insight;
         dispatch(showModal({ type: 'phaseComplete', props: { 
@@ -172,7 +180,7 @@ const DialogueCard: React.FC<DialogueCardProps> = ({ character }) => {
         setPhase('complete');
     }
 
-  }, [phaseProgress, activeLoi, dispatch, messages, completionData, phase, revealedCriticalIds, handleEndPhase, dialogueData?.mode]);
+  }, [phaseProgress, activeLoi, dispatch, messages, completionData, phase, revealedCriticalIds, handleEndPhase, dialogueData?.mode, character.id]);
 
   if (!character || !dialogueData) return <div>Loading dialogue...</div>;
 
@@ -0,0 +1,40 @@
+import React from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch } from '../../store';
+import { showModal } from '../../store/uiSlice';
+import { selectUndoStack } from '../../store/historySlice';
+import { History } from 'lucide-react';
+
+/**
+ * A floating button that opens the undo/redo history panel. It shows how many steps can be undone.
+ */
+const HistoryFab: React.FC = () => {
+    const dispatch = useDispatch<AppDispatch>();
+    const undoCount = useSelector(selectUndoStack).length;
+
+    return (
+        <div
+            className="fixed bottom-36 right-4 z-40"
+        >
+            <button
+                onClick={() => dispatch(showModal({ type: 'history' }))}
+                className={`w-12 h-12 rounded-full flex items-center justify-center
+                    bg-brand-surface text-white border-2 border-brand-border transition-all duration-300 ease-in-out transform
+                    hover:scale-110 hover:border-brand-primary shadow-lg
+                `}
+                aria-label={"Open History"}
+            >
+                <div className="relative">
+                    <History className="w-6 h-6" />
+                    {undoCount > 0 && (
+                        <span className="absolute -top-2 -right-3 min-w-[1.25rem] h-5 px-1 rounded-full bg-brand-primary text-white text-xs font-bold flex items-center justify-center">
+                            {undoCount}
+                        </span>
+                    )}
+                </div>
+            </button>
+        </div>
+    );
+};
+
+export default HistoryFab;
@@ -2,10 +2,13 @@
  * @file LocationCard.tsx
  * @description Renders the detailed view for a single location, including dynamic, interactive hotspots.
  * This component showcases a robust system for hotspot placement and a new expandable footer for richer narrative context.
+ * A location or hotspot with an unmet `lock` is shown locked, with its teaser, instead of being hidden.
+ * In development builds it also hosts authoring mode, where a writer drags hotspots into place and
+ * edits the scene's text (see `authoring/`).
  */
 
 import React, { useMemo, useState } from 'react';
-import { useSelector, useDispatch } from 'react-redux';
+import { useSelector, useDispatch, shallowEqual } from 'react-redux';
 import { Location, PlayerAction, CardType, Character } from '../../types';
 import { setActiveCard, goBack, setLocationPanelExpanded } from '../../store/uiSlice';
 import { AppDispatch, RootState } from '../../store';
@@ -15,23 +18,43 @@ import Hotspot from '../atoms/Hotspot';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import { useADA } from '../../hooks/useADA';
 import Spinner from '../atoms/Spinner';
-import { ChevronUp, ArrowLeft } from 'lucide-react';
+import { ChevronUp, ArrowLeft, Lock, PenTool } from 'lucide-react';
 import AssociatedCharacterInfo from '../molecules/AssociatedCharacterInfo';
 import OfficialReportButton from '../molecules/OfficialReportButton';
 import DataPair from '../molecules/DataPair';
 import { selectCharacterById } from '../../store/storySlice';
+import { selectUnlockedHotspotIds, isContentUnlocked } from '../../store/narrativeSlice';
+import { authoringToggled, selectIsAuthoring, selectLocationEdit } from '../../store/authoringSlice';
+import { authoringService } from '../../services/authoringService';
+import { AUTHORING_CONFIG } from '../../config';
+import AuthoringOverlay from './authoring/AuthoringOverlay';
+import AuthoringPanel from './authoring/AuthoringPanel';
 
-const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
+const LocationCard: React.FC<{ location: Location }> = ({ location: compiledLocation }) => {
   const dispatch = useDispatch<AppDispatch>();
   const triggerADA = useADA();
+
+  // --- AUTHORING PREVIEW ---
+  // While a writer has unexported edits, the card shows the location as edited.
+  const isAuthoring = useSelector(selectIsAuthoring);
+  const locationEdit = useSelector((state: RootState) => selectLocationEdit(state, compiledLocation.id));
+  const location = useMemo(() => authoringService.applyLocationEdit(compiledLocation, locationEdit), [compiledLocation, locationEdit]);
   
   const [isImageRendered, setIsImageRendered] = useState(false);
   const isExpanded = useSelector((state: RootState) => state.ui.locationPanelExpandedState[location.id] ?? false);
-  const { imageUrl, isLoading: isImageLoading } = useCardImage(location, 'selectiveColor');
+  const { imageUrl, isLoading: isImageLoading, isPlaceholder } = useCardImage(location, 'selectiveColor');
+  const unlockedHotspotIds = useSelector(selectUnlockedHotspotIds);
+  const isLocationUnlocked = useSelector((state: RootState) => isContentUnlocked(location.lock, state));
+  const hotspotUnlockStates = useSelector(
+    (state: RootState) => location.hotspots.map(hotspot => isContentUnlocked(hotspot.lock, state)),
+    shallowEqual
+  );
   
   // --- HOTSPOT FIX: The hook is now only passed a valid image URL *after* the `onLoad` event has fired. ---
+  // A locked location never shows its hotspots, so it isn't analyzed until it opens (or a writer is placing them).
+  // Placeholder art has nothing to find in it; hotspots use their fallback positions until a real image arrives.
   const { dynamicHotspots, isAnalyzing } = useHotspotAnalysis(
-    isImageRendered ? imageUrl : null, 
+    isImageRendered && !isPlaceholder && (isLocationUnlocked || isAuthoring) ? imageUrl : null, 
     location.hotspots, 
     location.id
   );
@@ -61,7 +84,7 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
     dispatch(setLocationPanelExpanded({ locationId: location.id, isExpanded: !isExpanded }));
   };
 
-  const visibleHotspots = useMemo(() => {
+  const positionedHotspots = useMemo(() => {
     return location.hotspots.map((hotspot, index) => {
         let coords: { top: string; left: string; } | null = null;
         if (hotspot.coords) {
@@ -76,12 +99,45 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
             coords = { top: '85%', left: fallbackLeft };
         }
         if (!coords) return null;
-        return { ...hotspot, finalCoords: coords };
-    }).filter(Boolean);
-  }, [location.hotspots, dynamicHotspots, isAnalyzing]);
+        return { ...hotspot, finalCoords: coords, lockedTeaser: hotspotUnlockStates[index] ? undefined : hotspot.lock?.teaser };
+    }).filter(<T,>(hotspot: T | null): hotspot is T => hotspot !== null);
+  }, [location.hotspots, dynamicHotspots, isAnalyzing, hotspotUnlockStates]);
+
+  // Hidden hotspots are still analyzed with the rest, so they already have a position when a trigger reveals them.
+  const visibleHotspots = useMemo(
+    () => positionedHotspots.filter(hotspot => !hotspot.isHidden || unlockedHotspotIds.includes(hotspot.id)),
+    [positionedHotspots, unlockedHotspotIds]
+  );
 
   const isContentLoading = isImageLoading || isAnalyzing;
 
+  // --- LOCKED LOCATION ---
+  // The scene stays blurred behind the teaser; none of its hotspots or details are reachable yet.
+  if (!isLocationUnlocked && !isAuthoring) {
+    return (
+      <div className="relative w-full h-full bg-black animate-slide-in-bottom">
+        <main className="absolute inset-0 w-full h-full overflow-hidden bg-brand-bg blur-md scale-105">
+          <ImageWithLoader imageUrl={imageUrl} isLoading={isImageLoading} alt={location.name} />
+        </main>
+        <header className="absolute top-0 left-0 right-0 z-20 p-4 flex items-start gap-3 bg-gradient-to-b from-black/80 to-transparent">
+          <button
+            onClick={handleGoBack}
+            className="p-2 rounded-full text-white bg-black/50 hover:bg-brand-primary transition-colors z-10 mt-1 flex-shrink-0"
+            aria-label="Go back"
+          >
+            <ArrowLeft size={24} />
+          </button>
+          <h1 className="text-6xl font-oswald text-white drop-shadow-lg uppercase tracking-tighter leading-tight">{location.name}</h1>
+        </header>
+        <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-4 p-8 text-center bg-black/60">
+          <Lock size={48} className="text-brand-text-muted" />
+          <p className="font-oswald text-2xl text-white uppercase tracking-wider">Location Locked</p>
+          <p className="text-brand-text-muted max-w-sm leading-relaxed">{location.lock?.teaser}</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     // The root is a relative container to establish a stacking context for its absolute children.
     <div className="relative w-full h-full bg-black animate-slide-in-bottom">
@@ -94,13 +150,15 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
             alt={location.name} 
             onLoad={() => setIsImageRendered(true)}
         />
-        {!isContentLoading && visibleHotspots.map(hotspot => (
+        {!isContentLoading && isAuthoring && <AuthoringOverlay locationId={location.id} hotspots={positionedHotspots} />}
+        {!isContentLoading && !isAuthoring && visibleHotspots.map(hotspot => (
             hotspot && (
                 <Hotspot
                     key={hotspot.id}
                     coords={hotspot.finalCoords}
                     label={hotspot.label}
                     type={hotspot.type}
+                    lockedTeaser={hotspot.lockedTeaser}
                     onClick={() => handleHotspotClick(hotspot.targetCardId, hotspot.targetCardType, hotspot.label)}
                 />
             )
@@ -119,7 +177,18 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
           </button>
           <h1 className="text-6xl font-oswald text-white drop-shadow-lg uppercase tracking-tighter leading-tight">{location.name}</h1>
         </div>
-        <div className="w-32 flex-shrink-0" />
+        {AUTHORING_CONFIG.ENABLED ? (
+          <button
+            onClick={() => dispatch(authoringToggled())}
+            className={`p-2 rounded-full text-white transition-colors z-10 mt-1 flex-shrink-0 ${isAuthoring ? 'bg-brand-primary' : 'bg-black/50 hover:bg-brand-primary'}`}
+            aria-label={isAuthoring ? 'Leave authoring mode' : 'Enter authoring mode'}
+            aria-pressed={isAuthoring}
+          >
+            <PenTool size={24} />
+          </button>
+        ) : (
+          <div className="w-32 flex-shrink-0" />
+        )}
       </header>
       
       {/* The loading spinner is layered on top of everything. */}
@@ -142,7 +211,7 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
           aria-controls="location-details-content"
           className="relative ml-auto right-4 w-fit bg-yellow-400 text-black rounded-t-lg flex items-center gap-2 px-6 py-2 cursor-pointer font-oswald uppercase tracking-wider transition-transform hover:-translate-y-1 shadow-lg"
         >
-          <span>Details</span>
+          <span>{isAuthoring ? 'Authoring' : 'Details'}</span>
           <ChevronUp className={`w-6 h-6 transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`} />
         </div>
 
@@ -156,6 +225,8 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
           className="bg-brand-surface/90 backdrop-blur-sm rounded-t-lg border-t-2 border-yellow-400 transition-all duration-500 ease-in-out overflow-y-auto p-4 space-y-6"
           style={{ height: isExpanded ? EXPANDED_PANEL_HEIGHT : COLLAPSED_PANEL_HEIGHT }}
         >
+          {isAuthoring ? <AuthoringPanel location={location} /> : (
+            <>
               <h2 className="text-lg font-oswald uppercase tracking-wider text-brand-accent pr-4">
                 {location.sceneSummary || location.lastEventDescription}
               </h2>
@@ -204,6 +275,8 @@ const LocationCard: React.FC<{ location: Location }> = ({ location }) => {
                       </div>
                   </div>
               )}
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -13,6 +13,7 @@ import ImageWithLoader from '../molecules/ImageWithLoader';
 import { useCardImage } from '../../hooks/useCardImage';
 import DataPair from '../molecules/DataPair';
 import { selectObjectById } from '../../store/storySlice';
+import { findComponentProps } from '../../data/dataComponents';
 import { ArrowLeft } from 'lucide-react';
 
 const MugshotCard: React.FC<{ character: Character }> = ({ character }) => {
@@ -28,7 +29,7 @@ const MugshotCard: React.FC<{ character: Character }> = ({ character }) => {
   // Use the mugshot's prompt to generate the image.
   const { imageUrl, isLoading } = useCardImage(mugshotObject || null, 'selectiveColor');
   
-  const physicalChars = character.components.find(c => c.type === 'physicalCharacteristics')?.props;
+  const physicalChars = findComponentProps(character.components, 'physicalCharacteristics');
 
   return (
     <div className="w-full h-full flex flex-col bg-brand-surface animate-slide-in-bottom">
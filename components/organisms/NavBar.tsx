@@ -8,8 +8,10 @@ import React from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
 import { setActiveView } from '../../store/uiSlice';
+import { caseClosed } from '../../store/caseSelectionSlice';
+import { saveGame, selectPersistenceStatus } from '../../store/persistenceSlice';
 import { ViewType, PlayerAction } from '../../types';
-import { Users, Map, BookOpen } from 'lucide-react';
+import { Users, Map, BookOpen, Briefcase } from 'lucide-react';
 import { useADA } from '../../hooks/useADA';
 
 /**
@@ -46,6 +48,7 @@ const NavButton: React.FC<{
 const NavBar: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const { activeView } = useSelector((state: RootState) => state.ui);
+  const persistenceStatus = useSelector(selectPersistenceStatus);
   const triggerADA = useADA();
 
   const handleNavClick = React.useCallback((view: ViewType) => {
@@ -55,6 +58,15 @@ const NavBar: React.FC = () => {
     triggerADA(PlayerAction.VIEW_LIST, `Player is now viewing the ${viewName}.`);
   }, [dispatch, triggerADA, activeView]);
 
+  const handleCloseCase = React.useCallback(() => {
+    // Write the autosave now rather than after the debounce, which a case switch would cancel.
+    // `saveGame` snapshots the state synchronously, so closing straight afterwards is safe.
+    if (persistenceStatus === 'ready') {
+      dispatch(saveGame());
+    }
+    dispatch(caseClosed());
+  }, [dispatch, persistenceStatus]);
+
   return (
     <nav className="w-full bg-brand-surface h-16 flex items-center border-t-2 border-brand-border shadow-lg">
       <NavButton view="locations" label="Locations" icon={<Map size={24} />} isActive={activeView === 'locations'} onClick={handleNavClick} />
@@ -66,6 +78,14 @@ const NavBar: React.FC = () => {
         isActive={activeView === 'timeline'} 
         onClick={handleNavClick}
       />
+      <button
+        onClick={handleCloseCase}
+        className="flex flex-col items-center justify-center w-full transition-colors duration-200 h-full text-brand-text-muted hover:text-white hover:bg-white/5"
+        aria-label="Back to case selection"
+      >
+        <Briefcase size={24} />
+        <span className="text-xs font-oswald uppercase tracking-wider mt-1">Cases</span>
+      </button>
     </nav>
   );
 };
@@ -4,12 +4,15 @@
  * rendering its sidebar actions dynamically based on the object's `components` array and the central
  * `componentRegistry`. The core gameplay loop of adding an item to the timeline is initiated here.
  */
-import React, { useState, useEffect } from 'react';
-import { useSelector, useDispatch } from 'react-redux';
-import { StoryObject, PlayerAction, DataComponent, PurchaseInfo, Interaction } from '../../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useSelector, useDispatch, shallowEqual } from 'react-redux';
+import { StoryObject, PlayerAction, DataComponent } from '../../types';
 import { selectSuspects, checkAndResolveConnections, markObjectAsAnalyzed, selectObjectById } from '../../store/storySlice';
 import { AppDispatch, RootState } from '../../store';
 import { goBack, showModal } from '../../store/uiSlice';
+import { isContentUnlocked } from '../../store/narrativeSlice';
+import { selectObjectEdit } from '../../store/authoringSlice';
+import { authoringService } from '../../services/authoringService';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import SidebarActionButton from '../atoms/SidebarActionButton';
 import { useADA } from '../../hooks/useADA';
@@ -20,9 +23,12 @@ import { FileText, Beaker, CheckSquare, ArrowLeft, Microscope, Info, Link } from
 import ForensicLensView from './forensic_lens/ForensicLensView';
 import ObjectRow from '../molecules/ObjectRow';
 
-const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
+const ObjectCard: React.FC<{ object: StoryObject }> = ({ object: compiledObject }) => {
   const dispatch = useDispatch<AppDispatch>();
   const triggerADA = useADA();
+  // Text edited in authoring mode shows here too, so a writer can read it in place.
+  const objectEdit = useSelector((state: RootState) => selectObjectEdit(state, compiledObject.id));
+  const object = useMemo(() => authoringService.applyObjectEdit(compiledObject, objectEdit), [compiledObject, objectEdit]);
   const suspects = useSelector((state: RootState) => selectSuspects(state));
   const [isLensActive, setIsLensActive] = useState(false);
 
@@ -38,6 +44,11 @@ const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
     object.findingIds?.map(id => selectObjectById(state, id)).filter(Boolean) as StoryObject[] || []
   );
 
+  const lockedComponentTypes = useSelector(
+    (state: RootState) => object.components.filter(comp => !isContentUnlocked(comp.lock, state)).map(comp => comp.type),
+    shallowEqual
+  );
+
   const handleGoBack = () => {
     dispatch(goBack());
   };
@@ -69,13 +80,14 @@ const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
    */
   const isDataEmpty = (comp: DataComponent): boolean => {
     if (!comp.props) return true;
+    // Narrowing on `type` types the props; their shape was already validated when the story loaded.
     switch (comp.type) {
-      case 'purchaseInfo':
-        const info = comp.props as PurchaseInfo;
+      case 'purchaseInfo': {
+        const info = comp.props;
         return !info.brand && !info.model && !info.sku && !info.manufacturer && (!info.receipts || info.receipts.length === 0);
+      }
       case 'interaction':
-        const interaction = comp.props as Interaction;
-        return !interaction.prompt || !interaction.solution;
+        return !comp.props.prompt || !comp.props.solution;
       default:
         return false;
     }
@@ -125,6 +137,9 @@ const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
                 if (!registryEntry) return null;
                 
                 const isDisabled = isDataEmpty(component);
+                const lockedTeaser = lockedComponentTypes.includes(component.type) ? component.lock?.teaser : undefined;
+                // Interactions are recorded as solved against this object, which their modal needs to know.
+                const modalProps = component.type === 'interaction' ? { ...component.props, objectId: object.id } : component.props;
                 
                 return (
                     <SidebarActionButton
@@ -132,11 +147,12 @@ const ObjectCard: React.FC<{ object: StoryObject }> = ({ object }) => {
                         label={registryEntry.label}
                         Icon={registryEntry.Icon}
                         onClick={() => {
-                          if (registryEntry.modal && !isDisabled) {
-                            dispatch(showModal({ type: registryEntry.modal, props: component.props }));
+                          if (registryEntry.modal && !isDisabled && lockedTeaser === undefined) {
+                            dispatch(showModal({ type: registryEntry.modal, props: modalProps }));
                           }
                         }}
                         disabled={isDisabled}
+                        lockedTeaser={lockedTeaser}
                     />
                 );
             })}
@@ -1,12 +1,14 @@
 /**
  * @file QuestionSelectView.tsx
  * @description A component that renders the screen for selecting a line of questioning in the new interrogation flow.
+ * Lines of inquiry with an unmet `lock` are listed but can't be chosen; their teaser hints at what opens them.
  */
 import React from 'react';
-import { useSelector } from 'react-redux';
+import { useSelector, shallowEqual } from 'react-redux';
 import { RootState } from '../../store';
 import { selectPlayerTokens } from '../../store/storySlice';
-import { ChevronRight, X, CheckCircle, ShieldQuestion, Coins } from 'lucide-react';
+import { isContentUnlocked } from '../../store/narrativeSlice';
+import { ChevronRight, X, CheckCircle, ShieldQuestion, Coins, Lock } from 'lucide-react';
 import { Character, LineOfInquiryData } from '../../types';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import { useCardImage } from '../../hooks/useCardImage';
@@ -25,12 +27,19 @@ const QuestionSelectView: React.FC<QuestionSelectViewProps> = ({ character, line
   const playerTokens = useSelector((state: RootState) => selectPlayerTokens(state));
   const questionCost = GAME_MECHANICS.QUESTION_COST;
   const canAfford = playerTokens >= questionCost;
+  const lockedLoiIds = useSelector(
+    (state: RootState) => linesOfInquiry.filter(loi => !isContentUnlocked(loi.lock, state)).map(loi => loi.id),
+    shallowEqual
+  );
 
   const renderStatusIcon = (loiId: string) => {
     const loiStatus = status[loiId];
     if (loiStatus === 'completed') {
       return <CheckCircle size={24} className="flex-shrink-0 text-brand-accent" />;
     }
+    if (lockedLoiIds.includes(loiId)) {
+      return <Lock size={20} className="flex-shrink-0 text-brand-text-muted" />;
+    }
     return <ChevronRight size={24} className="flex-shrink-0" />;
   };
 
@@ -63,7 +72,8 @@ const QuestionSelectView: React.FC<QuestionSelectViewProps> = ({ character, line
         <div className="space-y-3">
             {linesOfInquiry.map((loi) => {
               const loiStatus = status[loi.id];
-              const isDisabled = loiStatus === 'completed' || (!canAfford && loiStatus !== 'completed');
+              const isLocked = loiStatus !== 'completed' && lockedLoiIds.includes(loi.id);
+              const isDisabled = loiStatus === 'completed' || isLocked || (!canAfford && loiStatus !== 'completed');
               
               let statusClasses = 'border-brand-border hover:border-brand-primary hover:bg-brand-primary/10';
               if (loiStatus === 'completed') {
@@ -84,7 +94,12 @@ const QuestionSelectView: React.FC<QuestionSelectViewProps> = ({ character, line
                                 border-l-4
                                 ${statusClasses}`}
                   >
-                      <span>{loi.label}</span>
+                      <span>
+                          {loi.label}
+                          {isLocked && (
+                              <span className="block mt-1 font-sans normal-case tracking-normal text-sm text-brand-text-muted">{loi.lock?.teaser}</span>
+                          )}
+                      </span>
                       {renderStatusIcon(loi.id)}
                   </button>
               );
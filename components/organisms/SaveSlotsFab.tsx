@@ -0,0 +1,31 @@
+import React from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../../store';
+import { showModal } from '../../store/uiSlice';
+import { Save } from 'lucide-react';
+
+/**
+ * A floating button that opens the save-slot screen. It sits directly above the debug button.
+ */
+const SaveSlotsFab: React.FC = () => {
+    const dispatch = useDispatch<AppDispatch>();
+
+    return (
+        <div
+            className="fixed bottom-20 right-4 z-40"
+        >
+            <button
+                onClick={() => dispatch(showModal({ type: 'saveSlots' }))}
+                className={`w-12 h-12 rounded-full flex items-center justify-center
+                    bg-brand-surface text-white border-2 border-brand-border transition-all duration-300 ease-in-out transform
+                    hover:scale-110 hover:border-brand-primary shadow-lg
+                `}
+                aria-label={"Open Saves"}
+            >
+                <Save className="w-6 h-6" />
+            </button>
+        </div>
+    );
+};
+
+export default SaveSlotsFab;
@@ -0,0 +1,77 @@
+/**
+ * @file AuthoringOverlay.tsx
+ * @description The authoring-mode layer over a location image: every hotspot (hidden and locked ones
+ * included) as a marker the writer can drag. Dropping a marker records its position as the hotspot's
+ * static `coords`, which take precedence over AI placement.
+ */
+
+import React, { useRef, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../../../store';
+import { hotspotEdited } from '../../../store/authoringSlice';
+import { Hotspot } from '../../../types';
+import HotspotMarker from '../../atoms/Hotspot';
+
+interface AuthoringOverlayProps {
+  locationId: string;
+  hotspots: (Hotspot & { finalCoords: { top: string; left: string } })[];
+}
+
+/** Converts a pointer position to percentages of the overlay, clamped to its bounds. */
+const toPercentCoords = (event: React.PointerEvent, rect: DOMRect) => {
+  const clamp = (value: number) => Math.min(100, Math.max(0, value));
+  return {
+    top: `${clamp(((event.clientY - rect.top) / rect.height) * 100).toFixed(1)}%`,
+    left: `${clamp(((event.clientX - rect.left) / rect.width) * 100).toFixed(1)}%`,
+  };
+};
+
+const AuthoringOverlay: React.FC<AuthoringOverlayProps> = ({ locationId, hotspots }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // The marker being dragged and where it is; the store is only updated on drop.
+  const [drag, setDrag] = useState<{ hotspotId: string; coords: { top: string; left: string } } | null>(null);
+
+  const handlePointerDown = (event: React.PointerEvent, hotspotId: string) => {
+    // Captured on the overlay so the drag keeps tracking when the pointer outruns the marker.
+    overlayRef.current!.setPointerCapture(event.pointerId);
+    setDrag({ hotspotId, coords: toPercentCoords(event, overlayRef.current!.getBoundingClientRect()) });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+    setDrag({ ...drag, coords: toPercentCoords(event, overlayRef.current!.getBoundingClientRect()) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    dispatch(hotspotEdited({ locationId, hotspotId: drag.hotspotId, changes: { coords: drag.coords } }));
+    setDrag(null);
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      className="absolute inset-0 z-10 touch-none"
+    >
+      {hotspots.map(hotspot => (
+        <div
+          key={hotspot.id}
+          onPointerDown={(event) => handlePointerDown(event, hotspot.id)}
+          className={`cursor-grab active:cursor-grabbing ${hotspot.isHidden ? 'opacity-60' : ''}`}
+        >
+          <HotspotMarker
+            coords={drag?.hotspotId === hotspot.id ? drag.coords : hotspot.finalCoords}
+            label={hotspot.isHidden ? `${hotspot.label} (hidden)` : hotspot.label}
+            type={hotspot.type}
+            onClick={() => {}}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AuthoringOverlay;
@@ -0,0 +1,164 @@
+/**
+ * @file AuthoringPanel.tsx
+ * @description The authoring-mode side panel of a location card. A writer edits the location's text,
+ * each hotspot's label and `aiHint`, adds `move` links to other locations, edits the text of the
+ * objects found here, and exports everything as patched `rawLocations`/`rawObjects` JSON.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../../store';
+import { Location, StoryObject } from '../../../types';
+import { selectAllLocations, selectObjectEntities, selectAllEvidenceGroups } from '../../../store/storySlice';
+import {
+  locationTextEdited,
+  hotspotEdited,
+  hotspotAdded,
+  addedHotspotRemoved,
+  objectTextEdited,
+  authoringEditsDiscarded,
+  exportAuthoredContent,
+  selectLocationEdit,
+  selectObjectEdits,
+  selectAuthoringExportError,
+  selectHasAuthoringEdits,
+} from '../../../store/authoringSlice';
+import { authoringService } from '../../../services/authoringService';
+import { AUTHORING_CONFIG } from '../../../config';
+import Button from '../../atoms/Button';
+import { Download, Plus, Trash2 } from 'lucide-react';
+
+const INPUT_CLASSES = 'w-full p-2 bg-brand-bg border border-brand-border rounded text-white text-sm focus:outline-none focus:border-brand-primary';
+
+const Field: React.FC<{ label: string; value: string; onChange: (value: string) => void; multiline?: boolean }> = ({ label, value, onChange, multiline }) => (
+  <label className="block space-y-1">
+    <span className="text-xs font-oswald uppercase tracking-wider text-brand-text-muted">{label}</span>
+    {multiline
+      ? <textarea className={`${INPUT_CLASSES} min-h-24`} value={value} onChange={e => onChange(e.target.value)} />
+      : <input className={INPUT_CLASSES} value={value} onChange={e => onChange(e.target.value)} />}
+  </label>
+);
+
+const AuthoringPanel: React.FC<{ location: Location }> = ({ location }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const locationEdit = useSelector((state: RootState) => selectLocationEdit(state, location.id));
+  const objectEdits = useSelector(selectObjectEdits);
+  const objectEntities = useSelector(selectObjectEntities);
+  const evidenceGroups = useSelector(selectAllEvidenceGroups);
+  const allLocations = useSelector(selectAllLocations);
+  const exportError = useSelector(selectAuthoringExportError);
+  const hasEdits = useSelector(selectHasAuthoringEdits);
+  const [moveTargetId, setMoveTargetId] = useState('');
+
+  const addedHotspotIds = useMemo(() => new Set(locationEdit?.addedHotspots.map(h => h.id)), [locationEdit]);
+
+  // The objects a player can open from this scene, directly or through an evidence group.
+  const sceneObjects = useMemo(() => {
+    const ids: string[] = location.hotspots.flatMap(hotspot => {
+      if (hotspot.targetCardType === 'object') return [hotspot.targetCardId];
+      if (hotspot.targetCardType === 'evidenceGroup') return evidenceGroups.find(g => g.id === hotspot.targetCardId)?.objectIds ?? [];
+      return [];
+    });
+    return Array.from(new Set(ids))
+      .map(id => objectEntities[id])
+      .filter((obj): obj is StoryObject => !!obj)
+      .map(obj => authoringService.applyObjectEdit(obj, objectEdits[obj.id]));
+  }, [location.hotspots, evidenceGroups, objectEntities, objectEdits]);
+
+  const handleAddMoveLink = () => {
+    const target = allLocations.find(loc => loc.id === moveTargetId);
+    if (!target) return;
+    const baseId = `hotspot-${location.id.replace(/^loc_/, '')}-to-${target.id.replace(/^loc_/, '')}`;
+    const takenIds = new Set(location.hotspots.map(h => h.id));
+    let id = baseId;
+    for (let n = 2; takenIds.has(id); n++) id = `${baseId}-${n}`;
+    dispatch(hotspotAdded({
+      locationId: location.id,
+      hotspot: {
+        id,
+        type: 'move',
+        label: `Go to ${target.name}`,
+        targetCardId: target.id,
+        targetCardType: 'location',
+        coords: AUTHORING_CONFIG.NEW_HOTSPOT_COORDS,
+      },
+    }));
+    setMoveTargetId('');
+  };
+
+  const editText = (text: Parameters<typeof locationTextEdited>[0]['text']) =>
+    dispatch(locationTextEdited({ locationId: location.id, text }));
+
+  return (
+    <div className="space-y-6 text-white">
+      <div className="flex items-center gap-2">
+        <Button onClick={() => dispatch(exportAuthoredContent())} disabled={!hasEdits} className="flex-1 flex items-center justify-center gap-2 uppercase font-oswald tracking-wider disabled:opacity-50">
+          <Download size={16} /> Export JSON
+        </Button>
+        <Button variant="secondary" onClick={() => dispatch(authoringEditsDiscarded())} disabled={!hasEdits} className="uppercase font-oswald tracking-wider disabled:opacity-50">
+          Discard
+        </Button>
+      </div>
+      {exportError && (
+        <p className="p-2 text-sm text-yellow-400 bg-brand-bg border-l-4 border-yellow-500 rounded">{exportError}</p>
+      )}
+
+      <section className="space-y-3">
+        <h3 className="font-oswald text-brand-primary uppercase tracking-wider">Location</h3>
+        <Field label="Name" value={location.name} onChange={name => editText({ name })} />
+        <Field label="Scene Summary" value={location.sceneSummary} onChange={sceneSummary => editText({ sceneSummary })} />
+        <Field label="Detailed Description" value={location.detailedDescription ?? ''} onChange={detailedDescription => editText({ detailedDescription })} multiline />
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-oswald text-brand-primary uppercase tracking-wider">Hotspots</h3>
+        <p className="text-xs text-brand-text-muted">Drag a marker on the image to pin its position.</p>
+        {location.hotspots.map(hotspot => (
+          <div key={hotspot.id} className="p-3 bg-black/20 rounded-lg border border-brand-border space-y-2">
+            <div className="flex items-center justify-between gap-2 text-xs text-brand-text-muted font-mono">
+              <span>{hotspot.id} → {hotspot.targetCardId}</span>
+              <span>{hotspot.coords ? `${hotspot.coords.top}, ${hotspot.coords.left}` : 'AI placed'}</span>
+            </div>
+            <Field label="Label" value={hotspot.label} onChange={label => dispatch(hotspotEdited({ locationId: location.id, hotspotId: hotspot.id, changes: { label } }))} />
+            <Field label="AI Hint" value={hotspot.aiHint ?? ''} onChange={aiHint => dispatch(hotspotEdited({ locationId: location.id, hotspotId: hotspot.id, changes: { aiHint } }))} />
+            {addedHotspotIds.has(hotspot.id) && (
+              <button
+                onClick={() => dispatch(addedHotspotRemoved({ locationId: location.id, hotspotId: hotspot.id }))}
+                className="flex items-center gap-1 text-xs text-red-400 hover:text-red-300 uppercase font-oswald tracking-wider"
+              >
+                <Trash2 size={14} /> Remove
+              </button>
+            )}
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <select className={INPUT_CLASSES} value={moveTargetId} onChange={e => setMoveTargetId(e.target.value)}>
+            <option value="">Add a move link to…</option>
+            {allLocations.filter(loc => loc.id !== location.id).map(loc => (
+              <option key={loc.id} value={loc.id}>{loc.name}</option>
+            ))}
+          </select>
+          <Button onClick={handleAddMoveLink} disabled={!moveTargetId} className="flex items-center gap-1 disabled:opacity-50" aria-label="Add move link">
+            <Plus size={16} />
+          </Button>
+        </div>
+      </section>
+
+      {sceneObjects.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="font-oswald text-brand-primary uppercase tracking-wider">Objects Here</h3>
+          {sceneObjects.map(obj => (
+            <div key={obj.id} className="p-3 bg-black/20 rounded-lg border border-brand-border space-y-2">
+              <p className="text-xs text-brand-text-muted font-mono">{obj.id}</p>
+              <Field label="Name" value={obj.name} onChange={name => dispatch(objectTextEdited({ objectId: obj.id, text: { name } }))} />
+              <Field label="Unidentified Description" value={obj.unidentifiedDescription ?? ''} onChange={unidentifiedDescription => dispatch(objectTextEdited({ objectId: obj.id, text: { unidentifiedDescription } }))} multiline />
+              <Field label="Description" value={obj.description} onChange={description => dispatch(objectTextEdited({ objectId: obj.id, text: { description } }))} multiline />
+            </div>
+          ))}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default AuthoringPanel;
@@ -12,8 +12,8 @@
  *   read a character's `components` array and use this registry to dynamically build their UI.
  * - **Extreme Scalability:** To add a completely new feature (e.g., a "Financial Records" view), a developer only
  *   needs to:
- *   1. Define the data shape in `types.ts`.
- *   2. Add the data to `hayesValleyStory.ts`.
+ *   1. Define the props shape in `types.ts` and add it to `DataComponentPropsMap`.
+ *   2. Add its validator to `data/dataComponents.ts`, then the data to the story.
  *   3. Create a new modal component (e.g., `FinancialRecordsModal.tsx`).
  *   4. Add a single new entry to this registry file.
  *   The rest of the UI will adapt automatically without any changes to the card components themselves.
@@ -23,6 +23,7 @@
 
 import React from 'react';
 import { ModalType } from '../../store/uiSlice';
+import { DataComponentType } from '../../types';
 import { AtSign, Phone, Video, Landmark, Shield, Receipt, KeyRound, FileText } from 'lucide-react';
 
 /**
@@ -39,10 +40,11 @@ interface ComponentRegistryEntry {
 
 /**
  * The Component Registry object.
- * Maps a `DataComponent.type` string to its UI configuration.
+ * Maps a `DataComponent.type` to its UI configuration. Keyed by the same union as `DataComponent`, so a
+ * misspelled type is a compile error. Types without an entry (e.g., `dialogue`) get no sidebar button.
  * The order of keys here will determine the order of buttons on the character card.
  */
-export const COMPONENT_REGISTRY: { [key: string]: ComponentRegistryEntry } = {
+export const COMPONENT_REGISTRY: { [K in DataComponentType]?: ComponentRegistryEntry } = {
   // --- Character Components ---
   socialMedia: { Icon: AtSign, label: 'Social' },
   phoneLog: { Icon: Phone, label: 'Phone Log' },
@@ -5,9 +5,10 @@ import Button from '../../atoms/Button';
 
 interface ComputerLoginScreenProps {
   interaction: Interaction;
+  onSolved: () => void;
 }
 
-const ComputerLoginScreen: React.FC<ComputerLoginScreenProps> = ({ interaction }) => {
+const ComputerLoginScreen: React.FC<ComputerLoginScreenProps> = ({ interaction, onSolved }) => {
   const [input, setInput] = useState('');
   const [message, setMessage] = useState('');
 
@@ -15,6 +16,7 @@ const ComputerLoginScreen: React.FC<ComputerLoginScreenProps> = ({ interaction }
     e.preventDefault();
     if (input === interaction.solution) {
       setMessage('Login Successful. Accessing files...');
+      onSolved();
     } else {
       setMessage('Incorrect Password.');
     }
@@ -5,9 +5,10 @@ import Button from '../../atoms/Button';
 
 interface PhoneUnlockScreenProps {
   interaction: Interaction;
+  onSolved: () => void;
 }
 
-const PhoneUnlockScreen: React.FC<PhoneUnlockScreenProps> = ({ interaction }) => {
+const PhoneUnlockScreen: React.FC<PhoneUnlockScreenProps> = ({ interaction, onSolved }) => {
   const [input, setInput] = useState('');
   const [message, setMessage] = useState('');
 
@@ -15,7 +16,7 @@ const PhoneUnlockScreen: React.FC<PhoneUnlockScreenProps> = ({ interaction }) =>
     e.preventDefault();
     if (input === interaction.solution) {
       setMessage('Access Granted. Phone unlocked.');
-      // Here you would dispatch an action to update the game state
+      onSolved();
     } else {
       setMessage('Access Denied. Incorrect passcode.');
       setInput('');
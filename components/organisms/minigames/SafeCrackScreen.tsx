@@ -5,9 +5,10 @@ import Button from '../../atoms/Button';
 
 interface SafeCrackScreenProps {
   interaction: Interaction;
+  onSolved: () => void;
 }
 
-const SafeCrackScreen: React.FC<SafeCrackScreenProps> = ({ interaction }) => {
+const SafeCrackScreen: React.FC<SafeCrackScreenProps> = ({ interaction, onSolved }) => {
   const [input, setInput] = useState('');
   const [message, setMessage] = useState('');
 
@@ -15,6 +16,7 @@ const SafeCrackScreen: React.FC<SafeCrackScreenProps> = ({ interaction }) => {
     e.preventDefault();
     if (input === interaction.solution) {
       setMessage('Success! The safe clicks open.');
+      onSolved();
     } else {
       setMessage('Incorrect combination. Try again.');
     }
@@ -1,10 +1,13 @@
 
 import React, { useEffect, useRef } from 'react';
-import { useSelector } from 'react-redux';
-import { RootState } from '../../../store';
+import { useDispatch, useSelector } from 'react-redux';
+import { RefreshCw } from 'lucide-react';
+import { RootState, AppDispatch } from '../../../store';
+import { reanalyzeCard } from '../../../store/adaSlice';
 
 const ADAModal: React.FC = () => {
-  const { messages, isLoading } = useSelector((state: RootState) => state.ada);
+  const dispatch = useDispatch<AppDispatch>();
+  const { messages, isLoading, cardAnalysis, streamingMessage } = useSelector((state: RootState) => state.ada);
   const scrollContainerRef = useRef<HTMLDivElement | null>(null);
 
   // --- UX Improvement: Scroll to Top ---
@@ -21,11 +24,35 @@ const ADAModal: React.FC = () => {
         <div className="w-full h-full bg-brand-surface/95 backdrop-blur-sm shadow-lg flex flex-col border-t-4 border-brand-primary rounded-t-2xl overflow-hidden">
             <header className="p-4 flex items-center gap-3 border-b border-brand-border flex-shrink-0">
                  <h3 className="font-oswald text-xl text-brand-primary uppercase tracking-wider">ADA Analysis</h3>
+                 {/* --- CACHED ANALYSIS --- */}
+                 {/* A revisited card shows ADA's stored analysis; the player can still ask for a fresh one. */}
+                 {cardAnalysis && (
+                   <div className="ml-auto flex items-center gap-2">
+                     {cardAnalysis.cachedAt && !isLoading && (
+                       <span className="text-xs text-brand-text-muted font-mono">On file since {new Date(cardAnalysis.cachedAt).toLocaleString()}</span>
+                     )}
+                     <button
+                       onClick={() => dispatch(reanalyzeCard())}
+                       disabled={isLoading}
+                       className="p-1.5 rounded text-white/70 hover:bg-brand-primary hover:text-white disabled:opacity-40"
+                       aria-label="Re-analyze"
+                       title="Re-analyze"
+                     >
+                       <RefreshCw size={16} />
+                     </button>
+                   </div>
+                 )}
             </header>
             <div ref={scrollContainerRef} className="flex-grow p-4 overflow-y-auto text-lg leading-relaxed">
                   {messages.map((msg, index) => <p key={index} className="pb-4 animate-fade-in">{msg}</p>)}
-                  
-                  {isLoading && (
+
+                  {/* --- STREAMING RESPONSE --- */}
+                  {/* The analysis grows in place as it arrives; the dots only show until the first words do. */}
+                  {isLoading && streamingMessage && (
+                      <p className="pb-4">{streamingMessage}<span className="inline-block w-2 h-5 ml-1 align-middle bg-brand-text-muted animate-pulse"></span></p>
+                  )}
+
+                  {isLoading && !streamingMessage && (
                       <div className="flex items-center space-x-2 pt-2">
                           <span className="w-2.5 h-2.5 bg-brand-text-muted rounded-full animate-pulse [animation-delay:-0.3s]"></span>
                           <span className="w-2.5 h-2.5 bg-brand-text-muted rounded-full animate-pulse [animation-delay:-0.15s]"></span>
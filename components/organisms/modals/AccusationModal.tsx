@@ -9,7 +9,7 @@ import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../../store';
 import { hideModal } from '../../../store/uiSlice';
 import { selectCanonicalTimeline } from '../../../store/storySlice';
-import { summarizePlayerTimeline, evaluateTimeline } from '../../../services/geminiService';
+import { summarizePlayerTimeline, evaluateTimeline } from '../../../services/aiService';
 import { Character, TimelineEvaluation } from '../../../types';
 import { selectAllEvidenceWithDetails } from '../../../store/storySlice';
 import { X, CheckCircle, XCircle, AlertTriangle, Shield, Send } from 'lucide-react';
@@ -0,0 +1,87 @@
+/**
+ * @file HistoryModal.tsx
+ * @description The investigation history panel. It lists every undoable step the player has taken,
+ * newest first, followed by any steps that have been undone and can still be redone.
+ */
+import React from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch } from '../../../store';
+import { hideModal } from '../../../store/uiSlice';
+import {
+  undoLastAction,
+  redoLastAction,
+  selectUndoStack,
+  selectRedoStack,
+  selectCanUndo,
+  selectCanRedo,
+} from '../../../store/historySlice';
+import { UndoHistoryEntry } from '../../../types';
+import Button from '../../atoms/Button';
+import { X, Undo2, Redo2 } from 'lucide-react';
+
+const HistoryRow: React.FC<{ entry: UndoHistoryEntry; isUndone: boolean }> = ({ entry, isUndone }) => (
+  <div className={`bg-brand-bg p-3 rounded-lg border-l-4 ${isUndone ? 'border-brand-border opacity-50' : 'border-brand-primary'}`}>
+    <p className="text-xs text-brand-text-muted font-mono">{new Date(entry.timestamp).toLocaleTimeString()}</p>
+    <p className={`text-sm mt-1 ${isUndone ? 'text-brand-text-muted line-through' : 'text-white'}`}>{entry.label}</p>
+  </div>
+);
+
+const HistoryModal: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const past = useSelector(selectUndoStack);
+  const future = useSelector(selectRedoStack);
+  const canUndo = useSelector(selectCanUndo);
+  const canRedo = useSelector(selectCanRedo);
+
+  const handleClose = () => {
+    dispatch(hideModal());
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-brand-surface rounded-xl shadow-2xl w-full max-w-lg border-2 border-brand-border overflow-hidden flex flex-col h-[80%]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b-2 border-brand-border flex justify-between items-center flex-shrink-0">
+          <h2 className="text-2xl font-oswald text-white uppercase tracking-wider">History</h2>
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" onClick={() => dispatch(undoLastAction())} disabled={!canUndo} className="text-xs flex items-center gap-1 disabled:opacity-40">
+              <Undo2 size={14} />
+              Undo
+            </Button>
+            <Button variant="secondary" onClick={() => dispatch(redoLastAction())} disabled={!canRedo} className="text-xs flex items-center gap-1 disabled:opacity-40">
+              <Redo2 size={14} />
+              Redo
+            </Button>
+            <button
+              className="p-2 rounded-full text-white/50 hover:bg-brand-primary hover:text-white transition-colors"
+              onClick={handleClose}
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </header>
+        <main className="p-4 flex-1 overflow-y-auto">
+          {past.length > 0 || future.length > 0 ? (
+            <div className="space-y-2">
+              {/* Redo entries are shown above the undo stack, in the order they would be re-applied. */}
+              {future.map(entry => <HistoryRow key={entry.id} entry={entry} isUndone={true} />)}
+              {past.slice().reverse().map(entry => <HistoryRow key={entry.id} entry={entry} isUndone={false} />)}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-full text-center">
+              <p className="text-brand-text-muted">Nothing to undo yet. Filing evidence, flagging suspects and placing clues will appear here.</p>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
@@ -1,5 +1,8 @@
 import React from 'react';
+import { useDispatch } from 'react-redux';
 import { Interaction } from '../../../types';
+import { AppDispatch } from '../../../store';
+import { interactionSolved } from '../../../store/narrativeSlice';
 import ModalWrapper from './ModalWrapper';
 import PhoneUnlockScreen from '../minigames/PhoneUnlockScreen';
 import SafeCrackScreen from '../minigames/SafeCrackScreen';
@@ -10,15 +13,19 @@ import ComputerLoginScreen from '../minigames/ComputerLoginScreen';
 // This matches the data passed from the `showModal` action in ObjectCard,
 // which passes `component.props`. This resolves a `TypeError` where
 // the component was trying to access `props.interaction.type` but `interaction` was undefined.
-const InteractionModal: React.FC<Interaction> = (props) => {
+// ObjectCard adds the owning object's ID, under which a solved interaction is recorded for locks.
+const InteractionModal: React.FC<Interaction & { objectId: string }> = (props) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const handleSolved = () => dispatch(interactionSolved(props.objectId));
+
   const renderInteraction = () => {
     switch (props.type) {
       case 'phone_unlock':
-        return <PhoneUnlockScreen interaction={props} />;
+        return <PhoneUnlockScreen interaction={props} onSolved={handleSolved} />;
       case 'safe_crack':
-        return <SafeCrackScreen interaction={props} />;
+        return <SafeCrackScreen interaction={props} onSolved={handleSolved} />;
       case 'computer_login':
-        return <ComputerLoginScreen interaction={props} />;
+        return <ComputerLoginScreen interaction={props} onSolved={handleSolved} />;
       default:
         return <p>Unknown interaction type.</p>;
     }
@@ -9,8 +9,7 @@ import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { AppDispatch, RootState } from '../../../store';
 import { hideModal, markIntroAsPlayed } from '../../../store/uiSlice';
-import { queueImageGeneration, processImageGenerationQueue, selectImageUrls, selectImageErrors, preloadKeyStoryAssets } from '../../../store/storySlice';
-import { introSlideshowData } from '../../../data/introSlideshowData';
+import { queueImageGeneration, processImageGenerationQueue, selectImageUrls, selectImageErrors, preloadKeyStoryAssets, selectStoryPackage } from '../../../store/storySlice';
 import ImageWithLoader from '../../molecules/ImageWithLoader';
 import { useCardImage } from '../../../hooks/useCardImage';
 import Spinner from '../../atoms/Spinner';
@@ -28,24 +27,25 @@ const IntroSlideshowModal: React.FC = () => {
   const timerRef = useRef<number | null>(null);
   const cachedImageUrls = useSelector(selectImageUrls);
   const imageErrors = useSelector(selectImageErrors);
+  const introSlides = useSelector(selectStoryPackage).introSlides;
   
-  const totalImages = introSlideshowData.length;
+  const totalImages = introSlides.length;
   // Memoized calculation to count how many images for this slideshow have been processed.
   const preloadedImageCount = useMemo(() => {
-    return introSlideshowData.reduce((count, slide) => {
+    return introSlides.reduce((count, slide) => {
         // An image is considered "processed" and ready to be shown if we have either
         // a valid URL for it or a confirmed error state for it. This prevents the
         // preloader from getting stuck if an image fails to generate.
         return (cachedImageUrls[slide.id] || imageErrors[slide.id]) ? count + 1 : count;
     }, 0);
-  }, [cachedImageUrls, imageErrors]);
+  }, [introSlides, cachedImageUrls, imageErrors]);
 
   // --- Core Stability Feature: Add all images to a central queue on mount ---
   // On first mount, we dispatch requests for ALL images needed for the slideshow.
   // This adds them to the central, concurrent batch processing queue in storySlice.
   // This is a critical architectural decision for ensuring a smooth cinematic.
   useEffect(() => {
-    const imagesToQueue = introSlideshowData.filter(slide => !cachedImageUrls[slide.id]);
+    const imagesToQueue = introSlides.filter(slide => !cachedImageUrls[slide.id]);
     
     if (imagesToQueue.length > 0) {
       imagesToQueue.forEach(slide => {
@@ -62,7 +62,7 @@ const IntroSlideshowModal: React.FC = () => {
       // All images were already in the cache, no need to preload.
       setIsPreloading(false);
     }
-  }, [dispatch, cachedImageUrls]); // This effect runs only once on mount.
+  }, [dispatch, introSlides, cachedImageUrls]); // This effect runs only once on mount.
 
   // --- Core UX Feature: Wait for Preloading to Complete ---
   // This effect monitors the number of loaded images. Only when all images for the
@@ -87,7 +87,7 @@ const IntroSlideshowModal: React.FC = () => {
   useEffect(() => {
     if (isPreloading || isFadingOut) return; // Don't run timer until preloading/fading is done
 
-    const isLastSlide = currentIndex === introSlideshowData.length - 1;
+    const isLastSlide = currentIndex === introSlides.length - 1;
     // The final slide is held for twice as long for dramatic effect.
     const duration = isLastSlide ? SLIDE_DURATION * 2 : SLIDE_DURATION;
 
@@ -107,11 +107,11 @@ const IntroSlideshowModal: React.FC = () => {
     };
   }, [currentIndex, isPreloading, isFadingOut, handleClose, totalImages]);
   
-  const currentSlide = introSlideshowData[currentIndex];
+  const currentSlide = introSlides[currentIndex];
   // `useCardImage` will now instantly fetch from the Redux cache since we preloaded everything.
   const { imageUrl, isLoading: isImageLoading } = useCardImage(currentSlide, 'selectiveColor');
 
-  const isLastSlide = currentIndex === introSlideshowData.length - 1;
+  const isLastSlide = currentIndex === introSlides.length - 1;
   const slideDuration = isLastSlide ? SLIDE_DURATION * 2 : SLIDE_DURATION;
   const animationName = `progress-${currentIndex}`;
   const animationKeyframes = `@keyframes ${animationName} { from { width: 0% } to { width: 100% } }`;
@@ -134,7 +134,7 @@ const IntroSlideshowModal: React.FC = () => {
        {/* Header with progress bars and skip button */}
        <header className={`absolute top-0 left-0 right-0 p-4 z-30 flex items-center gap-4 transition-opacity duration-300 ${isFadingOut ? 'opacity-0' : 'opacity-100'}`}>
             <div className="flex-1 flex gap-1">
-                {introSlideshowData.map((_, index) => (
+                {introSlides.map((_, index) => (
                     <div key={index} className="flex-1 h-1 bg-white/30 rounded-full overflow-hidden">
                         <div
                             className="h-full bg-white"
@@ -0,0 +1,217 @@
+/**
+ * @file SaveSlotsModal.tsx
+ * @description The load/save screen for named save slots. Players can save the current game into a
+ * new slot, overwrite an existing one, load a slot, branch it into a copy, or delete it. The footer
+ * exports or imports the whole investigation as a portable bundle file.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../../store';
+import { hideModal } from '../../../store/uiSlice';
+import {
+  fetchSaveSlots,
+  saveToSlot,
+  loadSaveSlot,
+  branchSaveSlot,
+  deleteSaveSlot,
+  exportSaveBundle,
+  importSaveBundle,
+  clearSaveSlotError,
+  selectAllSaveSlots,
+  selectSaveSlotThumbnails,
+  selectActiveSaveSlotId,
+  selectIsSaveSlotBusy,
+  selectSaveSlotError,
+} from '../../../store/saveSlotsSlice';
+import { SaveSlotSummary } from '../../../types';
+import Button from '../../atoms/Button';
+import { X, Save, Upload, GitBranch, Trash2, ImageOff, FileDown, FileUp } from 'lucide-react';
+
+interface SaveSlotRowProps {
+  slot: SaveSlotSummary;
+  thumbnailUrl?: string;
+  isActive: boolean;
+  isBusy: boolean;
+  onLoad: () => void;
+  onOverwrite: () => void;
+  onBranch: () => void;
+  onDelete: () => void;
+}
+
+const SaveSlotRow: React.FC<SaveSlotRowProps> = ({ slot, thumbnailUrl, isActive, isBusy, onLoad, onOverwrite, onBranch, onDelete }) => {
+  const { filledPrimarySlots, totalPrimarySlots, isComplete } = slot.caseFileProgress;
+
+  return (
+    <div className={`bg-brand-bg rounded-lg border-2 ${isActive ? 'border-brand-primary' : 'border-brand-border'} overflow-hidden flex`}>
+      <div className="w-24 flex-shrink-0 bg-brand-surface flex items-center justify-center">
+        {thumbnailUrl ? (
+          <img src={thumbnailUrl} alt={slot.name} className="w-full h-full object-cover" />
+        ) : (
+          <ImageOff className="w-6 h-6 text-brand-text-muted" />
+        )}
+      </div>
+      <div className="flex-1 p-3 min-w-0">
+        <p className="font-oswald text-white uppercase tracking-wider truncate">{slot.name}</p>
+        <p className="text-xs text-brand-text-muted font-mono">{new Date(slot.savedAt).toLocaleString()}</p>
+        <p className="text-xs text-brand-text-muted mt-1 truncate">{slot.storyTitle}</p>
+        <p className="text-xs text-white mt-1">
+          {slot.evidenceCount} evidence &middot; Case file {isComplete ? 'solved' : `${filledPrimarySlots}/${totalPrimarySlots}`}
+        </p>
+        <div className="flex gap-1 mt-2">
+          <button onClick={onLoad} disabled={isBusy} className="p-1.5 rounded text-white/70 hover:bg-brand-primary hover:text-white disabled:opacity-40" aria-label="Load save">
+            <Upload size={16} />
+          </button>
+          <button onClick={onOverwrite} disabled={isBusy} className="p-1.5 rounded text-white/70 hover:bg-brand-primary hover:text-white disabled:opacity-40" aria-label="Overwrite save">
+            <Save size={16} />
+          </button>
+          <button onClick={onBranch} disabled={isBusy} className="p-1.5 rounded text-white/70 hover:bg-brand-primary hover:text-white disabled:opacity-40" aria-label="Branch save">
+            <GitBranch size={16} />
+          </button>
+          <button onClick={onDelete} disabled={isBusy} className="p-1.5 rounded text-white/70 hover:bg-brand-primary hover:text-white disabled:opacity-40 ml-auto" aria-label="Delete save">
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SaveSlotsModal: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const slots = useSelector(selectAllSaveSlots);
+  const thumbnails = useSelector(selectSaveSlotThumbnails);
+  const activeSlotId = useSelector(selectActiveSaveSlotId);
+  const isBusy = useSelector(selectIsSaveSlotBusy);
+  const error = useSelector(selectSaveSlotError);
+  const storyTitle = useSelector((state: RootState) => state.story.title);
+  const [newSlotName, setNewSlotName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    dispatch(fetchSaveSlots());
+    return () => {
+      dispatch(clearSaveSlotError());
+    };
+  }, [dispatch]);
+
+  const handleClose = () => {
+    dispatch(hideModal());
+  };
+
+  const handleSaveNew = async () => {
+    await dispatch(saveToSlot({ name: newSlotName }));
+    setNewSlotName('');
+  };
+
+  const handleLoad = async (slot: SaveSlotSummary) => {
+    const result = await dispatch(loadSaveSlot(slot.id));
+    if (loadSaveSlot.fulfilled.match(result)) {
+      dispatch(hideModal());
+    }
+  };
+
+  const handleBranch = (slot: SaveSlotSummary) => {
+    const name = window.prompt('Name for the branched save:', `${slot.name} (branch)`);
+    if (name !== null) {
+      dispatch(branchSaveSlot({ slotId: slot.id, name }));
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input so choosing the same file again still fires a change event.
+    e.target.value = '';
+    if (!file) return;
+    if (!window.confirm('Importing replaces your current progress. Continue?')) return;
+
+    const result = await dispatch(importSaveBundle(file));
+    if (importSaveBundle.fulfilled.match(result)) {
+      dispatch(hideModal());
+    }
+  };
+
+  const handleDelete = (slot: SaveSlotSummary) => {
+    if (window.confirm(`Delete "${slot.name}"? This cannot be undone.`)) {
+      dispatch(deleteSaveSlot(slot.id));
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-brand-surface rounded-xl shadow-2xl w-full max-w-lg border-2 border-brand-border overflow-hidden flex flex-col h-[80%]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b-2 border-brand-border flex justify-between items-center flex-shrink-0">
+          <h2 className="text-2xl font-oswald text-white uppercase tracking-wider">Case Saves</h2>
+          <button
+            className="p-2 rounded-full text-white/50 hover:bg-brand-primary hover:text-white transition-colors"
+            onClick={handleClose}
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </header>
+
+        <div className="p-4 border-b-2 border-brand-border flex gap-2 flex-shrink-0">
+          <input
+            type="text"
+            value={newSlotName}
+            onChange={(e) => setNewSlotName(e.target.value)}
+            placeholder={`${storyTitle} — new save`}
+            className="flex-1 bg-brand-bg border border-brand-border rounded-md px-3 py-2 text-sm text-white placeholder:text-brand-text-muted focus:outline-none focus:border-brand-primary"
+          />
+          <Button onClick={handleSaveNew} disabled={isBusy} className="text-xs flex items-center gap-2">
+            <Save size={14} />
+            Save
+          </Button>
+        </div>
+
+        {error && (
+          <p className="mx-4 mt-4 p-2 text-sm text-yellow-400 bg-brand-bg border-l-4 border-yellow-500 rounded">{error}</p>
+        )}
+
+        <main className="p-4 flex-1 overflow-y-auto">
+          {slots.length > 0 ? (
+            <div className="space-y-3">
+              {slots.map(slot => (
+                <SaveSlotRow
+                  key={slot.id}
+                  slot={slot}
+                  thumbnailUrl={thumbnails[slot.id]}
+                  isActive={slot.id === activeSlotId}
+                  isBusy={isBusy}
+                  onLoad={() => handleLoad(slot)}
+                  onOverwrite={() => dispatch(saveToSlot({ slotId: slot.id, name: slot.name }))}
+                  onBranch={() => handleBranch(slot)}
+                  onDelete={() => handleDelete(slot)}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-full text-center">
+              <p className="text-brand-text-muted">No saves yet. Your progress is still autosaved.</p>
+            </div>
+          )}
+        </main>
+
+        <footer className="p-4 border-t-2 border-brand-border flex gap-2 flex-shrink-0">
+          <Button variant="secondary" onClick={() => dispatch(exportSaveBundle())} disabled={isBusy} className="flex-1 text-xs flex items-center justify-center gap-2">
+            <FileDown size={14} />
+            Export Bundle
+          </Button>
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={isBusy} className="flex-1 text-xs flex items-center justify-center gap-2">
+            <FileUp size={14} />
+            Import Bundle
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default SaveSlotsModal;
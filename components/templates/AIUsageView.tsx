@@ -0,0 +1,171 @@
+/**
+ * @file AIUsageView.tsx
+ * @description A modal dashboard of local AI usage: the session's and today's totals, what is left
+ * of the daily budget, per-endpoint and per-day breakdowns, and the image prompts that cost the most.
+ */
+
+import React from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState, AppDispatch } from '../../store';
+import { selectAIUsageDashboard, selectMostRegeneratedImages } from '../../store/aiUsageSlice';
+import { toDayKey, AIUsageTotals } from '../../services/aiUsageService';
+import Button from '../atoms/Button';
+import { hideModal, showModal } from '../../store/uiSlice';
+import { X } from 'lucide-react';
+import { AI_USAGE_CONFIG } from '../../config';
+
+/** Shortens large character counts, e.g. 12345 to "12.3k". */
+const formatChars = (chars: number) => chars >= 1000 ? `${(chars / 1000).toFixed(1)}k` : String(chars);
+
+const TOTAL_ROWS: Array<{ label: string; format: (totals: AIUsageTotals) => string }> = [
+  { label: 'Requests', format: t => String(t.requests) },
+  { label: 'Sent (incl. retries)', format: t => String(t.attempts) },
+  { label: 'Retries', format: t => String(t.retries) },
+  { label: 'Failures', format: t => String(t.failures) },
+  { label: 'Prompt chars', format: t => formatChars(t.promptChars) },
+  { label: 'Response chars', format: t => formatChars(t.responseChars) },
+  { label: 'Avg latency', format: t => `${(t.averageLatencyMs / 1000).toFixed(1)}s` },
+];
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-sm font-oswald text-yellow-400 uppercase tracking-wider mb-2">{children}</h3>
+);
+
+const AIUsageModal: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const dashboard = useSelector((state: RootState) => selectAIUsageDashboard(state, toDayKey(Date.now())));
+  const topImages = useSelector(selectMostRegeneratedImages);
+
+  const handleClose = () => {
+    dispatch(hideModal());
+  };
+
+  const limit = AI_USAGE_CONFIG.DAILY_REQUEST_LIMIT;
+  const usedShare = Math.min(1, dashboard.today.attempts / limit);
+  // Warn once less than a tenth of the day's budget is left.
+  const budgetColor = dashboard.remainingToday <= limit * 0.1 ? 'bg-brand-primary' : 'bg-yellow-400';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-brand-surface rounded-xl shadow-2xl w-full max-w-lg border-2 border-brand-border overflow-hidden flex flex-col h-[80%]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b-2 border-brand-border flex justify-between items-center flex-shrink-0">
+          <h2 className="text-2xl font-oswald text-yellow-400 uppercase tracking-wider">AI Usage</h2>
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" onClick={() => dispatch(showModal({ type: 'errorLog' }))} className="text-xs">
+              System Log
+            </Button>
+            <button
+              className="p-2 rounded-full text-white/50 hover:bg-brand-primary hover:text-white transition-colors"
+              onClick={handleClose}
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </header>
+        <main className="p-4 flex-1 overflow-y-auto space-y-6 font-mono text-sm">
+          <section>
+            <SectionTitle>Daily Budget</SectionTitle>
+            <div className="h-3 rounded-full bg-brand-bg overflow-hidden">
+              <div className={`h-full ${budgetColor}`} style={{ width: `${usedShare * 100}%` }} />
+            </div>
+            <p className="mt-2 text-white">
+              {dashboard.today.attempts} of {limit} requests sent today ·{' '}
+              {dashboard.remainingToday >= 0
+                ? `${dashboard.remainingToday} left`
+                : <span className="text-brand-primary">{-dashboard.remainingToday} over budget</span>}
+            </p>
+          </section>
+
+          <section>
+            <SectionTitle>Totals</SectionTitle>
+            <table className="w-full text-left">
+              <thead className="text-brand-text-muted text-xs">
+                <tr><th className="font-normal"></th><th className="font-normal text-right">Session</th><th className="font-normal text-right">Today</th></tr>
+              </thead>
+              <tbody className="text-white">
+                {TOTAL_ROWS.map(({ label, format }) => (
+                  <tr key={label}>
+                    <td className="text-brand-text-muted">{label}</td>
+                    <td className="text-right">{format(dashboard.session)}</td>
+                    <td className="text-right">{format(dashboard.today)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section>
+            <SectionTitle>Today by Endpoint</SectionTitle>
+            {dashboard.todayByEndpoint.length > 0 ? (
+              <div className="space-y-2">
+                {dashboard.todayByEndpoint.map(({ endpoint, models, promptTemplates, totals }) => (
+                  <div key={endpoint} className="bg-brand-bg p-3 rounded-lg border-l-4 border-yellow-500">
+                    <p className="text-yellow-400 font-semibold">{endpoint}</p>
+                    <p className="text-xs text-brand-text-muted">{models.join(', ')}</p>
+                    {promptTemplates.length > 0 && (
+                      <p className="text-xs text-brand-text-muted">Templates: {promptTemplates.join(', ')}</p>
+                    )}
+                    <p className="text-white mt-1">
+                      {totals.attempts} sent · {totals.retries} retries · {totals.failures} failed · avg {(totals.averageLatencyMs / 1000).toFixed(1)}s
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-brand-text-muted">No AI requests have been sent today.</p>
+            )}
+          </section>
+
+          <section>
+            <SectionTitle>Most Regenerated Images</SectionTitle>
+            {topImages.length > 0 ? (
+              <div className="space-y-2">
+                {topImages.map(image => (
+                  <div key={image.prompt} className="bg-brand-bg p-3 rounded-lg border-l-4 border-brand-primary">
+                    <p className="text-white font-semibold">{image.cardName ?? 'Unknown card'}</p>
+                    <p className="text-xs text-brand-text-muted truncate" title={image.prompt}>{image.prompt}</p>
+                    <p className="text-white mt-1">{image.attempts} sent for {image.requests} requests · {image.failures} failed</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-brand-text-muted">No images have been generated in the last {AI_USAGE_CONFIG.RETENTION_DAYS} days.</p>
+            )}
+          </section>
+
+          <section>
+            <SectionTitle>By Day</SectionTitle>
+            {dashboard.byDay.length > 0 ? (
+              <table className="w-full text-left">
+                <thead className="text-brand-text-muted text-xs">
+                  <tr><th className="font-normal">Day</th><th className="font-normal text-right">Requests</th><th className="font-normal text-right">Sent</th><th className="font-normal text-right">Failed</th></tr>
+                </thead>
+                <tbody className="text-white">
+                  {dashboard.byDay.map(({ day, totals }) => (
+                    <tr key={day}>
+                      <td>{day}</td>
+                      <td className="text-right">{totals.requests}</td>
+                      <td className="text-right">{totals.attempts}</td>
+                      <td className="text-right">{totals.failures}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-brand-text-muted">The usage log is empty.</p>
+            )}
+          </section>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default AIUsageModal;
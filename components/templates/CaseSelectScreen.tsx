@@ -0,0 +1,53 @@
+/**
+ * @file CaseSelectScreen.tsx
+ * @description The start screen: lists every case in the story registry and opens the one the player picks.
+ * Picking a case only dispatches `caseSelected`; `App.tsx` then loads that case's images and autosave.
+ */
+
+import React from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../../store';
+import { STORY_REGISTRY } from '../../data/storyRegistry';
+import { caseSelected } from '../../store/caseSelectionSlice';
+import { StoryPackage } from '../../types';
+import { Briefcase } from 'lucide-react';
+
+// --- Extracted Sub-component: CaseListing ---
+const CaseListing: React.FC<{ storyPackage: StoryPackage; onSelect: (storyId: string) => void }> = React.memo(({ storyPackage, onSelect }) => (
+  <button
+    onClick={() => onSelect(storyPackage.id)}
+    className="w-full text-left bg-brand-surface rounded-lg p-4 shadow-lg border-b-4 border-transparent hover:border-brand-primary transition-all duration-300 animate-fade-in"
+    aria-label={`Open the case ${storyPackage.title}`}
+  >
+    <h2 className="text-2xl font-oswald text-white uppercase tracking-wide">{storyPackage.title}</h2>
+    <p className="text-sm text-brand-text-muted mt-2">{storyPackage.tagline}</p>
+  </button>
+));
+
+const CaseSelectScreen: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+
+  const handleSelect = React.useCallback((storyId: string) => {
+    dispatch(caseSelected(storyId));
+  }, [dispatch]);
+
+  return (
+    <div className="h-full overflow-y-auto p-4 pb-16">
+      <header className="flex items-center gap-3 mb-6 border-b border-brand-primary/30 pb-3">
+        <Briefcase size={28} className="text-brand-primary" />
+        <h1 className="text-3xl font-oswald text-brand-primary uppercase tracking-wider">Open Cases</h1>
+      </header>
+      <div className="grid grid-cols-1 gap-4">
+        {STORY_REGISTRY.map(storyPackage => (
+          <CaseListing
+            key={storyPackage.id}
+            storyPackage={storyPackage}
+            onSelect={handleSelect}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CaseSelectScreen;
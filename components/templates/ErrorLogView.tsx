@@ -8,9 +8,11 @@ import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
 import { selectAllErrors, clearErrorLog } from '../../store/errorLogSlice';
 import Button from '../atoms/Button';
-import { hideModal } from '../../store/uiSlice';
-import { X } from 'lucide-react';
+import { hideModal, showModal } from '../../store/uiSlice';
+import { X, Download, BarChart3, FileCode } from 'lucide-react';
 import { ErrorLogEntry } from '../../types';
+import { isRecordingFixtures, downloadRecordedFixtures } from '../../services/aiService';
+import { AUTHORING_CONFIG } from '../../config';
 
 const ErrorLogModal: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
@@ -36,6 +38,19 @@ const ErrorLogModal: React.FC = () => {
         <header className="p-4 border-b-2 border-brand-border flex justify-between items-center flex-shrink-0">
           <h2 className="text-2xl font-oswald text-yellow-400 uppercase tracking-wider">System Log</h2>
           <div className="flex items-center gap-2">
+            {isRecordingFixtures && (
+              <Button variant="secondary" onClick={downloadRecordedFixtures} className="text-xs flex items-center gap-1">
+                <Download size={14} /> AI Fixtures
+              </Button>
+            )}
+            <Button variant="secondary" onClick={() => dispatch(showModal({ type: 'aiUsage' }))} className="text-xs flex items-center gap-1">
+              <BarChart3 size={14} /> AI Usage
+            </Button>
+            {AUTHORING_CONFIG.ENABLED && (
+              <Button variant="secondary" onClick={() => dispatch(showModal({ type: 'promptPreview' }))} className="text-xs flex items-center gap-1">
+                <FileCode size={14} /> Prompts
+              </Button>
+            )}
             <Button variant="secondary" onClick={handleClear} className="text-xs">
               Clear Log
             </Button>
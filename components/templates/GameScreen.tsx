@@ -6,8 +6,8 @@
  */
 
 import React, { useMemo, useEffect } from 'react';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../store';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../store';
 import PeopleList from './PeopleList';
 import LocationsList from './LocationsList';
 import TimelineView from './TimelineView';
@@ -21,7 +21,8 @@ import CollectionCard from '../organisms/CollectionCard';
 import DialogueCard from '../organisms/DialogueCard';
 import { useADA } from '../../hooks/useADA';
 import { PlayerAction, ViewType, CardType } from '../../types';
-import { selectCharacterById, selectLocationById, selectObjectById, selectEvidenceGroupById, setHasDiscoveredPaint } from '../../store/storySlice';
+import { selectCharacterById, selectLocationById, selectObjectById, selectEvidenceGroupById } from '../../store/storySlice';
+import { isContentUnlocked } from '../../store/narrativeSlice';
 
 const VIEW_COMPONENTS: { [key in Exclude<ViewType, 'card'>]: React.FC } = {
   people: PeopleList,
@@ -31,8 +32,6 @@ const VIEW_COMPONENTS: { [key in Exclude<ViewType, 'card'>]: React.FC } = {
 
 const GameScreen: React.FC = () => {
   const { activeView, activeCardId, activeCardType, activeCollectionType, activeCollectionTitle } = useSelector((state: RootState) => state.ui);
-  const hasDiscoveredPaint = useSelector((state: RootState) => state.story.hasDiscoveredPaint);
-  const dispatch = useDispatch<AppDispatch>();
   const triggerADA = useADA();
 
   const activeCardData = useSelector((state: RootState) => {
@@ -68,26 +67,27 @@ const GameScreen: React.FC = () => {
     return data ? { type: activeCardType, data } : null;
   }, [activeCardData, activeCardType]);
 
-  useEffect(() => {
-    if (activeCardInfo && activeCardInfo.type !== 'socialMediaFeed') {
-      let isFirstPaintDiscovery = false;
-      // --- Immediate State Change for Critical Discoveries ---
-      // This is the ideal place to handle state changes that should not be debounced.
-      // By dispatching here, we ensure the state is updated instantly when the player views the card,
-      // and before the debounced ADA analysis is triggered. This fixes a potential race condition.
-      if (activeCardInfo.type === 'object' && activeCardInfo.data.name === 'Fluorescent Paint' && !hasDiscoveredPaint) {
-        dispatch(setHasDiscoveredPaint(true));
-        isFirstPaintDiscovery = true;
-      }
+  // A locked location only shows its teaser, so ADA must not describe the scene behind it.
+  const activeLockTeaser = useSelector((state: RootState) =>
+    activeCardType === 'location' && activeCardData && 'lock' in activeCardData && !isContentUnlocked(activeCardData.lock, state)
+      ? activeCardData.lock?.teaser
+      : undefined
+  );
 
+  useEffect(() => {
+    // Scripted reactions to a card (story flags, ADA directives) are fired by the narrative trigger
+    // engine when the card opens, so they are already in place when this debounced analysis runs.
+    if (activeCardInfo && activeLockTeaser !== undefined) {
+      triggerADA(PlayerAction.VIEW_CARD, `Player is at ${activeCardInfo.data.name}, which is still locked. All they know is: "${activeLockTeaser}"`, undefined, activeCardInfo.data.id);
+    } else if (activeCardInfo && activeCardInfo.type !== 'socialMediaFeed') {
       triggerADA(
         PlayerAction.VIEW_CARD,
         `Player is viewing the card for ${activeCardInfo.data.name}.`,
         activeCardInfo.data.imagePrompt,
-        { isFirstPaintDiscovery }
+        activeCardInfo.data.id
       );
     }
-  }, [activeCardInfo, triggerADA, dispatch, hasDiscoveredPaint]);
+  }, [activeCardInfo, activeLockTeaser, triggerADA]);
 
   const renderContent = () => {
     if (activeView === 'card' && activeCardInfo) {
@@ -98,7 +98,8 @@ const GameScreen: React.FC = () => {
             case 'evidenceGroup': return <EvidenceGroupCard evidenceGroup={activeCardInfo.data} />;
             case 'socialMediaFeed': return <SocialMediaFeedCard character={activeCardInfo.data} />;
             case 'mugshot': return <MugshotCard character={activeCardInfo.data} />;
-            case 'dialogue': return <DialogueCard character={activeCardInfo.data} />;
+            // Keyed by character, so switching conversations starts from that character's own session.
+            case 'dialogue': return <DialogueCard key={activeCardInfo.data.id} character={activeCardInfo.data} />;
             case 'collection': 
                 if (activeCollectionType && activeCollectionTitle) {
                     return <CollectionCard character={activeCardInfo.data} collectionType={activeCollectionType} title={activeCollectionTitle} />;
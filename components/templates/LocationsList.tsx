@@ -7,15 +7,16 @@
  */
 
 import React from 'react';
-import { useSelector, useDispatch } from 'react-redux';
+import { useSelector, useDispatch, shallowEqual } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
 import { selectAllLocations, selectVisitedLocations, selectStoryInfo } from '../../store/storySlice';
 import { setActiveCard, setLocationsView } from '../../store/uiSlice';
+import { isContentUnlocked } from '../../store/narrativeSlice';
 import { Location, PlayerAction } from '../../types';
 import ImageWithLoader from '../molecules/ImageWithLoader';
 import { useADA } from '../../hooks/useADA';
 import { useCardImage } from '../../hooks/useCardImage';
-import { Map, List } from 'lucide-react';
+import { Map, List, Lock } from 'lucide-react';
 
 // --- Extracted Sub-component: CityMap ---
 const CityMap: React.FC = React.memo(() => {
@@ -45,6 +46,11 @@ const CityMap: React.FC = React.memo(() => {
     // we ensure that the list of hotspots passed to the render function has a stable
     // reference, preventing unnecessary re-renders and potential race conditions.
     const mappableLocations = React.useMemo(() => allLocations.filter(loc => !loc.isInternal), [allLocations]);
+    // Locked pins stay tappable; the location card itself shows the teaser.
+    const lockedLocationIds = useSelector(
+        (state: RootState) => mappableLocations.filter(loc => !isContentUnlocked(loc.lock, state)).map(loc => loc.id),
+        shallowEqual
+    );
 
     return (
         <div className="relative h-full w-full rounded-lg overflow-hidden border border-brand-border bg-brand-bg">
@@ -57,7 +63,9 @@ const CityMap: React.FC = React.memo(() => {
                 style={{ top: loc.mapCoords.top, left: loc.mapCoords.left }}
                 aria-label={`Go to ${loc.name}`}
               >
-                <span className="bg-brand-primary w-4 h-4 rounded-full border-2 border-white animate-pulse"></span>
+                {lockedLocationIds.includes(loc.id)
+                  ? <Lock size={16} className="text-white bg-black/80 rounded-full p-0.5" />
+                  : <span className="bg-brand-primary w-4 h-4 rounded-full border-2 border-white animate-pulse"></span>}
                 <span className="text-white text-sm font-bold bg-black/80 px-2 py-0.5 rounded-sm mt-2 whitespace-nowrap group-hover:text-brand-primary transition-colors drop-shadow-lg uppercase font-oswald tracking-wide">{loc.name}</span>
               </button>
             ))}
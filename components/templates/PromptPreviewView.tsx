@@ -0,0 +1,134 @@
+/**
+ * @file PromptPreviewView.tsx
+ * @description A development modal that previews every AI prompt template as it would be rendered
+ * right now: the template in effect (default or case override), its version, and the full prompt
+ * built from the current game state.
+ *
+ * @architectural_note
+ * Nothing here is sent to the AI. The variables are gathered the way the calling code gathers them
+ * (the card ADA last analysed, the location in view, the character being questioned, the evidence
+ * collected so far), so the preview is what the next request of each kind would send.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState, AppDispatch } from '../../store';
+import { selectAllCharacters, selectAllLocations, selectCanonicalTimeline, selectStoryInfo, selectStoryPackage, selectSuspects } from '../../store/storySlice';
+import { hideModal, showModal } from '../../store/uiSlice';
+import { PROMPT_TEMPLATE_IDS, PromptTemplateId, PromptVariables, getPromptTemplate, renderPrompt } from '../../services/ai/promptRegistry';
+import { findComponentProps } from '../../data/dataComponents';
+import { PlayerAction } from '../../types';
+import Button from '../atoms/Button';
+import { X } from 'lucide-react';
+
+/** Renders one template; generic so the ID and its variables stay paired. */
+const renderPreview = <K extends PromptTemplateId>(id: K, variables: PromptVariables) => renderPrompt(id, variables[id]);
+
+const PromptPreviewModal: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const storyPackage = useSelector(selectStoryPackage);
+  const storyInfo = useSelector(selectStoryInfo);
+  const characters = useSelector(selectAllCharacters);
+  const locations = useSelector(selectAllLocations);
+  const suspects = useSelector(selectSuspects);
+  const canonicalTimeline = useSelector(selectCanonicalTimeline);
+  const evidence = useSelector((state: RootState) => state.story.evidence);
+  const activeCardId = useSelector((state: RootState) => state.ui.activeCardId);
+  const lastADARequest = useSelector((state: RootState) => state.ada.cardAnalysis?.request ?? null);
+
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(PROMPT_TEMPLATE_IDS[0]);
+
+  const handleClose = () => {
+    dispatch(hideModal());
+  };
+
+  const variables = useMemo((): PromptVariables => {
+    // The card in view if it is a location, otherwise the crime scene.
+    const location = locations.find(loc => loc.id === activeCardId) ?? locations.find(loc => loc.id === storyInfo.crimeSceneId);
+    // The card in view if it is a character who can be questioned, otherwise the first who can.
+    const speakers = characters.filter(character => findComponentProps(character.components, 'dialogue'));
+    const speaker = speakers.find(character => character.id === activeCardId) ?? speakers[0];
+    const dialogue = speaker ? findComponentProps(speaker.components, 'dialogue') : undefined;
+    const suspect = suspects.find(character => character.id === activeCardId) ?? suspects[0];
+
+    return {
+      'ada.analysis': lastADARequest ?? {
+        storyTitle: storyPackage.title,
+        action: PlayerAction.VIEW_LIST,
+        contextDetails: 'Player is viewing the city map.',
+        directives: [],
+      },
+      'image.style': {
+        prompt: location?.imagePrompt ?? storyInfo.mapImagePrompt,
+        colorTreatment: location ? 'selectiveColor' : 'map',
+      },
+      'hotspot.analysis': {
+        // The same hotspots useHotspotAnalysis asks about: unplaced ones with a hint.
+        items: (location?.hotspots ?? [])
+          .filter(h => !h.coords && h.aiHint)
+          .map(h => ({ id: h.id, label: h.label, hint: h.aiHint })),
+      },
+      'timeline.summary': { evidence, suspectName: suspect?.name ?? 'Unknown suspect' },
+      'timeline.evaluation': {
+        submission: { suspectId: suspect?.id ?? '', evidenceIds: evidence.map(e => e.cardId) },
+        groundTruth: canonicalTimeline ?? { culpritId: '', keyEvents: [] },
+      },
+      'character.persona': {
+        persona: dialogue?.persona ?? '',
+        mode: dialogue?.mode ?? 'interview',
+      },
+      'interrogation.repair': { problem: 'The reply was not valid JSON.' },
+    };
+  }, [storyPackage, storyInfo, characters, locations, suspects, canonicalTimeline, evidence, activeCardId, lastADARequest]);
+
+  const { template, overriddenBy } = getPromptTemplate(selectedId);
+  const rendered = renderPreview(selectedId, variables);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-brand-surface rounded-xl shadow-2xl w-full max-w-2xl border-2 border-brand-border overflow-hidden flex flex-col h-[80%]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b-2 border-brand-border flex justify-between items-center flex-shrink-0">
+          <h2 className="text-2xl font-oswald text-yellow-400 uppercase tracking-wider">Prompt Preview</h2>
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" onClick={() => dispatch(showModal({ type: 'errorLog' }))} className="text-xs">
+              System Log
+            </Button>
+            <button
+              className="p-2 rounded-full text-white/50 hover:bg-brand-primary hover:text-white transition-colors"
+              onClick={handleClose}
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </header>
+        <main className="p-4 flex-1 overflow-y-auto space-y-4 font-mono text-sm">
+          <select
+            value={selectedId}
+            onChange={(e) => setSelectedId(e.target.value as PromptTemplateId)}
+            className="w-full bg-brand-bg text-white border border-brand-border rounded-md p-2"
+            aria-label="Prompt template"
+          >
+            {PROMPT_TEMPLATE_IDS.map(id => <option key={id} value={id}>{id}</option>)}
+          </select>
+          <div className="bg-brand-bg p-3 rounded-lg border-l-4 border-yellow-500">
+            <p className="text-yellow-400 font-semibold">{rendered.ref}</p>
+            <p className="text-xs text-brand-text-muted">
+              Version {template.version} · {overriddenBy ? `overridden by ${overriddenBy}` : 'default template'} · {rendered.text.length} chars
+            </p>
+            <p className="text-white mt-1">{template.description}</p>
+          </div>
+          <pre className="text-xs text-white whitespace-pre-wrap bg-black/30 p-3 rounded-md">{rendered.text}</pre>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default PromptPreviewModal;
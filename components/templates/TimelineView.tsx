@@ -10,6 +10,7 @@ import {
   setViewMode,
   setActiveTab,
   placeClueInSlot,
+  removeClueFromSlot,
   clearLastIncorrectSlot,
   selectActiveAnchor,
   selectUnplacedClues,
@@ -92,8 +93,15 @@ const EvidenceSlotComponent: React.FC<{ slotId: string; isPrimary: boolean; isEn
         </div>
       )}
       {placedClue && (
-        <div className="w-full h-full bg-brand-surface p-3 rounded-md flex items-center animate-fragment-lock">
-          <p className="text-sm text-white">{placedClue.text}</p>
+        <div className="w-full h-full bg-brand-surface p-3 rounded-md flex items-center gap-2 animate-fragment-lock">
+          <p className="text-sm text-white flex-1">{placedClue.text}</p>
+          <button
+            onClick={() => dispatch(removeClueFromSlot(slotId))}
+            className="p-1 rounded-full text-white/50 hover:bg-brand-primary hover:text-white transition-colors flex-shrink-0"
+            aria-label="Return clue to the evidence pool"
+          >
+            <X size={14} />
+          </button>
         </div>
       )}
     </div>
@@ -144,12 +152,17 @@ const TimelineView: React.FC = () => {
             <h3 className="font-oswald text-lg text-brand-accent mb-2">Primary Event</h3>
             <EvidenceSlotComponent slotId={activeAnchor.primarySlot.slotId} isPrimary={true} isEnabled={true} />
             
-            <h3 className="font-oswald text-lg text-brand-accent mt-4 mb-2">Supporting Evidence</h3>
-            <div className="space-y-2">
-              {activeAnchor.supportingSlots.map(slot => (
-                <EvidenceSlotComponent key={slot.slotId} slotId={slot.slotId} isPrimary={false} isEnabled={isPrimarySlotFilled} />
-              ))}
-            </div>
+            {/* Anchors only get supporting slots for the supporting clues the story declares. */}
+            {activeAnchor.supportingSlots.length > 0 && (
+              <>
+                <h3 className="font-oswald text-lg text-brand-accent mt-4 mb-2">Supporting Evidence</h3>
+                <div className="space-y-2">
+                  {activeAnchor.supportingSlots.map(slot => (
+                    <EvidenceSlotComponent key={slot.slotId} slotId={slot.slotId} isPrimary={false} isEnabled={isPrimarySlotFilled} />
+                  ))}
+                </div>
+              </>
+            )}
           </div>
         </main>
       )}
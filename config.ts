@@ -71,6 +71,105 @@ export const ADA_CONFIG = {
     /** The maximum number of messages to keep in ADA's log. This is a performance
      * and memory optimization to prevent the array from growing indefinitely. */
     MAX_MESSAGES: 20,
+    /** How many card analyses the IndexedDB analysis cache keeps before the oldest are evicted. */
+    ANALYSIS_CACHE_MAX_ENTRIES: 500,
+};
+
+/**
+ * Configuration for save-game persistence.
+ */
+export const PERSISTENCE_CONFIG = {
+    /** How long in milliseconds the game waits after the last state change before writing the autosave.
+     * Bursts of actions (e.g., filing a piece of evidence) collapse into a single IndexedDB write. */
+    AUTOSAVE_DEBOUNCE_DELAY: 1000,
+};
+
+/**
+ * Configuration for the undo/redo history of investigative actions.
+ */
+export const HISTORY_CONFIG = {
+    /** The maximum number of undoable steps kept. Older steps are dropped first. */
+    MAX_ENTRIES: 50,
+    /** Actions on the same card within this many milliseconds merge into one step, so that
+     * filing evidence (timeline + suspect assignment) undoes as a single unit. */
+    COALESCE_WINDOW: 500,
+};
+
+/**
+ * Configuration for the IndexedDB image cache.
+ */
+export const IMAGE_CACHE_CONFIG = {
+    /** The most the image cache may occupy, in bytes. Least recently viewed images are evicted first. */
+    MAX_BYTES: 75 * 1024 * 1024,
+    /** The largest share of the browser's storage quota the cache may use, whichever limit is lower.
+     * Leaves room for saves and for other sites on devices with little free space. */
+    MAX_QUOTA_FRACTION: 0.5,
+};
+
+/**
+ * Configuration for the AI provider behind ADA, interrogations, image generation and hotspot vision.
+ * Set in `.env`; see the README for the variables.
+ */
+export const AI_CONFIG = {
+    /** `gemini`, `openai` (any OpenAI-compatible endpoint, e.g. a local llama.cpp server) or `offline`.
+     * Left unset, Gemini is used when an API key is present and the offline provider otherwise. */
+    PROVIDER: import.meta.env.VITE_AI_PROVIDER || (import.meta.env.VITE_API_KEY ? 'gemini' : 'offline'),
+    /** The Gemini API key. */
+    GEMINI_API_KEY: import.meta.env.VITE_API_KEY || '',
+    /** The base URL of the OpenAI-compatible API, up to and including its version segment. */
+    OPENAI_BASE_URL: import.meta.env.VITE_AI_BASE_URL || 'http://localhost:8080/v1',
+    /** The chat model to request. Single-model servers such as llama.cpp ignore it. */
+    OPENAI_MODEL: import.meta.env.VITE_AI_MODEL || 'local-model',
+    /** Sent as a bearer token when set; local servers usually don't need one. */
+    OPENAI_API_KEY: import.meta.env.VITE_AI_API_KEY || '',
+    /** The image model to request. Left unset, no images are generated, as most local servers can't. */
+    OPENAI_IMAGE_MODEL: import.meta.env.VITE_AI_IMAGE_MODEL || '',
+    /** `record` captures every AI call for download from the System Log; `replay` answers only from
+     * the fixture file at `FIXTURE_URL`, so a recorded session (or bug report) plays back exactly. */
+    FIXTURE_MODE: import.meta.env.VITE_AI_FIXTURE_MODE || 'off',
+    /** Where replay mode loads its fixtures from. Any URL the app can fetch. */
+    FIXTURE_URL: import.meta.env.VITE_AI_FIXTURE_URL || '/ai-fixtures.json',
+    /** How many times a character is asked to resend a reply that breaks the interrogation protocol. */
+    INTERROGATION_REPAIR_ATTEMPTS: 2,
+    /** How hard each kind of request is retried after a quota or transient error. A wait longer than
+     * `maxDelayMs` (the server's own retry delay included) fails the request instead. */
+    RETRY_BUDGETS: {
+        // ADA is shown as the player plays; a late comment is worse than none.
+        getADAResponse: { maxAttempts: 2, baseDelayMs: 1000, maxDelayMs: 10000 },
+        interviewMessage: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 15000 },
+        // Card art is generated in the background, so it can afford to wait out a rate limit.
+        generateImage: { maxAttempts: 3, baseDelayMs: 2000, maxDelayMs: 300000 },
+        analyzeImageForHotspots: { maxAttempts: 2, baseDelayMs: 2000, maxDelayMs: 30000 },
+        summarizePlayerTimeline: { maxAttempts: 3, baseDelayMs: 2000, maxDelayMs: 30000 },
+        evaluateTimeline: { maxAttempts: 3, baseDelayMs: 2000, maxDelayMs: 30000 },
+    },
+    /** How many quota errors in a row pause every AI request. */
+    CIRCUIT_BREAKER_THRESHOLD: 3,
+    /** How long AI requests stay paused, unless the server asks for a longer wait. */
+    CIRCUIT_BREAKER_COOLDOWN_MS: 60000,
+};
+
+/**
+ * Configuration for the AI usage dashboard, which is opened from the System Log.
+ */
+export const AI_USAGE_CONFIG = {
+    /** The AI requests (counting every retry) the day's budget allows. Set it to the API plan's
+     * daily quota; the dashboard only warns, it never blocks requests. */
+    DAILY_REQUEST_LIMIT: Number(import.meta.env.VITE_AI_DAILY_REQUEST_LIMIT) || 100,
+    /** How many days of usage records are kept for the per-day totals. */
+    RETENTION_DAYS: 7,
+    /** How many of the most regenerated image prompts the dashboard lists. */
+    TOP_IMAGE_PROMPTS: 5,
+};
+
+/**
+ * Configuration for the in-app authoring mode writers use to place hotspots and edit story text.
+ */
+export const AUTHORING_CONFIG = {
+    /** Authoring is a development tool; production builds never offer it. */
+    ENABLED: import.meta.env.DEV,
+    /** Where a newly added move link is placed, before the writer drags it into position. */
+    NEW_HOTSPOT_COORDS: { top: '50%', left: '50%' },
 };
 
 /**
@@ -0,0 +1,127 @@
+/**
+ * @file data/dataComponents.ts
+ * @description Runtime validators for `DataComponent` props, plus typed lookup of a component on a
+ * character or object.
+ *
+ * @architectural_note One Validator Per Type
+ * `DATA_COMPONENT_PROPS_SCHEMAS` is keyed by `DataComponentPropsMap`, so adding a component type to
+ * `types.ts` without a validator here is a type error. `story.ts` runs these on every component when
+ * the story loads (in production too) and drops any whose props don't match, so a card never renders
+ * a component it would crash on. `schemas.ts` builds its compile-time component schema from the same
+ * validators.
+ */
+
+import { z } from 'zod';
+import { DataComponent, DataComponentOfType, DataComponentPropsMap, DataComponentType } from '../types';
+
+const CollectionPropsSchema = z.looseObject({});
+
+/** Validates a narrative condition. Lives here because lines of inquiry, inside dialogue props, can be locked by them. */
+export const NarrativeConditionSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('flag'), flag: z.string().min(1), value: z.boolean().optional() }),
+  z.object({ kind: z.literal('objectCollected'), objectId: z.string() }),
+  z.object({ kind: z.literal('objectAnalyzed'), objectId: z.string() }),
+  z.object({ kind: z.literal('interactionSolved'), objectId: z.string() }),
+  z.object({ kind: z.literal('clueUnlocked'), clueId: z.string() }),
+  z.object({ kind: z.literal('cluePlaced'), clueId: z.string() }),
+  z.object({ kind: z.literal('lineOfInquiryCompleted'), characterId: z.string(), loiId: z.string() }),
+  z.object({ kind: z.literal('triggerFired'), triggerId: z.string() }),
+]);
+
+export const ContentLockSchema = z.object({
+  requires: z.array(NarrativeConditionSchema).min(1),
+  teaser: z.string().min(1),
+});
+
+const LineOfInquirySchema = z.looseObject({
+  id: z.string().min(1),
+  label: z.string(),
+  initialQuestions: z.array(z.string()),
+  lock: ContentLockSchema.optional(),
+});
+
+/** The props validator for every component type. */
+export const DATA_COMPONENT_PROPS_SCHEMAS: { [K in DataComponentType]: z.ZodType<DataComponentPropsMap[K]> } = {
+  socialMedia: CollectionPropsSchema,
+  phoneLog: CollectionPropsSchema,
+  cctv: CollectionPropsSchema,
+  records: CollectionPropsSchema,
+  file: CollectionPropsSchema,
+  purchaseInfo: z.looseObject({
+    brand: z.string().optional(),
+    model: z.string().optional(),
+    sku: z.string().optional(),
+    manufacturer: z.string().optional(),
+    receipts: z.array(z.looseObject({ vendor: z.string(), date: z.string(), price: z.number(), imageUrl: z.string() })).optional(),
+  }),
+  interaction: z.looseObject({
+    type: z.enum(['phone_unlock', 'safe_crack', 'computer_login']),
+    prompt: z.string(),
+    solution: z.string(),
+  }),
+  documentContent: z.looseObject({
+    title: z.string(),
+    sender: z.string().optional(),
+    recipient: z.string().optional(),
+    date: z.string().optional(),
+    subject: z.string().optional(),
+    body: z.string(),
+  }),
+  dialogue: z.looseObject({
+    mode: z.enum(['interview', 'interrogation']),
+    buttonText: z.string(),
+    persona: z.string().min(1),
+    slideshowPrompts: z.array(z.string()),
+    interrogation: z.looseObject({ linesOfInquiry: z.array(LineOfInquirySchema) }).optional(),
+    openingStatement: z.string().optional(),
+    suggestedQuestions: z.array(z.string()).optional(),
+  }),
+  physicalCharacteristics: z.looseObject({
+    height: z.string(),
+    weight: z.string(),
+    eyes: z.string(),
+    hair: z.string(),
+    features: z.string(),
+  }),
+};
+
+const isDataComponentType = (type: unknown): type is DataComponentType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(DATA_COMPONENT_PROPS_SCHEMAS, type);
+
+/**
+ * Checks one raw component against the validator for its type.
+ * @param {unknown} raw - A component as found in the story data.
+ * @returns {string | null} Why the component is invalid, or null if it is valid.
+ */
+export const describeInvalidDataComponent = (raw: unknown): string | null => {
+  const component = raw as { type?: unknown; props?: unknown } | null;
+  if (!component || !isDataComponentType(component.type)) {
+    return `unknown component type "${String(component?.type)}"`;
+  }
+  const result = DATA_COMPONENT_PROPS_SCHEMAS[component.type].safeParse(component.props);
+  if (result.success) return null;
+  return result.error.issues.map(issue => `${issue.path.join('.') || 'props'}: ${issue.message}`).join('; ');
+};
+
+/**
+ * Filters an entity's components down to the ones whose props match their type. Invalid components
+ * are logged and dropped rather than thrown, so one bad entry can't take down the whole story.
+ * @param {string} ownerId - The ID of the character or object, for the warning.
+ * @param {unknown[]} components - The components as found in the story data.
+ * @returns {DataComponent[]} The valid components, untouched and in their original order.
+ */
+export const validateDataComponents = (ownerId: string, components: unknown[]): DataComponent[] =>
+  components.filter((component): component is DataComponent => {
+    const problem = describeInvalidDataComponent(component);
+    if (problem) console.warn(`[dataComponents] Dropping a component of "${ownerId}": ${problem}`);
+    return !problem;
+  });
+
+/**
+ * Finds the props of the first component of a given type.
+ * @param {DataComponent[]} components - A character's or object's components.
+ * @param {K} type - The component type to look for.
+ * @returns {DataComponentPropsMap[K] | undefined} The typed props, if the entity has that component.
+ */
+export const findComponentProps = <K extends DataComponentType>(components: DataComponent[], type: K): DataComponentPropsMap[K] | undefined =>
+  components.find((component): component is DataComponentOfType<K> & DataComponent => component.type === type)?.props;
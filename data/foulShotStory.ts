@@ -0,0 +1,25 @@
+/**
+ * @file data/foulShotStory.ts
+ * @description The "Foul Shot" case, packaged for the story registry.
+ *
+ * The story data itself is the compiled `content.json` loaded by `story.ts`; this module only
+ * gathers it together with the intro slideshow that belongs to it. The case file board and its clues
+ * are part of the story data, generated from the clues declared on its objects.
+ */
+
+import { StoryPackage } from '../types';
+import { storyData } from './story';
+import { introSlideshowData } from './introSlideshowData';
+
+export const foulShotStory: StoryPackage = {
+  id: 'foul-shot',
+  title: storyData.title,
+  tagline: "A star sports agent is shot dead in a rented Atherton mansion. His client, his ex-wife and his lover's ex-husband all had reason to want him gone.",
+  storyData,
+  introSlides: introSlideshowData,
+  // Imported lazily so the uncompiled source only ships in the chunk authoring mode loads.
+  loadRawContent: async () => {
+    const [{ rawLocations }, { rawObjects }] = await Promise.all([import('./locations'), import('./objects')]);
+    return { locations: rawLocations, objects: rawObjects };
+  },
+};
@@ -5,11 +5,7 @@
  * changing any component code.
  */
 
-export interface IntroSlide {
-  id: string;
-  imagePrompt: string;
-  narration: string;
-}
+import { IntroSlide } from '../types';
 
 export const introSlideshowData: IntroSlide[] = [
   {
@@ -165,7 +165,7 @@ export const rawLocations = [
       "associatedCharacterIds": ["char_walter_halley"],
       "hotspots": [
         { "id": "hotspot-walter-office-photo", "label": "Examine Photo", "targetCardId": "obj_walter_trevon_photo", "targetCardType": "object", "aiHint": "the framed photo on the wall" },
-        { "id": "hotspot-walter-office-laptop", "label": "Access Laptop", "targetCardId": "group_walter_laptop", "targetCardType": "evidenceGroup", "aiHint": "the laptop on the desk" },
+        { "id": "hotspot-walter-office-laptop", "label": "Access Laptop", "targetCardId": "group_walter_laptop", "targetCardType": "evidenceGroup", "aiHint": "the laptop on the desk", "lock": { "requires": [{ "kind": "objectCollected", "objectId": "obj_pi_photos_desk" }], "teaser": "Walter's laptop. You'll need grounds before going through his private files." } },
         { "id": "hotspot-walter-office-training", "label": "Return to Training Room", "targetCardId": "loc_sabers_facility_training_room", "targetCardType": "location", "type": "move", "aiHint": "the door leading back to the training room" }
       ]
     },
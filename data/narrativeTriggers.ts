@@ -0,0 +1,34 @@
+/**
+ * @file data/narrativeTriggers.ts
+ * @description The scripted moments of the story: declarative triggers the narrative engine
+ * (`store/narrativeSlice.ts`) fires as the player investigates.
+ * ADA directives here must respect her persona: they steer her attention, never name the culprit.
+ */
+
+import { NarrativeTrigger } from '../types';
+
+export const rawNarrativeTriggers: NarrativeTrigger[] = [
+    {
+        id: "trg_first_look_pi_photos",
+        on: { event: 'cardViewed', targetId: "obj_pi_photos_desk" },
+        effects: [
+            { kind: 'setFlag', flag: "sawAffairPhotos" },
+            { kind: 'adaDirective', directive: "This is the detective's first look at the affair photos. Observe that an affair wounds more people than the two in the frame, and let the detective wonder who else it touched, without naming anyone." },
+        ],
+    },
+    {
+        id: "trg_tracks_after_affair",
+        on: { event: 'cardViewed', targetId: "obj_peel_out_tracks" },
+        conditions: [{ kind: 'flag', flag: "sawAffairPhotos" }],
+        effects: [
+            { kind: 'adaDirective', directive: "The detective has already seen the private investigator's photos of the affair. Invite them to consider who might have driven to this house in a hurry that night, and why." },
+        ],
+    },
+    {
+        id: "trg_casings_scanned",
+        on: { event: 'traceScanned', targetId: "obj_shell_casings" },
+        effects: [
+            { kind: 'adaDirective', directive: "The casings have just been scanned. Point out that the caliber is itself a lead: every firearm a suspect is known to own can be compared against it." },
+        ],
+    },
+];
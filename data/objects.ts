@@ -9,7 +9,7 @@ import { StoryObject } from '../types';
 
 export const rawObjects: Omit<StoryObject, 'isEvidence' | 'assignedToSuspectIds'>[] = [
     // --- Crime Scene Objects (Atherton Airbnb) ---
-    { "id": "obj_shell_casings", "name": "9mm Shell Casings", "unidentifiedDescription": "Five spent shell casings are clustered on the floor, glinting under the harsh light of a forensic lamp. They appear to be from a device, ejected in a tight grouping that suggests the person stood their ground.", "description": "Forensic analysis confirms all five 9mm casings were fired from a single device. The tight grouping suggests the person was stationary and deliberate. We're running the firing pin impressions against national databases, but so far, no matches.", "category": "physical", "locationFoundId": "loc_atherton_airbnb_foyer", "timestamp": "2025-04-13T23:35:00Z", "costToUnlock": 10, "hasBeenUnlocked": false, "rarity": "material", "imagePrompt": "A photorealistic, close-up photograph of five spent brass 9mm cartridges on a dark, polished hardwood floor. An evidence marker with the number '1' is placed beside them. The scene is lit by a stark, clinical flash, casting sharp shadows. Modern crime scene photo.", "tags": ["means"], "metadata": { "unlocksCaseFileClueId": "clue-means-primary" },
+    { "id": "obj_shell_casings", "name": "9mm Shell Casings", "unidentifiedDescription": "Five spent shell casings are clustered on the floor, glinting under the harsh light of a forensic lamp. They appear to be from a device, ejected in a tight grouping that suggests the person stood their ground.", "description": "Forensic analysis confirms all five 9mm casings were fired from a single device. The tight grouping suggests the person was stationary and deliberate. We're running the firing pin impressions against national databases, but so far, no matches.", "category": "physical", "locationFoundId": "loc_atherton_airbnb_foyer", "timestamp": "2025-04-13T23:35:00Z", "costToUnlock": 10, "hasBeenUnlocked": false, "rarity": "material", "imagePrompt": "A photorealistic, close-up photograph of five spent brass 9mm cartridges on a dark, polished hardwood floor. An evidence marker with the number '1' is placed beside them. The scene is lit by a stark, clinical flash, casting sharp shadows. Modern crime scene photo.", "tags": ["means"], "metadata": { "caseFileClue": { "id": "clue-means-primary", "eventKey": "MEANS_PRIMARY_9MM_CASINGS", "text": "Five 9mm shell casings were found near the victim, indicating the murder weapon.", "type": "PRIMARY", "category": "means" } },
       "forensicDetails": {
         "analysis": "Five 9mm casings were recovered from the primary scene. The extractor and ejector markings are consistent across all five, confirming they were fired from a single device. The firing pin impression is ovoid with a distinct drag mark, a signature that, while not unique, is common to a specific family of aftermarket components often used in unserialized firearms.",
         "findings": [
@@ -76,7 +76,7 @@ export const rawObjects: Omit<StoryObject, 'isEvidence' | 'assignedToSuspectIds'
       },
       "components": []
     },
-    { "id": "obj_peel_out_tracks", "name": "Tire Tracks", "unidentifiedDescription": "Dark, aggressive tire marks are scorched onto the asphalt in front of the house. They tell a story of a vehicle leaving in a great hurry, its tires digging into the pavement with violent force.", "description": "The aggressive peel-out marks indicate a vehicle with high torque and a heavy-duty, all-terrain tread pattern. The width and wheelbase are consistent with a full-size pickup truck. Our lab is currently analyzing the rubber compound for more specific manufacturer details.", "category": "physical", "locationFoundId": "loc_atherton_airbnb", "timestamp": "2025-04-13T23:40:00Z", "costToUnlock": 10, "hasBeenUnlocked": false, "rarity": "material", "imagePrompt": "Photorealistic, top-down shot of dark tire marks peeling out on a wet asphalt road in front of a modern house at night. The tracks are glossy under the streetlights. Modern crime scene photo.", "tags": ["opportunity", "means"], "metadata": { "unlocksCaseFileClueId": "clue-opp-primary" },
+    { "id": "obj_peel_out_tracks", "name": "Tire Tracks", "unidentifiedDescription": "Dark, aggressive tire marks are scorched onto the asphalt in front of the house. They tell a story of a vehicle leaving in a great hurry, its tires digging into the pavement with violent force.", "description": "The aggressive peel-out marks indicate a vehicle with high torque and a heavy-duty, all-terrain tread pattern. The width and wheelbase are consistent with a full-size pickup truck. Our lab is currently analyzing the rubber compound for more specific manufacturer details.", "category": "physical", "locationFoundId": "loc_atherton_airbnb", "timestamp": "2025-04-13T23:40:00Z", "costToUnlock": 10, "hasBeenUnlocked": false, "rarity": "material", "imagePrompt": "Photorealistic, top-down shot of dark tire marks peeling out on a wet asphalt road in front of a modern house at night. The tracks are glossy under the streetlights. Modern crime scene photo.", "tags": ["opportunity", "means"], "metadata": { "caseFileClue": { "id": "clue-opp-primary", "eventKey": "OPP_PRIMARY_NEIGHBOR_TRUCK", "text": "Tire marks at the scene are consistent with a heavy truck, like Walter Halley's Ford F-150.", "type": "PRIMARY", "category": "opportunity" } },
       "forensicDetails": {
         "analysis": "Analysis of the tire tracks indicates they were left by a heavy vehicle with significant horsepower, accelerating rapidly from a stationary position. The tread pattern is distinctive, with deep grooves and asymmetrical lugs characteristic of a high-end, all-terrain tire. The wheelbase measurement (145 inches) strongly suggests a full-size American pickup truck.",
         "findings": [],
@@ -169,7 +169,7 @@ export const rawObjects: Omit<StoryObject, 'isEvidence' | 'assignedToSuspectIds'
     },
 
     // --- Apex Talent Office Objects ---
-    { "id": "obj_custody_papers_computer", "name": "Digital Custody Papers", "unidentifiedDescription": "A legal document is open on a laptop screen. The header 'IN THE SUPERIOR COURT OF CALIFORNIA' is visible, suggesting a legal dispute.", "description": "A draft of a motion filed by Malcolm's lawyer in his custody battle with Ariel Cole. The motion seeks to strip Ariel of joint custody, citing 'erratic behavior' and 'an unstable environment.' The language is aggressive and suggests an escalation of their legal fight.", "category": "document", "locationFoundId": "loc_apex_offices", "timestamp": "2025-04-12T15:00:00Z", "costToUnlock": 10, "hasBeenUnlocked": false, "rarity": "material", "imagePrompt": "A photorealistic close-up on a laptop screen displaying a legal document. The text is sharp and readable. The words 'MOTION TO MODIFY CUSTODY' are visible and subtly highlighted.", "tags": ["motive"], "metadata": { "unlocksCaseFileClueId": "clue-motive-support-1" },
+    { "id": "obj_custody_papers_computer", "name": "Digital Custody Papers", "unidentifiedDescription": "A legal document is open on a laptop screen. The header 'IN THE SUPERIOR COURT OF CALIFORNIA' is visible, suggesting a legal dispute.", "description": "A draft of a motion filed by Malcolm's lawyer in his custody battle with Ariel Cole. The motion seeks to strip Ariel of joint custody, citing 'erratic behavior' and 'an unstable environment.' The language is aggressive and suggests an escalation of their legal fight.", "category": "document", "locationFoundId": "loc_apex_offices", "timestamp": "2025-04-12T15:00:00Z", "costToUnlock": 10, "hasBeenUnlocked": false, "rarity": "material", "imagePrompt": "A photorealistic close-up on a laptop screen displaying a legal document. The text is sharp and readable. The words 'MOTION TO MODIFY CUSTODY' are visible and subtly highlighted.", "tags": ["motive"], "metadata": { "caseFileClue": { "id": "clue-motive-support-1", "eventKey": "MOTIVE_SUPPORT_ARIEL_CUSTODY", "text": "Digital custody papers show Malcolm was escalating the legal conflict with Ariel Cole.", "type": "SUPPORTING", "category": "motive" } },
       "components": [{
         "type": "documentContent",
         "props": {
@@ -182,7 +182,7 @@ export const rawObjects: Omit<StoryObject, 'isEvidence' | 'assignedToSuspectIds'
         }
       }]
     },
-    { "id": "obj_failed_trade_memo", "name": "Failed Trade Memo", "unidentifiedDescription": "A printed internal memo sits on a desk, marked 'CONFIDENTIAL'. The subject line mentions a player's name and a trade deal.", "description": "An internal memo from Malcolm Cole to the SF Sabers front office, officially advising them to pull out of a lucrative trade deal for Trevon Ford. Malcolm cites 'character concerns' and 'off-court distractions' as the reason, effectively blocking a move Trevon desperately wanted. This is concrete proof of the professional conflict between them.", "category": "document", "locationFoundId": "loc_apex_offices", "timestamp": "2025-04-11T10:00:00Z", "costToUnlock": 10, "hasBeenUnlocked": false, "rarity": "material", "imagePrompt": "A photorealistic shot of a printed memo on a dark wood desk. The words 'TRADE CANCELLATION: TREVON FORD' are visible and in sharp focus.", "tags": ["motive"], "metadata": { "unlocksCaseFileClueId": "clue-motive-support-2" },
+    { "id": "obj_failed_trade_memo", "name": "Failed Trade Memo", "unidentifiedDescription": "A printed internal memo sits on a desk, marked 'CONFIDENTIAL'. The subject line mentions a player's name and a trade deal.", "description": "An internal memo from Malcolm Cole to the SF Sabers front office, officially advising them to pull out of a lucrative trade deal for Trevon Ford. Malcolm cites 'character concerns' and 'off-court distractions' as the reason, effectively blocking a move Trevon desperately wanted. This is concrete proof of the professional conflict between them.", "category": "document", "locationFoundId": "loc_apex_offices", "timestamp": "2025-04-11T10:00:00Z", "costToUnlock": 10, "hasBeenUnlocked": false, "rarity": "material", "imagePrompt": "A photorealistic shot of a printed memo on a dark wood desk. The words 'TRADE CANCELLATION: TREVON FORD' are visible and in sharp focus.", "tags": ["motive"], "metadata": { "caseFileClue": { "id": "clue-motive-support-2", "eventKey": "MOTIVE_SUPPORT_TREVON_TRADE", "text": "An internal memo confirms Malcolm blocked Trevon Ford's trade, creating a professional motive.", "type": "SUPPORTING", "category": "motive" } },
       "components": [{
         "type": "documentContent",
         "props": {
@@ -195,7 +195,7 @@ export const rawObjects: Omit<StoryObject, 'isEvidence' | 'assignedToSuspectIds'
         }
       }]
     },
-    { "id": "obj_pi_photos_desk", "name": "Private Investigator Photos", "unidentifiedDescription": "A manila envelope lies on a desk. A few glossy photos are peeking out, showing a man and a woman in a clandestine meeting.", "description": "Photos from a private investigator, hired by Walter Halley. The photos clearly show Malcolm Cole and Camille Halley (Walter's ex-wife) in an intimate embrace outside a restaurant. This confirms Walter knew about the affair and was actively investigating it, establishing a powerful motive.", "category": "physical", "locationFoundId": "loc_apex_offices", "timestamp": "2025-04-10T18:00:00Z", "costToUnlock": 15, "hasBeenUnlocked": false, "rarity": "critical", "imagePrompt": "Photorealistic surveillance photos splayed on a desk, showing a man and woman embracing intimately at night outside a restaurant. The shot is slightly grainy, taken from a distance.", "tags": ["motive"], "metadata": { "unlocksCaseFileClueId": "clue-motive-primary" },
+    { "id": "obj_pi_photos_desk", "name": "Private Investigator Photos", "unidentifiedDescription": "A manila envelope lies on a desk. A few glossy photos are peeking out, showing a man and a woman in a clandestine meeting.", "description": "Photos from a private investigator, hired by Walter Halley. The photos clearly show Malcolm Cole and Camille Halley (Walter's ex-wife) in an intimate embrace outside a restaurant. This confirms Walter knew about the affair and was actively investigating it, establishing a powerful motive.", "category": "physical", "locationFoundId": "loc_apex_offices", "timestamp": "2025-04-10T18:00:00Z", "costToUnlock": 15, "hasBeenUnlocked": false, "rarity": "critical", "imagePrompt": "Photorealistic surveillance photos splayed on a desk, showing a man and woman embracing intimately at night outside a restaurant. The shot is slightly grainy, taken from a distance.", "tags": ["motive"], "metadata": { "caseFileClue": { "id": "clue-motive-primary", "eventKey": "MOTIVE_PRIMARY_PI_REPORT", "text": "Private investigator photos show Malcolm Cole and Camille Halley in an intimate embrace.", "type": "PRIMARY", "category": "motive" } },
       "components": []
     },
     { "id": "obj_ford_jersey", "name": "Ford Jersey", "unidentifiedDescription": "A framed basketball jersey with the name 'FORD' on the back hangs on an office wall. The glass of the frame is cracked, as if something struck it.", "description": "Trevon Ford's jersey, displayed in a cracked frame. The damage suggests a recent, violent outburst took place in this room, likely an argument between Malcolm and Trevon.", "category": "physical", "locationFoundId": "loc_apex_offices_trophy_room", "timestamp": "2025-04-12T17:00:00Z", "costToUnlock": 5, "hasBeenUnlocked": false, "rarity": "circumstantial", "imagePrompt": "A photorealistic image of a framed San Francisco Sabers basketball jersey with the name 'FORD' on it. A large crack spiderwebs across the glass of the frame.", "tags": ["motive"],
@@ -238,7 +238,7 @@ export const rawObjects: Omit<StoryObject, 'isEvidence' | 'assignedToSuspectIds'
     },
 
     // --- Data Integrity Fix: Added missing objects from groups ---
-    { "id": "obj_ariel_gun", "name": "Ariel's Handgun", "description": "A small .380 ACP handgun, registered to Ariel Cole. It's stored in a locked case. Ballistics confirm it was NOT the murder weapon.", "category": "physical", "ownerCharacterId": "char_ariel_cole", "locationFoundId": "loc_ariel_home_bedroom", "timestamp": "2025-04-14T00:00:00Z", "hasBeenUnlocked": false, "rarity": "irrelevant", "imagePrompt": "A photorealistic shot of a small, sleek .380 ACP handgun in an open, padded case.", "tags": [], "metadata": { "unlocksCaseFileClueId": "clue-means-support-3" }, "components": [] },
+    { "id": "obj_ariel_gun", "name": "Ariel's Handgun", "description": "A small .380 ACP handgun, registered to Ariel Cole. It's stored in a locked case. Ballistics confirm it was NOT the murder weapon.", "category": "physical", "ownerCharacterId": "char_ariel_cole", "locationFoundId": "loc_ariel_home_bedroom", "timestamp": "2025-04-14T00:00:00Z", "hasBeenUnlocked": false, "rarity": "irrelevant", "imagePrompt": "A photorealistic shot of a small, sleek .380 ACP handgun in an open, padded case.", "tags": [], "metadata": { "caseFileClue": { "id": "clue-means-support-3", "eventKey": "MEANS_SUPPORT_ARIEL_GUN", "text": "Ballistics confirm Ariel Cole's registered .380 ACP handgun was NOT the murder weapon.", "type": "SUPPORTING", "category": "means" } }, "components": [] },
     { "id": "obj_ariel_pills", "name": "Ariel's Sleeping Pills", "description": "A prescription for Ambien in Ariel Cole's name. It suggests she may be dealing with stress and sleep issues.", "category": "physical", "ownerCharacterId": "char_ariel_cole", "locationFoundId": "loc_ariel_home_bedroom", "timestamp": "2025-04-14T00:00:00Z", "hasBeenUnlocked": false, "rarity": "irrelevant", "imagePrompt": "A photorealistic shot of a prescription bottle for Ambien, with the name 'Ariel Cole' on the label.", "tags": [], "components": [] },
     { "id": "obj_trevon_painkillers", "name": "Painkillers", "description": "A bottle of prescription-strength painkillers, common for athletes. Non-descript.", "category": "physical", "ownerCharacterId": "char_trevon_ford", "locationFoundId": "loc_sabers_facility_locker_room", "timestamp": "2025-04-14T00:00:00Z", "hasBeenUnlocked": false, "rarity": "irrelevant", "imagePrompt": "A photorealistic image of a generic prescription pill bottle on a wooden shelf.", "tags": [], "components": [] },
     { "id": "obj_trevon_fan_mail", "name": "Fan Mail", "description": "A stack of unopened fan mail. Standard for a high-profile player.", "category": "document", "ownerCharacterId": "char_trevon_ford", "locationFoundId": "loc_sabers_facility_locker_room", "timestamp": "2025-04-14T00:00:00Z", "hasBeenUnlocked": false, "rarity": "irrelevant", "imagePrompt": "A photorealistic shot of a stack of colorful, unopened envelopes in a locker.", "tags": [], "components": [] },
@@ -261,7 +261,7 @@ export const rawObjects: Omit<StoryObject, 'isEvidence' | 'assignedToSuspectIds'
     // Trevon Ford
     { "id": "obj_trevon_social_1", "name": "Trevon's Social Media Post", "description": "A recent social media post from Trevon showing off his new yellow Lamborghini with the caption 'They tried to stop the bag... #motivation'. The post is timestamped the day after his trade was blocked.", "category": "socialMedia", "ownerCharacterId": "char_trevon_ford", "locationFoundId": "loc_trevon_home", "timestamp": "2025-04-12T19:00:00Z", "hasBeenUnlocked": false, "rarity": "circumstantial", "imagePrompt": "A photorealistic image styled like a social media post. It shows Trevon Ford leaning against a bright yellow Lamborghini at night. The text 'They tried to stop the bag...' is overlaid.", "tags": ["motive"], "components": [] },
     { "id": "obj_trevon_phone_log_1", "name": "Trevon's Phone Log", "description": "Phone records show multiple short, unanswered calls from Trevon to Ariel Cole between 11:30 PM and 12:00 AM on the night of the murder, placing him with her during the critical window.", "category": "phone_log", "ownerCharacterId": "char_trevon_ford", "locationFoundId": "loc_trevon_home_office", "timestamp": "2025-04-13T23:30:00Z", "hasBeenUnlocked": false, "rarity": "material", "imagePrompt": "A photorealistic screenshot of a smartphone call log. A series of outgoing calls to 'Ariel C.' are visible with timestamps around 11:30 PM.", "tags": ["opportunity"], "components": [] },
-    { "id": "obj_trevon_cctv_1", "name": "Lux Nightclub CCTV", "description": "Security footage from the Lux Nightclub confirms Trevon Ford was present from approximately 10:00 PM until 2:00 AM. Multiple witnesses also corroborate this. This provides him a strong alibi.", "category": "cctv_sighting", "ownerCharacterId": "char_trevon_ford", "locationFoundId": "loc_trevon_home", "timestamp": "2025-04-13T23:00:00Z", "hasBeenUnlocked": false, "rarity": "circumstantial", "imagePrompt": "A grainy, realistic security camera still from a crowded nightclub. Trevon Ford is visible in the background, talking to another person. The timestamp reads '23:05:41'.", "tags": ["opportunity"], "metadata": { "unlocksCaseFileClueId": "clue-means-support-2" }, "components": [] },
+    { "id": "obj_trevon_cctv_1", "name": "Lux Nightclub CCTV", "description": "Security footage from the Lux Nightclub confirms Trevon Ford was present from approximately 10:00 PM until 2:00 AM. Multiple witnesses also corroborate this. This provides him a strong alibi.", "category": "cctv_sighting", "ownerCharacterId": "char_trevon_ford", "locationFoundId": "loc_trevon_home", "timestamp": "2025-04-13T23:00:00Z", "hasBeenUnlocked": false, "rarity": "circumstantial", "imagePrompt": "A grainy, realistic security camera still from a crowded nightclub. Trevon Ford is visible in the background, talking to another person. The timestamp reads '23:05:41'.", "tags": ["opportunity"], "metadata": { "caseFileClue": { "id": "clue-means-support-2", "eventKey": "MEANS_SUPPORT_TREVON_ALIBI", "text": "CCTV footage and witness statements confirm Trevon Ford was at a nightclub during the incident.", "type": "SUPPORTING", "category": "means" } }, "components": [] },
     { "id": "obj_trevon_records_1", "name": "Trevon's Bank Statement", "description": "A bank statement for Trevon Ford shows a recent wire transfer of $450,000 for the purchase of a 'Lamborghini Aventador', confirming his high-end spending habits.", "category": "financial_record", "ownerCharacterId": "char_trevon_ford", "locationFoundId": "loc_trevon_home_office", "timestamp": "2025-04-05T00:00:00Z", "hasBeenUnlocked": false, "rarity": "irrelevant", "imagePrompt": "A photorealistic close-up of a bank statement document. A line item for 'Automotive Purchase - $450,000.00' is in sharp focus.", "tags": [], "components": [] },
     { "id": "obj_trevon_file_1", "name": "Trevon's Police File", "description": "Trevon Ford has a sealed juvenile record for a minor assault charge at age 17 during a high school basketball game. The record suggests a history of having a temper.", "category": "police_file", "ownerCharacterId": "char_trevon_ford", "locationFoundId": "loc_trevon_home_office", "timestamp": "2020-02-15T00:00:00Z", "hasBeenUnlocked": false, "rarity": "circumstantial", "imagePrompt": "A photorealistic shot of a police file folder labeled 'FORD, TREVON'. A 'SEALED JUVENILE RECORD' stamp is prominent.", "tags": ["motive"], "components": [] },
 
@@ -0,0 +1,177 @@
+/**
+ * @file data/reachability.ts
+ * @description Walks the compiled story the way a player can and reports content they can never get to,
+ * plus any case file primary slot that cannot be filled.
+ *
+ * @architectural_note Build-Time Only
+ * Like `transform.ts`, this is pure and only used by tooling (`scripts/analyzeStory.ts`). It models
+ * the navigation the UI actually offers: every map pin from the start, hotspots (hidden ones only if
+ * some narrative trigger can reveal them, whatever its conditions), a location's official
+ * reports, each character's collections, and forensic scans. Content produced at runtime (testimony
+ * logged from dialogue, scan findings) never appears in `StoryData`, so findings are only followed for
+ * the case file clues they unlock. Dangling IDs are `schemas.ts`'s job and are skipped here.
+ *
+ * Locks are modeled where they depend on content: a lock that needs an object or clue only opens once
+ * that object is reachable or that clue unlockable, so the walk repeats until nothing new opens.
+ * Flags, fired triggers and lines of inquiry are assumed to be attainable.
+ */
+
+import { StoryData, StoryObject, CardType, ContentLock, CollectionComponentType } from '../types';
+
+/**
+ * The object categories a character card opens as a collection, and the component whose lock gates
+ * each one. Mirrors the `CATEGORY_MAP` in `CharacterCard.tsx`; only objects in one of these
+ * categories show up on a character.
+ */
+const CHARACTER_COLLECTION_CATEGORIES: Record<string, CollectionComponentType> = {
+  socialMedia: 'socialMedia',
+  phone_log: 'phoneLog',
+  cctv_sighting: 'cctv',
+  financial_record: 'records',
+  police_file: 'file',
+};
+
+/** A case file primary slot the player cannot fill, and why. */
+export interface UnsolvableSlot {
+  anchorId: string;
+  slotId: string;
+  eventKey: string;
+  reason: string;
+}
+
+export interface ReachabilityReport {
+  reachableLocationIds: string[];
+  reachableObjectIds: string[];
+  unlockableClueIds: string[];
+  unreachableLocationIds: string[];
+  unreachableObjectIds: string[];
+  unreachableClueIds: string[];
+  unsolvableSlots: UnsolvableSlot[];
+}
+
+/**
+ * Computes which locations, objects and case file clues a player can reach.
+ * @param {StoryData} story - The compiled story, including the case file board whose primary slots must be solvable.
+ * @returns {ReachabilityReport} Reachable and unreachable IDs, in authoring order.
+ */
+export const analyzeReachability = (story: StoryData): ReachabilityReport => {
+  const { anchors, clues } = story.caseFile;
+  const revealableHotspotIds = new Set(story.narrativeTriggers.flatMap(trigger =>
+    trigger.effects.flatMap(effect => effect.kind === 'unlockHotspot' ? [effect.hotspotId] : [])));
+  const locationsById = new Map(story.locations.map(loc => [loc.id, loc]));
+  const objectsById = new Map(story.objects.map(obj => [obj.id, obj]));
+  const groupsById = new Map(story.evidenceGroups.map(group => [group.id, group]));
+  const charactersById = new Map(story.characters.map(character => [character.id, character]));
+
+  const reachedLocations = new Set<string>();
+  const reachedObjects = new Set<string>();
+  const unlockedClues = new Set<string>();
+  const pendingLocations: string[] = [];
+
+  const canOpen = (lock?: ContentLock) => !lock || lock.requires.every(condition => {
+    switch (condition.kind) {
+      case 'objectCollected':
+      case 'objectAnalyzed':
+      case 'interactionSolved':
+        return reachedObjects.has(condition.objectId);
+      case 'clueUnlocked':
+      case 'cluePlaced':
+        return unlockedClues.has(condition.clueId);
+      default:
+        return true;
+    }
+  });
+
+  const reachCard = (id: string, type: CardType) => {
+    if (type === 'location') {
+      const location = locationsById.get(id);
+      if (location && !reachedLocations.has(id) && canOpen(location.lock)) {
+        reachedLocations.add(id);
+        pendingLocations.push(id);
+      }
+    } else if (type === 'object' && objectsById.has(id)) {
+      reachedObjects.add(id);
+    } else if (type === 'evidenceGroup') {
+      groupsById.get(id)?.objectIds.forEach(objectId => objectsById.has(objectId) && reachedObjects.add(objectId));
+    }
+  };
+
+  const unlockClue = (holder?: { metadata?: StoryObject['metadata'] }) => {
+    const clueId = holder?.metadata?.unlocksCaseFileClueId;
+    if (clueId) unlockedClues.add(clueId);
+  };
+
+  // Triggers can hand over a clue directly; as with hidden hotspots, their conditions aren't modeled.
+  story.narrativeTriggers.forEach(trigger => trigger.effects.forEach(effect => {
+    if (effect.kind === 'addClue') unlockedClues.add(effect.clueId);
+  }));
+
+  // Each pass can open locks that the previous one made satisfiable.
+  let reachedCount = -1;
+  while (reachedCount !== reachedLocations.size + reachedObjects.size + unlockedClues.size) {
+    reachedCount = reachedLocations.size + reachedObjects.size + unlockedClues.size;
+
+    // --- Entry Points ---
+    // The crime scene is where the case opens; every other pin on the map can be tapped from turn one.
+    reachCard(story.storyInfo.crimeSceneId, 'location');
+    story.locations.filter(loc => !loc.isInternal).forEach(loc => reachCard(loc.id, 'location'));
+
+    // The people list shows every character, and each card opens its collections.
+    story.objects.forEach(obj => {
+      const componentType = CHARACTER_COLLECTION_CATEGORIES[obj.category];
+      const owner = obj.ownerCharacterId ? charactersById.get(obj.ownerCharacterId) : undefined;
+      if (!componentType || !owner) return;
+      if (canOpen(owner.components.find(component => component.type === componentType)?.lock)) reachedObjects.add(obj.id);
+    });
+
+    // --- Location Graph ---
+    // Reached locations are walked again on every pass, since their locked hotspots may have opened.
+    pendingLocations.push(...reachedLocations);
+    while (pendingLocations.length > 0) {
+      const location = locationsById.get(pendingLocations.pop()!)!;
+      location.hotspots
+        .filter(hotspot => (!hotspot.isHidden || revealableHotspotIds.has(hotspot.id)) && canOpen(hotspot.lock))
+        .forEach(hotspot => reachCard(hotspot.targetCardId, hotspot.targetCardType));
+      location.officialReportIds?.forEach(report => reachCard(report.id, report.type));
+    }
+
+    // --- Case File Clues ---
+    reachedObjects.forEach(objectId => {
+      const obj = objectsById.get(objectId)!;
+      unlockClue(obj);
+      obj.forensicScan?.traces.forEach(trace => unlockClue(trace.finding));
+      obj.forensicScan?.groups?.forEach(group => unlockClue(group.finding));
+    });
+  }
+
+  // --- Primary Slots ---
+  const unsolvableSlots: UnsolvableSlot[] = [];
+  anchors.forEach(anchor => {
+    const { slotId, correctEventKey } = anchor.primarySlot;
+    if (!correctEventKey) {
+      unsolvableSlots.push({ anchorId: anchor.id, slotId, eventKey: '', reason: 'Slot has no correct event key.' });
+      return;
+    }
+    const candidates = clues.filter(clue => clue.eventKey === correctEventKey);
+    if (candidates.length === 0) {
+      unsolvableSlots.push({ anchorId: anchor.id, slotId, eventKey: correctEventKey, reason: 'No clue has this event key.' });
+    } else if (!candidates.some(clue => unlockedClues.has(clue.id))) {
+      unsolvableSlots.push({
+        anchorId: anchor.id,
+        slotId,
+        eventKey: correctEventKey,
+        reason: `No reachable object unlocks ${candidates.map(clue => `"${clue.id}"`).join(' or ')}.`,
+      });
+    }
+  });
+
+  return {
+    reachableLocationIds: story.locations.filter(loc => reachedLocations.has(loc.id)).map(loc => loc.id),
+    reachableObjectIds: story.objects.filter(obj => reachedObjects.has(obj.id)).map(obj => obj.id),
+    unlockableClueIds: clues.filter(clue => unlockedClues.has(clue.id)).map(clue => clue.id),
+    unreachableLocationIds: story.locations.filter(loc => !reachedLocations.has(loc.id)).map(loc => loc.id),
+    unreachableObjectIds: story.objects.filter(obj => !reachedObjects.has(obj.id)).map(obj => obj.id),
+    unreachableClueIds: clues.filter(clue => !unlockedClues.has(clue.id)).map(clue => clue.id),
+    unsolvableSlots,
+  };
+};
@@ -0,0 +1,406 @@
+/**
+ * @file data/schemas.ts
+ * @description Zod schemas for the compiled `StoryData`, used by the content compiler and by `story.ts`
+ * in development builds.
+ *
+ * @architectural_note Shape and References
+ * The entity schemas only pin down the fields the app actually reads and let everything else through,
+ * so `story.ts` can still hand the parsed result to its normalizer. The real value is in the
+ * referential checks at the bottom: a hotspot, evidence group, or forensic trace that points at an
+ * ID nobody authored type-checks fine and then crashes the card that follows it. Those are reported
+ * here as issues with a path into the data, so the author can find the offending entry.
+ */
+
+import { z } from 'zod';
+import { DataComponentType, NarrativeEventType } from '../types';
+import { DATA_COMPONENT_PROPS_SCHEMAS, NarrativeConditionSchema, ContentLockSchema } from './dataComponents';
+
+// --- Shared Primitives ---
+
+const CardTypeSchema = z.enum(['character', 'object', 'location', 'evidenceGroup', 'socialMediaFeed', 'mugshot', 'collection', 'dialogue']);
+const EvidenceRaritySchema = z.enum(['irrelevant', 'circumstantial', 'material', 'critical']);
+const TimelineTagSchema = z.enum(['motive', 'means', 'opportunity']);
+
+const componentSchema = <K extends DataComponentType>(type: K) =>
+  z.looseObject({ type: z.literal(type), props: DATA_COMPONENT_PROPS_SCHEMAS[type], lock: ContentLockSchema.optional() });
+
+const DataComponentSchema = z.discriminatedUnion('type', [
+  componentSchema('socialMedia'),
+  componentSchema('phoneLog'),
+  componentSchema('cctv'),
+  componentSchema('records'),
+  componentSchema('file'),
+  componentSchema('purchaseInfo'),
+  componentSchema('interaction'),
+  componentSchema('documentContent'),
+  componentSchema('dialogue'),
+  componentSchema('physicalCharacteristics'),
+]);
+
+// --- Forensics ---
+
+const ForensicFindingSchema = z.looseObject({
+  name: z.string(),
+  imagePrompt: z.string(),
+  description: z.string(),
+  timestamp: z.string(),
+  locationFoundId: z.string(),
+  rarity: EvidenceRaritySchema,
+  category: z.string(),
+});
+
+const ForensicTraceSchema = z.looseObject({
+  id: z.string(),
+  label: z.string(),
+  coords: z.object({ x: z.number(), y: z.number(), radius: z.number() }),
+  finding: ForensicFindingSchema.optional(),
+  linkToObjectIds: z.array(z.string()).optional(),
+  scanGroupId: z.string().optional(),
+});
+
+const ScanGroupSchema = z.looseObject({
+  id: z.string(),
+  requiredScans: z.number().int().positive(),
+  finding: ForensicFindingSchema,
+  linkToObjectIds: z.array(z.string()),
+});
+
+const ForensicScanConfigSchema = z.looseObject({
+  traces: z.array(ForensicTraceSchema),
+  groups: z.array(ScanGroupSchema).optional(),
+});
+
+// --- Entities ---
+
+export const CharacterSchema = z.looseObject({
+  id: z.string().min(1),
+  name: z.string(),
+  imagePrompt: z.string(),
+  description: z.string(),
+  role: z.enum(['victim', 'suspect', 'witness']),
+  isSuspect: z.boolean(),
+  connections: z.looseObject({
+    relatedPeople: z.array(z.object({ id: z.string(), relationship: z.string() })),
+    knownLocations: z.array(z.string()),
+    associatedObjects: z.array(z.string()),
+  }),
+  testimonyIds: z.array(z.string()),
+  components: z.array(DataComponentSchema),
+});
+
+export const StoryObjectSchema = z.looseObject({
+  id: z.string().min(1),
+  name: z.string(),
+  imagePrompt: z.string(),
+  description: z.string(),
+  timestamp: z.string(),
+  isEvidence: z.boolean(),
+  assignedToSuspectIds: z.array(z.string()),
+  locationFoundId: z.string(),
+  rarity: EvidenceRaritySchema,
+  category: z.string(),
+  ownerCharacterId: z.string().optional(),
+  hasBeenUnlocked: z.boolean(),
+  costToUnlock: z.number().nonnegative().optional(),
+  components: z.array(DataComponentSchema),
+  tags: z.array(TimelineTagSchema).optional(),
+  metadata: z.looseObject({ unlocksCaseFileClueId: z.string().optional() }).optional(),
+  forensicScan: ForensicScanConfigSchema.optional(),
+});
+
+const HotspotSchema = z.looseObject({
+  id: z.string().min(1),
+  type: z.enum(['investigate', 'move']).optional(),
+  targetCardId: z.string().min(1),
+  targetCardType: CardTypeSchema,
+  label: z.string(),
+  aiHint: z.string().optional(),
+  isHidden: z.boolean().optional(),
+  lock: ContentLockSchema.optional(),
+});
+
+export const LocationSchema = z.looseObject({
+  id: z.string().min(1),
+  name: z.string(),
+  // Internal locations are only reached through hotspots and have no pin on the map.
+  mapCoords: z.object({ top: z.string(), left: z.string() }).optional(),
+  imagePrompt: z.string(),
+  description: z.string(),
+  hotspots: z.array(HotspotSchema),
+  sceneSummary: z.string(),
+  associatedCharacterIds: z.array(z.string()).optional(),
+  lock: ContentLockSchema.optional(),
+});
+
+export const EvidenceGroupSchema = z.looseObject({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  imagePrompt: z.string(),
+  objectIds: z.array(z.string()).min(1),
+});
+
+// --- Case File ---
+
+const ClueSchema = z.looseObject({
+  id: z.string().min(1),
+  eventKey: z.string().min(1),
+  text: z.string(),
+  type: z.enum(['PRIMARY', 'SUPPORTING']),
+  category: z.string().min(1),
+});
+
+const CaseFileSchema = z.looseObject({
+  title: z.string(),
+  clues: z.array(ClueSchema),
+  anchors: z.array(z.looseObject({
+    id: z.string().min(1),
+    title: z.string(),
+    timeLabel: z.string(),
+    primarySlot: z.looseObject({ slotId: z.string(), correctEventKey: z.string().optional() }),
+    supportingSlots: z.array(z.looseObject({ slotId: z.string() })),
+  })),
+});
+
+// --- Narrative Triggers ---
+
+const NarrativeEffectSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('setFlag'), flag: z.string().min(1), value: z.boolean().optional() }),
+  z.object({ kind: z.literal('adaDirective'), directive: z.string().min(1) }),
+  z.object({ kind: z.literal('unlockHotspot'), hotspotId: z.string() }),
+  z.object({ kind: z.literal('addClue'), clueId: z.string() }),
+  z.object({ kind: z.literal('showModal'), modal: z.enum(['documentViewer', 'introSlideshow']), props: DATA_COMPONENT_PROPS_SCHEMAS.documentContent.optional() }),
+]);
+
+const NarrativeTriggerSchema = z.object({
+  id: z.string().min(1),
+  on: z.object({
+    event: z.enum(['cardViewed', 'evidenceCollected', 'traceScanned', 'lineOfInquiryCompleted', 'cluePlaced', 'interactionSolved']),
+    targetId: z.string().optional(),
+  }),
+  conditions: z.array(NarrativeConditionSchema).optional(),
+  repeatable: z.boolean().optional(),
+  effects: z.array(NarrativeEffectSchema).min(1),
+});
+
+const CanonicalTimelineSchema = z.object({
+  culpritId: z.string(),
+  keyEvents: z.array(z.object({ objectId: z.string(), description: z.string() })),
+});
+
+// --- Story Data ---
+
+const StoryDataShapeSchema = z.looseObject({
+  title: z.string(),
+  storyInfo: z.object({ mapImagePrompt: z.string(), mapTitle: z.string(), crimeSceneId: z.string() }),
+  characters: z.array(CharacterSchema),
+  objects: z.array(StoryObjectSchema),
+  locations: z.array(LocationSchema),
+  evidenceGroups: z.array(EvidenceGroupSchema),
+  testimonies: z.array(z.looseObject({ id: z.string(), sourceCharacterId: z.string() })),
+  canonicalTimeline: CanonicalTimelineSchema.nullable(),
+  evidenceStacks: z.array(z.looseObject({ anchorId: z.string(), linkedIds: z.array(z.string()) })).optional(),
+  caseFile: CaseFileSchema,
+  narrativeTriggers: z.array(NarrativeTriggerSchema),
+});
+
+type StoryDataShape = z.infer<typeof StoryDataShapeSchema>;
+
+/**
+ * Checks that every ID the content points at was actually authored. Each dangling reference becomes
+ * its own issue so one compile run lists all of them instead of stopping at the first.
+ */
+const checkReferences = (data: StoryDataShape, ctx: z.RefinementCtx) => {
+  const idsByCardType: Partial<Record<z.infer<typeof CardTypeSchema>, Set<string>>> = {
+    character: new Set(data.characters.map(c => c.id)),
+    object: new Set(data.objects.map(o => o.id)),
+    location: new Set(data.locations.map(l => l.id)),
+    evidenceGroup: new Set(data.evidenceGroups.map(g => g.id)),
+  };
+  const characterIds = idsByCardType.character!;
+  const objectIds = idsByCardType.object!;
+  const clueIds = new Set(data.caseFile.clues.map(c => c.id));
+
+  const report = (path: (string | number)[], message: string) => ctx.addIssue({ code: 'custom', path, message });
+
+  // --- Duplicate IDs ---
+  // Entity adapters silently keep the last duplicate, which hides the first one from the player.
+  (['characters', 'objects', 'locations', 'evidenceGroups'] as const).forEach(collection => {
+    const seen = new Set<string>();
+    data[collection].forEach((entity, index) => {
+      if (seen.has(entity.id)) report([collection, index, 'id'], `Duplicate ${collection} id "${entity.id}".`);
+      seen.add(entity.id);
+    });
+  });
+
+  // --- Hotspots ---
+  data.locations.forEach((location, locIndex) => {
+    location.hotspots.forEach((hotspot, hotspotIndex) => {
+      // Card types without an entity collection (feeds, mugshots, ...) are resolved by their views.
+      const targets = idsByCardType[hotspot.targetCardType];
+      if (targets && !targets.has(hotspot.targetCardId)) {
+        report(['locations', locIndex, 'hotspots', hotspotIndex, 'targetCardId'],
+          `Hotspot "${hotspot.id}" targets ${hotspot.targetCardType} "${hotspot.targetCardId}", which does not exist.`);
+      }
+    });
+  });
+
+  // --- Evidence Groups ---
+  data.evidenceGroups.forEach((group, groupIndex) => {
+    group.objectIds.forEach((objectId, idIndex) => {
+      if (!objectIds.has(objectId)) {
+        report(['evidenceGroups', groupIndex, 'objectIds', idIndex], `Evidence group "${group.id}" contains unknown object "${objectId}".`);
+      }
+    });
+  });
+
+  // --- Objects ---
+  data.objects.forEach((obj, objIndex) => {
+    const clueId = obj.metadata?.unlocksCaseFileClueId;
+    if (clueId && !clueIds.has(clueId)) {
+      report(['objects', objIndex, 'metadata', 'unlocksCaseFileClueId'], `Object "${obj.id}" unlocks unknown case file clue "${clueId}".`);
+    }
+
+    obj.forensicScan?.traces.forEach((trace, traceIndex) => {
+      trace.linkToObjectIds?.forEach((linkedId, idIndex) => {
+        if (!objectIds.has(linkedId)) {
+          report(['objects', objIndex, 'forensicScan', 'traces', traceIndex, 'linkToObjectIds', idIndex],
+            `Forensic trace "${trace.id}" on "${obj.id}" links to unknown object "${linkedId}".`);
+        }
+      });
+    });
+    obj.forensicScan?.groups?.forEach((group, groupIndex) => {
+      group.linkToObjectIds.forEach((linkedId, idIndex) => {
+        if (!objectIds.has(linkedId)) {
+          report(['objects', objIndex, 'forensicScan', 'groups', groupIndex, 'linkToObjectIds', idIndex],
+            `Scan group "${group.id}" on "${obj.id}" links to unknown object "${linkedId}".`);
+        }
+      });
+    });
+  });
+
+  // --- Characters ---
+  data.characters.forEach((character, charIndex) => {
+    character.connections.relatedPeople.forEach((person, personIndex) => {
+      if (!characterIds.has(person.id)) {
+        report(['characters', charIndex, 'connections', 'relatedPeople', personIndex, 'id'],
+          `Character "${character.id}" is related to unknown character "${person.id}".`);
+      }
+    });
+  });
+
+  // --- Case File ---
+  const seenClueIds = new Set<string>();
+  data.caseFile.clues.forEach((clue, clueIndex) => {
+    if (seenClueIds.has(clue.id)) report(['caseFile', 'clues', clueIndex, 'id'], `Duplicate case file clue id "${clue.id}".`);
+    seenClueIds.add(clue.id);
+
+    // A primary clue the board doesn't expect can be placed but never counts as correct.
+    const anchor = data.caseFile.anchors.find(a => a.id === clue.category);
+    if (clue.type === 'PRIMARY' && anchor?.primarySlot.correctEventKey !== clue.eventKey) {
+      report(['caseFile', 'clues', clueIndex, 'eventKey'],
+        `Primary clue "${clue.id}" does not match the "${clue.category}" anchor's expected event "${anchor?.primarySlot.correctEventKey}".`);
+    }
+  });
+
+  // --- Narrative Conditions ---
+  const triggerIds = new Set(data.narrativeTriggers.map(t => t.id));
+  const loiKeys = new Set(data.characters.flatMap(c => c.components.flatMap(comp =>
+    comp.type === 'dialogue' ? (comp.props.interrogation?.linesOfInquiry ?? []).map(loi => `${c.id}/${loi.id}`) : [])));
+  const loiIds = new Set([...loiKeys].map(key => key.split('/')[1]));
+  const interactionObjectIds = new Set(data.objects.filter(o => o.components.some(c => c.type === 'interaction')).map(o => o.id));
+
+  /** Names what a condition points at if that doesn't exist, or returns null when it does. */
+  const describeUnknownTarget = (condition: z.infer<typeof NarrativeConditionSchema>): string | null =>
+    (condition.kind === 'objectCollected' || condition.kind === 'objectAnalyzed') && !objectIds.has(condition.objectId) ? `object "${condition.objectId}"` :
+    condition.kind === 'interactionSolved' && !interactionObjectIds.has(condition.objectId) ? `interaction on object "${condition.objectId}"` :
+    (condition.kind === 'clueUnlocked' || condition.kind === 'cluePlaced') && !clueIds.has(condition.clueId) ? `clue "${condition.clueId}"` :
+    condition.kind === 'lineOfInquiryCompleted' && !loiKeys.has(`${condition.characterId}/${condition.loiId}`) ? `line of inquiry "${condition.characterId}/${condition.loiId}"` :
+    condition.kind === 'triggerFired' && !triggerIds.has(condition.triggerId) ? `trigger "${condition.triggerId}"` :
+    null;
+
+  // --- Locks ---
+  const checkLock = (lock: z.infer<typeof ContentLockSchema> | undefined, path: (string | number)[], owner: string) => {
+    lock?.requires.forEach((condition, conditionIndex) => {
+      const unknown = describeUnknownTarget(condition);
+      if (unknown) report([...path, 'lock', 'requires', conditionIndex], `Lock on ${owner} requires unknown ${unknown}.`);
+    });
+  };
+  data.locations.forEach((location, locIndex) => {
+    checkLock(location.lock, ['locations', locIndex], `location "${location.id}"`);
+    location.hotspots.forEach((hotspot, hotspotIndex) =>
+      checkLock(hotspot.lock, ['locations', locIndex, 'hotspots', hotspotIndex], `hotspot "${hotspot.id}"`));
+  });
+  (['characters', 'objects'] as const).forEach(collection => {
+    data[collection].forEach((entity, entityIndex) => {
+      entity.components.forEach((component, componentIndex) => {
+        const path = [collection, entityIndex, 'components', componentIndex];
+        checkLock(component.lock, path, `the ${component.type} of "${entity.id}"`);
+        if (component.type !== 'dialogue') return;
+        component.props.interrogation?.linesOfInquiry.forEach((loi, loiIndex) =>
+          checkLock(loi.lock, [...path, 'props', 'interrogation', 'linesOfInquiry', loiIndex], `line of inquiry "${entity.id}/${loi.id}"`));
+      });
+    });
+  });
+
+  // --- Narrative Triggers ---
+  const hotspots = new Map(data.locations.flatMap(l => l.hotspots.map(h => [h.id, h] as const)));
+  const targetsByEvent: Record<NarrativeEventType, (id: string) => boolean> = {
+    cardViewed: id => Object.values(idsByCardType).some(ids => ids?.has(id)),
+    evidenceCollected: id => objectIds.has(id),
+    traceScanned: id => objectIds.has(id),
+    lineOfInquiryCompleted: id => loiIds.has(id),
+    cluePlaced: id => clueIds.has(id),
+    interactionSolved: id => interactionObjectIds.has(id),
+  };
+
+  const seenTriggerIds = new Set<string>();
+  data.narrativeTriggers.forEach((trigger, triggerIndex) => {
+    const path = ['narrativeTriggers', triggerIndex];
+    if (seenTriggerIds.has(trigger.id)) report([...path, 'id'], `Duplicate narrative trigger id "${trigger.id}".`);
+    seenTriggerIds.add(trigger.id);
+
+    const { event, targetId } = trigger.on;
+    if (targetId && !targetsByEvent[event](targetId)) {
+      report([...path, 'on', 'targetId'], `Trigger "${trigger.id}" listens for ${event} on unknown target "${targetId}".`);
+    }
+
+    trigger.conditions?.forEach((condition, conditionIndex) => {
+      const unknown = describeUnknownTarget(condition);
+      if (unknown) report([...path, 'conditions', conditionIndex], `Trigger "${trigger.id}" requires unknown ${unknown}.`);
+    });
+
+    trigger.effects.forEach((effect, effectIndex) => {
+      if (effect.kind === 'addClue' && !clueIds.has(effect.clueId)) {
+        report([...path, 'effects', effectIndex, 'clueId'], `Trigger "${trigger.id}" adds unknown clue "${effect.clueId}".`);
+      }
+      if (effect.kind === 'unlockHotspot') {
+        const hotspot = hotspots.get(effect.hotspotId);
+        if (!hotspot) report([...path, 'effects', effectIndex, 'hotspotId'], `Trigger "${trigger.id}" unlocks unknown hotspot "${effect.hotspotId}".`);
+        // Unlocking a hotspot that is never hidden does nothing, which is almost certainly a mistake.
+        else if (!hotspot.isHidden) report([...path, 'effects', effectIndex, 'hotspotId'], `Trigger "${trigger.id}" unlocks hotspot "${effect.hotspotId}", which is not hidden.`);
+      }
+      if (effect.kind === 'showModal' && effect.modal === 'documentViewer' && !effect.props) {
+        report([...path, 'effects', effectIndex, 'props'], `Trigger "${trigger.id}" opens a document without its content.`);
+      }
+    });
+  });
+
+  // --- Canonical Timeline ---
+  data.canonicalTimeline?.keyEvents.forEach((event, eventIndex) => {
+    if (!objectIds.has(event.objectId)) {
+      report(['canonicalTimeline', 'keyEvents', eventIndex, 'objectId'], `Canonical key event points at unknown object "${event.objectId}".`);
+    }
+  });
+};
+
+/** The full compiled story: shape validation followed by the referential-integrity checks. */
+export const StoryDataSchema = StoryDataShapeSchema.superRefine(checkReferences);
+
+/**
+ * Formats a failed parse as one line per issue, e.g. `locations.12.hotspots.0.targetCardId: ...`.
+ * @param {z.ZodError} error - The error returned by `StoryDataSchema.safeParse`.
+ * @returns {string[]} Human-readable issue lines.
+ */
+export const formatStoryDataIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
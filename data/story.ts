@@ -13,7 +13,8 @@
 
 import { StoryData } from '../types';
 // Runtime schema validation (dev-only) to catch authoring/build regressions early.
-import { StoryDataSchema } from './schemas';
+import { StoryDataSchema, formatStoryDataIssues } from './schemas';
+import { validateDataComponents } from './dataComponents';
 
 let _storyData: StoryData;
 
@@ -31,7 +32,7 @@ function normalizeStoryData(raw: any): StoryData {
     isSuspect: !!c.isSuspect,
     connections: safe(c.connections, { relatedPeople: [], knownLocations: [], associatedObjects: [] }),
     testimonyIds: safe(c.testimonyIds, []),
-    components: safe(c.components, []),
+    components: validateDataComponents(String(c.id), safe(c.components, [])),
   })) as StoryData['characters'];
 
   const objects = (safe(raw.objects, []) as any[]).map((o: any) => ({
@@ -48,7 +49,7 @@ function normalizeStoryData(raw: any): StoryData {
     ownerCharacterId: safe(o.ownerCharacterId, undefined),
     hasBeenUnlocked: !!o.hasBeenUnlocked,
     costToUnlock: safe(o.costToUnlock, undefined),
-    components: safe(o.components, []),
+    components: validateDataComponents(String(o.id), safe(o.components, [])),
     unidentifiedDescription: safe(o.unidentifiedDescription, undefined),
     tags: safe(o.tags, []),
     metadata: safe(o.metadata, {}),
@@ -74,6 +75,8 @@ function normalizeStoryData(raw: any): StoryData {
       targetCardType: safe(h.targetCardType, inferTypeFromId(h.targetCardId)),
       label: safe(h.label, ''),
       aiHint: safe(h.aiHint, undefined),
+      isHidden: !!h.isHidden,
+      lock: safe(h.lock, undefined),
     })),
     isInternal: !!l.isInternal,
     sceneSummary: safe(l.sceneSummary, ''),
@@ -81,6 +84,7 @@ function normalizeStoryData(raw: any): StoryData {
     associatedCharacterIds: safe(l.associatedCharacterIds, []),
     propertyRecords: safe(l.propertyRecords, undefined),
     officialReportIds: safe(l.officialReportIds, []),
+    lock: safe(l.lock, undefined),
   })) as StoryData['locations'];
 
   const evidenceGroups = (safe(raw.evidenceGroups, []) as any[]).map((g: any) => ({
@@ -106,6 +110,8 @@ function normalizeStoryData(raw: any): StoryData {
     testimonies,
     canonicalTimeline,
     evidenceStacks: safe(raw.evidenceStacks, []),
+    caseFile: safe(raw.caseFile, { title: '', clues: [], anchors: [] }),
+    narrativeTriggers: safe(raw.narrativeTriggers, []),
   } as StoryData;
 }
 
@@ -139,7 +145,7 @@ if (compiledStoryData && typeof StoryDataSchema !== 'undefined') {
     if (process.env.NODE_ENV !== 'production') {
       const validation = StoryDataSchema.safeParse(compiledStoryData);
       if (!validation.success) {
-        console.error('[story] compiled content failed schema validation:', validation.error);
+        console.error('[story] compiled content failed schema validation:\n' + formatStoryDataIssues(validation.error).join('\n'));
         try { (globalThis as any).__STORY_VALIDATION_ERROR = validation.error; } catch (e) {}
         // Keep compiledStoryData as-is so normalize can still coerce missing fields.
       } else {
@@ -173,6 +179,8 @@ if (compiledStoryData) {
     testimonies: [],
     canonicalTimeline: null,
     evidenceStacks: [],
+    caseFile: { title: '', clues: [], anchors: [] },
+    narrativeTriggers: [],
   };
   try { (globalThis as any).__STORY_DATA_SOURCE = 'fallback'; } catch (e) {}
 }
@@ -0,0 +1,37 @@
+/**
+ * @file data/storyInfo.ts
+ * @description Story-level metadata that doesn't belong to any single character, object or location:
+ * the title, the map, the crime scene the investigation opens on, the ground-truth timeline
+ * the player's accusation is judged against, and the copy for the case file's anchors.
+ */
+
+import { StoryInfo, CanonicalTimeline, CaseFileAnchorDefinition } from '../types';
+
+export const storyTitle = "Foul Shot";
+
+export const storyInfo: StoryInfo = {
+    mapTitle: "Foul Shot",
+    mapImagePrompt: "A stylized, top-down map of the San Francisco Bay Area peninsula at night, rendered like a detective's case board. Atherton, downtown San Francisco and the surrounding suburbs are marked with pins and connected by thin red string. Dark, moody, high-contrast cartography with muted blues and greys.",
+    crimeSceneId: "loc_atherton_airbnb",
+};
+
+// The ground truth for `evaluatePlayerTimeline`. Walter Halley is the culprit; the key events are the
+// objects that prove motive, opportunity and means.
+export const canonicalTimeline: CanonicalTimeline = {
+    culpritId: "char_walter_halley",
+    keyEvents: [
+        { objectId: "obj_pi_photos_desk", description: "Private investigator photos expose Malcolm's affair with Camille Halley, Walter's ex-wife." },
+        { objectId: "obj_peel_out_tracks", description: "A heavy truck matching Walter's Ford F-150 peels away from the Atherton Airbnb minutes after the shots." },
+        { objectId: "obj_shell_casings", description: "Five 9mm casings at the scene carry extractor markings consistent with the firearm Walter reported stolen." },
+    ],
+};
+
+// The case file's anchors, in tab order. Their slots are generated from the clues declared on objects
+// (`metadata.caseFileClue`): one primary slot per anchor, plus one supporting slot per supporting clue.
+export const caseFileTitle = "Foul Shot Case File";
+
+export const caseFileAnchors: CaseFileAnchorDefinition[] = [
+    { id: 'motive', title: "The Motive", timeLabel: "Days Before The Incident" },
+    { id: 'opportunity', title: "The Opportunity", timeLabel: "Night of The Incident, ~11:30 PM" },
+    { id: 'means', title: "The Means", timeLabel: "The Act Itself" },
+];
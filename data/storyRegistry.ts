@@ -0,0 +1,37 @@
+/**
+ * @file data/storyRegistry.ts
+ * @description The list of playable cases shown on the case selection screen.
+ *
+ * @architectural_note
+ * Each case is a self-contained `StoryPackage`; nothing outside this file should import a specific
+ * story module. To add a case, compile its content, package it in its own `data/<name>Story.ts`
+ * module, and append it to `STORY_REGISTRY`. A package's `id` namespaces its autosave and image
+ * cache, so it must stay stable once players have started the case.
+ */
+
+import { StoryPackage } from '../types';
+import { foulShotStory } from './foulShotStory';
+
+export const STORY_REGISTRY: StoryPackage[] = [
+  foulShotStory,
+];
+
+/** The case the store is initialised with before the player has picked one. */
+export const DEFAULT_STORY_ID = STORY_REGISTRY[0].id;
+
+const packagesById = new Map(STORY_REGISTRY.map(pkg => [pkg.id, pkg]));
+
+/**
+ * Looks up a case by ID, falling back to the default case for unknown IDs (e.g., a case that has
+ * since been removed from the registry).
+ * @param {string} storyId - The `StoryPackage` ID.
+ * @returns {StoryPackage} The case.
+ */
+export const getStoryPackage = (storyId: string): StoryPackage =>
+  packagesById.get(storyId) ?? packagesById.get(DEFAULT_STORY_ID)!;
+
+/**
+ * @param {string} storyId - A `StoryPackage` ID.
+ * @returns {boolean} Whether the registry contains that case.
+ */
+export const isRegisteredStory = (storyId: string): boolean => packagesById.has(storyId);
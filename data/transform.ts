@@ -0,0 +1,160 @@
+/**
+ * @file data/transform.ts
+ * @description Turns the hand-authored raw story modules into a complete `StoryData` object.
+ *
+ * @architectural_note Build-Time Only
+ * This runs inside `scripts/compileContent.ts`, never in the browser. Authors only write the fields
+ * that need a human (names, prompts, descriptions); everything that can be worked out from the rest
+ * of the data — initial player state, cross-references, evidence group copy, the case file board —
+ * is filled in here.
+ * Keep it pure and deterministic so the compiled `content.json` only changes when the content does.
+ */
+
+import { Character, StoryObject, Location, EvidenceGroup, StoryData, StoryInfo, CanonicalTimeline, CaseFileData, CaseFileAnchorDefinition, Clue, TimelineAnchor, NarrativeTrigger } from '../types';
+
+// --- Raw Authoring Types ---
+
+/** A character as authored. `bio` becomes `description`; player state and cross-references are derived. */
+export type RawCharacter = Omit<Character, 'description' | 'isSuspect' | 'connections' | 'testimonyIds'> & { bio: string };
+/** An object as authored. Evidence status starts empty and is driven by the player. */
+export type RawObject = Omit<StoryObject, 'isEvidence' | 'assignedToSuspectIds'>;
+/** A location as authored. The card description and "last event" are derived from its objects. */
+export type RawLocation = Omit<Location, 'description' | 'lastEventTimestamp' | 'lastEventDescription'>;
+/** An evidence group as authored. Its description and image prompt are derived from its members. */
+export type RawEvidenceGroup = Omit<EvidenceGroup, 'imagePrompt' | 'description'>;
+
+/** Everything the compiler reads. */
+export interface RawStoryContent {
+  title: string;
+  storyInfo: StoryInfo;
+  canonicalTimeline: CanonicalTimeline | null;
+  characters: RawCharacter[];
+  objects: RawObject[];
+  locations: RawLocation[];
+  evidenceGroups: RawEvidenceGroup[];
+  /** The case file's title and anchor copy; its clues are declared on the objects that unlock them. */
+  caseFile: { title: string; anchors: CaseFileAnchorDefinition[] };
+  /** Authored as-is; the compiler only validates them. */
+  narrativeTriggers: NarrativeTrigger[];
+}
+
+const buildCharacters = (raw: RawStoryContent): Character[] =>
+  raw.characters.map(({ bio, ...character }) => ({
+    ...character,
+    description: bio,
+    // The player decides who is a suspect; `role` is the ground truth and is never shown as a flag.
+    isSuspect: false,
+    connections: {
+      relatedPeople: [],
+      knownLocations: raw.locations.filter(loc => loc.associatedCharacterIds?.includes(character.id)).map(loc => loc.id),
+      associatedObjects: raw.objects.filter(obj => obj.ownerCharacterId === character.id).map(obj => obj.id),
+    },
+    testimonyIds: [],
+  }));
+
+const buildObjects = (raw: RawStoryContent): StoryObject[] =>
+  raw.objects.map(obj => ({
+    ...obj,
+    // An inline clue declaration is what makes the object unlock that clue.
+    metadata: obj.metadata?.caseFileClue
+      ? { ...obj.metadata, unlocksCaseFileClueId: obj.metadata.unlocksCaseFileClueId ?? obj.metadata.caseFileClue.id }
+      : obj.metadata,
+    isEvidence: false,
+    assignedToSuspectIds: [],
+  }));
+
+const buildLocations = (raw: RawStoryContent): Location[] =>
+  raw.locations.map(location => {
+    // The most recent object found here stands in for the location's last recorded event.
+    const latestObject = raw.objects
+      .filter(obj => obj.locationFoundId === location.id && obj.timestamp)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+    return {
+      ...location,
+      description: location.detailedDescription || location.sceneSummary,
+      lastEventTimestamp: latestObject?.timestamp || '',
+      lastEventDescription: latestObject?.name || '',
+    };
+  });
+
+const buildEvidenceGroups = (raw: RawStoryContent): EvidenceGroup[] => {
+  const objectsById = new Map(raw.objects.map(obj => [obj.id, obj]));
+  return raw.evidenceGroups.map(group => {
+    const memberNames = group.objectIds.map(id => objectsById.get(id)?.name).filter((name): name is string => !!name);
+    const itemCount = `${memberNames.length} item${memberNames.length === 1 ? '' : 's'}`;
+    return {
+      ...group,
+      description: `${itemCount} recovered together: ${memberNames.join(', ')}.`,
+      imagePrompt: `A photorealistic, top-down evidence photograph of ${memberNames.join(', ')}, laid out on a dark surface beside numbered evidence markers. Harsh forensic lighting. Modern crime scene photo.`,
+    };
+  });
+};
+
+/**
+ * Collects the clues declared inline on objects, in authoring order. Several objects may declare the
+ * same clue, but only with identical content.
+ * @throws {Error} If two declarations share an ID but differ.
+ */
+const collectCaseFileClues = (raw: RawStoryContent): Clue[] => {
+  const cluesById = new Map<string, Clue>();
+  raw.objects.forEach(obj => {
+    const clue = obj.metadata?.caseFileClue;
+    if (!clue) return;
+    const existing = cluesById.get(clue.id);
+    if (existing && JSON.stringify(existing) !== JSON.stringify(clue)) {
+      throw new Error(`Case file clue "${clue.id}" is declared differently on "${obj.id}" than on an earlier object.`);
+    }
+    cluesById.set(clue.id, clue);
+  });
+  return [...cluesById.values()];
+};
+
+/**
+ * Generates the case file board. Anchors come from the authored definitions, plus any category a clue
+ * uses that has none. Each anchor's primary slot expects its primary clue's event key, and it gets one
+ * supporting slot per supporting clue.
+ */
+const buildCaseFile = (raw: RawStoryContent): CaseFileData => {
+  const clues = collectCaseFileClues(raw);
+  const definitions = [...raw.caseFile.anchors];
+  clues.forEach(clue => {
+    if (!definitions.some(def => def.id === clue.category)) {
+      const label = clue.category.charAt(0).toUpperCase() + clue.category.slice(1);
+      definitions.push({ id: clue.category, title: `The ${label}`, timeLabel: '' });
+    }
+  });
+
+  const anchors: TimelineAnchor[] = definitions.map(({ id, title, timeLabel }) => {
+    const categoryClues = clues.filter(clue => clue.category === id);
+    const primaryClue = categoryClues.find(clue => clue.type === 'PRIMARY');
+    const supportingCount = categoryClues.filter(clue => clue.type === 'SUPPORTING').length;
+    return {
+      id,
+      title,
+      timeLabel,
+      primarySlot: { slotId: `${id}-primary`, correctEventKey: primaryClue?.eventKey, placedClueId: null },
+      supportingSlots: Array.from({ length: supportingCount }, (_, index) => ({ slotId: `${id}-support-${index + 1}`, placedClueId: null })),
+    };
+  });
+
+  return { title: raw.caseFile.title, clues, anchors };
+};
+
+/**
+ * Compiles the raw story modules into the `StoryData` the runtime loads.
+ * @param {RawStoryContent} raw - The authored content.
+ * @returns {StoryData} The complete, derived story data.
+ */
+export const transformStoryData = (raw: RawStoryContent): StoryData => ({
+  title: raw.title,
+  storyInfo: raw.storyInfo,
+  characters: buildCharacters(raw),
+  objects: buildObjects(raw),
+  locations: buildLocations(raw),
+  evidenceGroups: buildEvidenceGroups(raw),
+  testimonies: [],
+  canonicalTimeline: raw.canonicalTimeline,
+  evidenceStacks: [],
+  caseFile: buildCaseFile(raw),
+  narrativeTriggers: raw.narrativeTriggers,
+});
@@ -3,6 +3,14 @@
 // Add Vite env typings so `import.meta.env.VITE_API_KEY` is recognized by TypeScript.
 interface ImportMetaEnv {
   readonly VITE_API_KEY?: string;
+  readonly VITE_AI_PROVIDER?: 'gemini' | 'openai' | 'offline';
+  readonly VITE_AI_BASE_URL?: string;
+  readonly VITE_AI_MODEL?: string;
+  readonly VITE_AI_API_KEY?: string;
+  readonly VITE_AI_IMAGE_MODEL?: string;
+  readonly VITE_AI_FIXTURE_MODE?: 'off' | 'record' | 'replay';
+  readonly VITE_AI_FIXTURE_URL?: string;
+  readonly VITE_AI_DAILY_REQUEST_LIMIT?: string;
   // add other VITE_ env vars here as needed
 }
 
@@ -1,44 +1,67 @@
 /**
  * @file hooks/useCardImage.ts
  * @description This custom hook encapsulates the logic for displaying an image for a game card.
- * It checks a Redux-based cache for an existing image URL. If not found, it adds a request
- * to a centralized, sequential queue to be processed, preventing API rate-limiting.
+ * It checks a Redux-based cache for an existing image URL. If not found, or if the cached image
+ * was generated from a different prompt, it adds a request to a centralized, sequential queue to
+ * be processed, preventing API rate-limiting. While a card has no image because generation failed,
+ * it shows procedural placeholder art instead (see `placeholderArtService`).
  */
 
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
 import { queueImageGeneration, processImageGenerationQueue } from '../store/storySlice';
-import { Character, StoryObject, Location } from '../types';
+import { imageCacheService, getImageFingerprint } from '../services/imageCacheService';
+import { placeholderArtService, PlaceholderKind } from '../services/placeholderArtService';
+import { Character, StoryObject, Location, ImageColorTreatment } from '../types';
 
 // A union type for any card-like object that has an ID and an image prompt.
 type Card = (Character | StoryObject | Location | { id: string; imagePrompt: string });
 
+/** Works out which placeholder composition suits a card from the fields its type has. */
+const getPlaceholderKind = (card: Card, colorTreatment: ImageColorTreatment): PlaceholderKind => {
+  if (colorTreatment === 'map') return 'map';
+  if ('occupation' in card) return 'character';
+  if ('rarity' in card) return 'object';
+  if ('hotspots' in card) return 'location';
+  return 'scene';
+};
+
 /**
  * A hook to manage fetching and displaying a card's image via a central queue.
  *
  * @param {Card | null} card - The card object (e.g., Character, StoryObject) for which to get an image.
- * @param {'monochrome' | 'selectiveColor' | 'map'} colorTreatment - The desired visual style for the image.
- * @returns {{ imageUrl: string | null, isLoading: boolean }} An object containing the image URL (or null) and a boolean loading state.
+ * @param {ImageColorTreatment} colorTreatment - The desired visual style for the image.
+ * @returns {{ imageUrl: string | null, isLoading: boolean, isPlaceholder: boolean }} The image URL (or null), a loading state, and whether
+ * the URL is placeholder art rather than a generated image.
  */
 export const useCardImage = (
   card: Card | null, 
-  colorTreatment: 'monochrome' | 'selectiveColor' | 'map'
+  colorTreatment: ImageColorTreatment
 ) => {
   const dispatch = useDispatch<AppDispatch>();
+  const storyId = useSelector((state: RootState) => state.story.storyId);
   
   const imageUrl = useSelector((state: RootState) => (card ? state.story.imageUrls[card.id] : null));
   const isLoadingFromState = useSelector((state: RootState) => (card ? state.story.imageLoading[card.id] : false));
+  const hasImageError = useSelector((state: RootState) => (card ? !!state.story.imageErrors[card.id] : false));
+  const cachedFingerprint = useSelector((state: RootState) => (card ? state.story.imageFingerprints[card.id] : undefined));
+  const expectedFingerprint = useMemo(
+    () => (card?.imagePrompt ? getImageFingerprint(card.imagePrompt, colorTreatment) : undefined),
+    [card?.imagePrompt, colorTreatment]
+  );
+  // A cached image is only trusted once its fingerprint matches; the reducer adopts or regenerates otherwise.
+  const isCachedImageCurrent = !!imageUrl && cachedFingerprint === expectedFingerprint;
 
   useEffect(() => {
     // --- BUG FIX: More Robust Queuing ---
     // The core logic is simplified to be more robust. It dispatches to the queue if...
     // 1. A valid card with an image prompt is provided.
-    // 2. An image URL is NOT already in the cache.
+    // 2. An image URL is NOT already in the cache, or the cached image's prompt fingerprint doesn't match.
     // The check for `isLoadingFromState` was removed because the `queueImageGeneration` reducer
     // is idempotent (it won't add duplicates to the queue), making this check redundant and
     // potentially causing race conditions where an item is never queued.
-    if (card && card.imagePrompt && !imageUrl) {
+    if (card && card.imagePrompt && !isCachedImageCurrent) {
       dispatch(queueImageGeneration({
           cardId: card.id,
           prompt: card.imagePrompt,
@@ -46,10 +69,25 @@ export const useCardImage = (
       }));
       // Kick off the queue processor. It has an internal guard to prevent multiple concurrent runs.
       dispatch(processImageGenerationQueue());
+    } else if (card && isCachedImageCurrent) {
+      imageCacheService.recordAccess(storyId, card.id);
     }
-  }, [card, imageUrl, colorTreatment, dispatch]);
+  }, [card, isCachedImageCurrent, colorTreatment, storyId, dispatch]);
+
+  // --- PLACEHOLDER ART ---
+  // Shown only while generation has failed and there is no real image; a later success replaces it.
+  const placeholderUrl = useMemo(() => {
+    if (!card || imageUrl || !hasImageError) return null;
+    return placeholderArtService.getPlaceholderUrl({
+      cardId: card.id,
+      kind: getPlaceholderKind(card, colorTreatment),
+      name: 'name' in card ? card.name : '',
+      rarity: 'rarity' in card ? card.rarity : undefined,
+      colorTreatment,
+    });
+  }, [card, imageUrl, hasImageError, colorTreatment]);
 
-  const isLoading = isLoadingFromState || (!imageUrl && !!card?.imagePrompt);
+  const isLoading = !placeholderUrl && (isLoadingFromState || (!imageUrl && !!card?.imagePrompt));
 
-  return { imageUrl: imageUrl ?? null, isLoading };
+  return { imageUrl: imageUrl ?? placeholderUrl, isLoading, isPlaceholder: !!placeholderUrl };
 };
\ No newline at end of file
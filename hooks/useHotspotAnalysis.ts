@@ -6,7 +6,7 @@
  */
 import { useState, useEffect, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { analyzeImageForHotspots } from '../services/geminiService';
+import { analyzeImageForHotspots } from '../services/aiService';
 import { Hotspot } from '../types';
 import { RootState, AppDispatch } from '../store';
 import { setDynamicHotspotCoords, selectDynamicHotspotsForLocation } from '../store/storySlice';
@@ -5,32 +5,46 @@
  * @architectural_decision
  * This hook is a cornerstone of the refactored interrogation module. It adheres to the
  * single-responsibility principle by abstracting away the complexities of interacting
- * with the Gemini API. The UI component (`DialogueCard`) no longer needs to know about
- * `Chat` instances, loading states, or JSON parsing. It simply calls the `sendMessage`
+ * with the AI provider. The UI component (`DialogueCard`) no longer needs to know about
+ * chat sessions, loading states, or JSON parsing. It simply calls the `sendMessage`
  * function and receives clean, structured data in return. This makes the UI component
  * significantly cleaner and easier to reason about, while also making the AI interaction
  * logic reusable and testable in isolation.
  */
 import { useState, useEffect, useRef } from 'react';
-import { Chat } from '@google/genai';
-import { startInterviewChat, getInterrogationResponse, InterrogationResponse } from '../services/geminiService';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { Character, DialogueData } from '../types';
+import { chatHistoryRecorded, selectDialogueSession } from '../store/dialogueSlice';
+import { logError } from '../store/errorLogSlice';
+import { startInterviewChat, getInterrogationResponse, getChatTranscript, InterrogationResponse, InterviewChat } from '../services/aiService';
 
 /**
  * Manages the state and communication for an interrogation AI chat.
- * @param persona The system instruction string that defines the AI's personality and rules.
+ * The chat history is kept in the dialogue slice, so a session resumed later (or after a reload)
+ * starts from everything the character has already said.
+ * @param character The character being interviewed.
+ * @param dialogue The character's dialogue data, whose persona defines the AI's personality and rules.
  * @returns An object containing the AI's responding status and a function to send a message.
  */
-export const useInterrogationAI = (persona: string) => {
+export const useInterrogationAI = (character: Character, dialogue: DialogueData | undefined) => {
+  const dispatch = useDispatch<AppDispatch>();
   // Use a ref to store the chat instance so it persists across re-renders without causing them.
-  const chatRef = useRef<Chat | null>(null);
+  const chatRef = useRef<InterviewChat | null>(null);
   const [isAiResponding, setIsAiResponding] = useState(false);
 
-  // Initialize the chat instance only when the persona changes.
+  // Read through a ref: the stored history is only needed when the chat is created, and the
+  // chat must not be recreated every time a response updates it.
+  const savedHistory = useSelector((state: RootState) => selectDialogueSession(state, character.id)?.chatHistory);
+  const savedHistoryRef = useRef(savedHistory);
+  savedHistoryRef.current = savedHistory;
+
+  // Initialize the chat instance only when the character or their dialogue changes.
   useEffect(() => {
-    if (persona) {
-      chatRef.current = startInterviewChat(persona);
+    if (dialogue?.persona) {
+      chatRef.current = startInterviewChat(dialogue.persona, character, dialogue, savedHistoryRef.current || []);
     }
-  }, [persona]);
+  }, [character, dialogue]);
 
   /**
    * Sends a message to the AI and returns the structured response.
@@ -45,7 +59,11 @@ export const useInterrogationAI = (persona: string) => {
 
     setIsAiResponding(true);
     try {
-      const response = await getInterrogationResponse(chatRef.current, message);
+      // Each malformed reply is logged, including the ones the model then repaired.
+      const response = await getInterrogationResponse(chatRef.current, message, problem =>
+        dispatch(logError({ message: `Malformed interrogation reply from ${character.name}: ${problem}` }))
+      );
+      dispatch(chatHistoryRecorded({ characterId: character.id, history: getChatTranscript(chatRef.current) }));
       return response;
     } catch (error) {
       console.error("Error getting interrogation response from hook:", error);
@@ -0,0 +1,50 @@
+/**
+ * @file scripts/analyzeStory.ts
+ * @description Reports story content the player can never reach and case file primary slots that can
+ * never be filled, using the compiled `data/compiled/content.json`.
+ *
+ * Run with `npm run analyze-story` (after `npm run build-content`). Exits non-zero when a primary slot is
+ * unsolvable; pass `--strict` to also fail on unreachable locations, objects or clues.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { StoryData } from '../types';
+import { analyzeReachability } from '../data/reachability';
+
+const CONTENT_PATH = resolve(dirname(fileURLToPath(import.meta.url)), '../data/compiled/content.json');
+const STRICT = process.argv.includes('--strict');
+
+const printList = (label: string, ids: string[]) => {
+  if (ids.length === 0) return;
+  console.warn(`[analyzeStory] ${ids.length} unreachable ${label}:`);
+  ids.forEach(id => console.warn(`  - ${id}`));
+};
+
+const main = async () => {
+  const story: StoryData = JSON.parse(await readFile(CONTENT_PATH, 'utf8'));
+  const report = analyzeReachability(story);
+
+  console.log(`[analyzeStory] Reachable: ${report.reachableLocationIds.length}/${story.locations.length} locations, ` +
+    `${report.reachableObjectIds.length}/${story.objects.length} objects, ` +
+    `${report.unlockableClueIds.length}/${story.caseFile.clues.length} case file clues.`);
+
+  printList('locations', report.unreachableLocationIds);
+  printList('objects', report.unreachableObjectIds);
+  printList('case file clues', report.unreachableClueIds);
+
+  report.unsolvableSlots.forEach(slot =>
+    console.error(`[analyzeStory] Primary slot "${slot.slotId}" (${slot.anchorId}, ${slot.eventKey || 'no event key'}) cannot be filled: ${slot.reason}`));
+
+  const hasUnreachable = report.unreachableLocationIds.length + report.unreachableObjectIds.length + report.unreachableClueIds.length > 0;
+  if (report.unsolvableSlots.length > 0 || (STRICT && hasUnreachable)) {
+    process.exit(1);
+  }
+  console.log('[analyzeStory] Every primary slot in the case file can be filled.');
+};
+
+main().catch(error => {
+  console.error('[analyzeStory] Failed to analyze story content:', error);
+  process.exit(1);
+});
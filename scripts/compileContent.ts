@@ -0,0 +1,65 @@
+/**
+ * @file scripts/compileContent.ts
+ * @description Compiles the authored story modules in `data/` into `data/compiled/content.json`,
+ * the artifact `data/story.ts` loads at runtime.
+ *
+ * Run with `npm run build-content` after editing any file under `data/`, and commit the output.
+ * The compiled data is checked against `StoryDataSchema`; pass `--strict` to fail on any issue.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { rawCharacters } from '../data/characters';
+import { rawObjects } from '../data/objects';
+import { rawLocations } from '../data/locations';
+import { rawEvidenceGroups } from '../data/evidenceGroups';
+import { storyTitle, storyInfo, canonicalTimeline, caseFileTitle, caseFileAnchors } from '../data/storyInfo';
+import { rawNarrativeTriggers } from '../data/narrativeTriggers';
+import { transformStoryData, RawStoryContent } from '../data/transform';
+import { StoryDataSchema, formatStoryDataIssues } from '../data/schemas';
+
+const OUTPUT_PATH = resolve(dirname(fileURLToPath(import.meta.url)), '../data/compiled/content.json');
+const STRICT = process.argv.includes('--strict');
+
+const main = async () => {
+  const raw: RawStoryContent = {
+    title: storyTitle,
+    storyInfo,
+    canonicalTimeline,
+    // The character and location modules are untyped literals, so unions like `role` widen to `string`.
+    characters: rawCharacters as RawStoryContent['characters'],
+    objects: rawObjects,
+    locations: rawLocations as RawStoryContent['locations'],
+    evidenceGroups: rawEvidenceGroups,
+    caseFile: { title: caseFileTitle, anchors: caseFileAnchors },
+    narrativeTriggers: rawNarrativeTriggers,
+  };
+
+  const storyData = transformStoryData(raw);
+
+  // --- VALIDATION GATE ---
+  // Broken references are authoring bugs. The current content still has hotspots pointing at objects
+  // that were never written, so they are reported as warnings unless `--strict` is passed.
+  const validation = StoryDataSchema.safeParse(storyData);
+  if (!validation.success) {
+    const issues = formatStoryDataIssues(validation.error);
+    const log = STRICT ? console.error : console.warn;
+    log(`[compileContent] Story data failed validation with ${issues.length} issue(s):`);
+    issues.forEach(issue => log(`  - ${issue}`));
+    if (STRICT) process.exit(1);
+  }
+
+  await mkdir(dirname(OUTPUT_PATH), { recursive: true });
+  await writeFile(OUTPUT_PATH, `${JSON.stringify(storyData, null, 2)}\n`, 'utf8');
+
+  console.log(`[compileContent] Wrote ${OUTPUT_PATH}`);
+  console.log(`[compileContent] ${storyData.characters.length} characters, ${storyData.objects.length} objects, ` +
+    `${storyData.locations.length} locations, ${storyData.evidenceGroups.length} evidence groups, ` +
+    `${storyData.caseFile.clues.length} case file clues, ${storyData.narrativeTriggers.length} narrative triggers.`);
+};
+
+main().catch(error => {
+  console.error('[compileContent] Failed to compile story content:', error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+/**
+ * @file services/adaCacheService.ts
+ * @description Caches ADA's card analyses in IndexedDB, so revisiting a card shows what ADA said
+ * about it last time instead of asking the AI again.
+ *
+ * @architectural_note
+ * An analysis is only reusable while everything it was based on still holds, so the cache key
+ * covers the story, the card, the player's action, the exact context sent, the AI provider, the
+ * version of ADA's prompt template and the narrative flags that are set. Flags are the engine's record of what the player has learned; once
+ * one changes, ADA may have something new to say about every card, and stale analyses simply stop
+ * being looked up. Nothing is invalidated explicitly; the oldest entries are evicted once the cache
+ * grows past `ADA_CONFIG.ANALYSIS_CACHE_MAX_ENTRIES`.
+ */
+
+import { ADAAnalysisCacheEntry, PlayerAction } from '../types';
+import { dbService } from './dbService';
+import { hashString } from './hash';
+import { AI_PROVIDER_ID } from './aiService';
+import { getPromptTemplateRef } from './ai/promptRegistry';
+import { ADA_CONFIG } from '../config';
+
+/** What an analysis is about, and the state it was given in. */
+export interface ADAAnalysisSubject {
+    storyId: string;
+    cardId: string;
+    action: PlayerAction;
+    flags: { [flag: string]: boolean };
+    contextDetails: string;
+    imagePrompt?: string;
+}
+
+/** Drops the oldest analyses once the cache holds more than its configured maximum. */
+const evictOldest = async () => {
+    const entries = await dbService.getAllAdaAnalyses();
+    const excess = entries.length - ADA_CONFIG.ANALYSIS_CACHE_MAX_ENTRIES;
+    if (excess <= 0) return;
+    const oldest = [...entries].sort((a, b) => a.cachedAt.localeCompare(b.cachedAt)).slice(0, excess);
+    await dbService.deleteAdaAnalyses(oldest.map(entry => entry.id));
+};
+
+export const adaCacheService = {
+    /**
+     * Computes the key an analysis is stored under.
+     * @param {ADAAnalysisSubject} subject - The card, action and narrative state being analysed.
+     * @returns {string} The cache key, namespaced by story and card.
+     */
+    getCacheKey(subject: ADAAnalysisSubject): string {
+        // An unset flag and one set to false read the same to the narrative engine.
+        const setFlags = Object.keys(subject.flags).filter(flag => subject.flags[flag]).sort();
+        const fingerprint = hashString(JSON.stringify([
+            AI_PROVIDER_ID, getPromptTemplateRef('ada.analysis'), subject.action, setFlags, subject.contextDetails, subject.imagePrompt ?? '',
+        ]));
+        return `${subject.storyId}:${subject.cardId}:${fingerprint}`;
+    },
+
+    /**
+     * Looks up a stored analysis.
+     * @param {string} cacheKey - The key from `getCacheKey`.
+     * @returns {Promise<ADAAnalysisCacheEntry | undefined>} The analysis, or undefined if there is none.
+     */
+    getAnalysis(cacheKey: string): Promise<ADAAnalysisCacheEntry | undefined> {
+        return dbService.getAdaAnalysis(cacheKey);
+    },
+
+    /**
+     * Stores an analysis, replacing any earlier one under the same key.
+     * @param {string} cacheKey - The key from `getCacheKey`.
+     * @param {string} text - ADA's analysis.
+     * @returns {Promise<ADAAnalysisCacheEntry>} The stored entry.
+     */
+    async saveAnalysis(cacheKey: string, text: string): Promise<ADAAnalysisCacheEntry> {
+        const entry: ADAAnalysisCacheEntry = { id: cacheKey, text, cachedAt: new Date().toISOString() };
+        await dbService.putAdaAnalysis(entry);
+        await evictOldest();
+        return entry;
+    },
+};
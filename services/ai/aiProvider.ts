@@ -0,0 +1,184 @@
+/**
+ * @file services/ai/aiProvider.ts
+ * @description The contract every AI backend implements: ADA's commentary, interrogation chat, image
+ * generation, hotspot vision and the final timeline evaluation.
+ *
+ * @architectural_note
+ * Providers work at the level of game tasks rather than raw completions, because not every backend is
+ * a language model: the offline provider answers from story data, and a local server may not generate
+ * images at all. Failure semantics are part of the contract. `getADAResponse` and
+ * `InterviewChat.sendMessage` throw, so the caller can surface the error; the other methods resolve
+ * to `null` (or a fallback string), and the game carries on without that feature.
+ *
+ * ADA's responses can be streamed: a provider reports the text received so far through
+ * `ADAStreamOptions.onText` and stops when the signal aborts. Providers that can't stream (or, like
+ * the offline provider, have nothing to wait for) just resolve with the whole answer.
+ */
+
+import { z } from 'zod';
+import { ADARequest, Character, DialogueData, DialogueChatTurn, Evidence, CanonicalTimeline, TimelineEvaluation, ImageColorTreatment } from '../../types';
+
+export type AIProviderId = 'gemini' | 'openai' | 'offline' | 'replay';
+
+/** Each kind of request a provider makes, for retry budgets and fixture keys. */
+export type AIEndpoint =
+    | 'getADAResponse'
+    | 'interviewMessage'
+    | 'generateImage'
+    | 'analyzeImageForHotspots'
+    | 'summarizePlayerTimeline'
+    | 'evaluateTimeline';
+
+/** A generated image, as base64 bytes. */
+export interface GeneratedImage {
+    mimeType: string;
+    bytes: string;
+}
+
+/** Something hotspot vision should find in a location image. */
+export interface HotspotItem {
+    id: string;
+    label: string;
+    hint?: string;
+}
+
+/** Item IDs mapped to the normalized (0.0-1.0) center of the item in the image. */
+export type HotspotLocations = { [id: string]: { x: number; y: number } };
+
+/** The accusation the player submits for evaluation. */
+export interface TimelineSubmission {
+    suspectId: string;
+    evidenceIds: string[];
+}
+
+/** How a caller follows an ADA response as it is generated. */
+export interface ADAStreamOptions {
+    /** Called with all the text received so far, each time more arrives. */
+    onText?: (textSoFar: string) => void;
+    /** Cancels the request; the response then rejects with the signal's reason (an `AbortError`). */
+    signal?: AbortSignal;
+}
+
+/** What a provider needs to start an interview or interrogation. */
+export interface InterviewRequest {
+    /**
+     * The character's authored persona. Providers render it through the `character.persona`
+     * template, which appends the JSON reply format, before using it as the system instruction.
+     */
+    persona: string;
+    /** Earlier turns to replay, so a resumed session remembers what was said. */
+    history: DialogueChatTurn[];
+    character: Character;
+    dialogue: DialogueData;
+}
+
+/** A stateful conversation with one character. */
+export interface InterviewChat {
+    /**
+     * Sends the player's message and resolves to the character's raw reply, which should contain the
+     * JSON object described in the system instruction.
+     * @param {string} message - The message to send.
+     * @param {string} [template] - The `ref` of the prompt template the message was rendered from, if
+     * any, for the usage log. Player messages omit it and are logged under the persona template.
+     */
+    sendMessage(message: string, template?: string): Promise<string>;
+    /** The conversation so far, without failed turns, for storing and replaying later. */
+    getTranscript(): DialogueChatTurn[];
+}
+
+export interface AIProvider {
+    id: AIProviderId;
+    /** The image model in use. Part of each cached image's fingerprint. */
+    imageModel: string;
+    getADAResponse(request: ADARequest, stream?: ADAStreamOptions): Promise<string>;
+    startInterviewChat(request: InterviewRequest): InterviewChat;
+    generateImage(prompt: string, colorTreatment: ImageColorTreatment): Promise<GeneratedImage | null>;
+    analyzeImageForHotspots(base64Image: string, itemsToFind: HotspotItem[]): Promise<HotspotLocations | null>;
+    summarizePlayerTimeline(evidence: Evidence[], suspectName: string): Promise<string>;
+    evaluateTimeline(submission: TimelineSubmission, groundTruth: CanonicalTimeline, suspectName: string): Promise<TimelineEvaluation | null>;
+}
+
+/**
+ * Pulls the outermost JSON object or array out of a model's reply, ignoring any prose or code fences
+ * around it.
+ * @param {string} text - The raw reply.
+ * @param {'{' | '['} [open='{'] - Whether an object or an array is expected.
+ * @returns {unknown} The parsed JSON.
+ * @throws If the reply contains no parsable JSON.
+ */
+export const extractJson = (text: string, open: '{' | '[' = '{'): unknown => {
+    const close = open === '{' ? '}' : ']';
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start === -1 || end < start) {
+        throw new Error("No valid JSON found in AI response.");
+    }
+    return JSON.parse(text.substring(start, end + 1));
+};
+
+// --- INTERROGATION PROTOCOL ---
+// Every interview and interrogation reply is one JSON object of this shape. The `character.persona`
+// prompt template describes it in prose; providers that support structured output enforce it as well.
+
+const InsightSchema = z.object({
+    justification: z.string().min(1),
+    newLead: z.string().min(1),
+});
+
+const InterrogationChunkSchema = z.object({
+    text: z.string().min(1),
+    isCriticalClue: z.boolean().optional(),
+    insight: InsightSchema.optional(),
+});
+
+/**
+ * The expected structure of a valid JSON response from the interrogation AI.
+ */
+export const InterrogationResponseSchema = z.object({
+    chunks: z.array(InterrogationChunkSchema).min(1),
+    nextSuggestedQuestions: z.array(z.string()),
+    phaseUpdate: z.object({ progressValue: z.number() }),
+    phaseCompleted: z.boolean().optional(),
+    adaFeedback: z.string().min(1),
+});
+
+export type InterrogationResponse = z.infer<typeof InterrogationResponseSchema>;
+
+/** Reads the value at a validation issue's path, to tell a missing field from a malformed one. */
+const valueAt = (value: unknown, path: PropertyKey[]): unknown =>
+    path.reduce<unknown>((current, key) => (current as Record<PropertyKey, unknown> | undefined)?.[key], value);
+
+/**
+ * Parses a character's raw reply into an interrogation response, validating every field.
+ * @param {string} reply - The reply from `InterviewChat.sendMessage`.
+ * @returns {InterrogationResponse} The structured response.
+ * @throws If the reply has no JSON object, or a field is missing or malformed. The message names
+ * each offending field, so it can be sent back to the model in a repair request.
+ */
+export const parseInterrogationResponse = (reply: string): InterrogationResponse => {
+    const parsed = extractJson(reply);
+    const result = InterrogationResponseSchema.safeParse(parsed);
+    if (result.success) {
+        return result.data;
+    }
+
+    const fieldName = (path: PropertyKey[]) => path.map(String).join('.') || '(root)';
+    const missing = result.error.issues.filter(issue => issue.path.length > 0 && valueAt(parsed, issue.path) === undefined);
+    const malformed = result.error.issues.filter(issue => !missing.includes(issue));
+    const problems = [
+        missing.length > 0 && `Parsed JSON from AI is missing required fields: ${missing.map(issue => fieldName(issue.path)).join(', ')}.`,
+        malformed.length > 0 && `Malformed fields: ${malformed.map(issue => `${fieldName(issue.path)} (${issue.message})`).join('; ')}.`,
+    ].filter(Boolean);
+    throw new Error(problems.join(' '));
+};
+
+/**
+ * Converts a list of located items into a lookup by item ID.
+ * @param {Array<{ id: string; x: number; y: number }>} items - The items the model found.
+ * @returns {HotspotLocations} The same positions, keyed by ID.
+ */
+export const toHotspotLocations = (items: Array<{ id: string; x: number; y: number }>): HotspotLocations =>
+    items.reduce((acc, item) => {
+        acc[item.id] = { x: item.x, y: item.y };
+        return acc;
+    }, {} as HotspotLocations);
@@ -0,0 +1,165 @@
+/**
+ * @file services/ai/fixtureProvider.ts
+ * @description Record-and-replay for AI calls. The recording provider wraps a real one and captures
+ * every request and response; the replay provider serves those captures back, looked up by a hash of
+ * the request.
+ *
+ * @architectural_note
+ * Fixtures are recorded at the provider boundary, so a replayed reply still goes through the same
+ * parsing as a live one. A malformed interrogation reply, for instance, is stored as the raw text the
+ * model sent and fails in `getInterrogationResponse` again on replay, exactly as it did for the player.
+ * Thrown errors are recorded too and rethrown on replay, except cancellations, which say nothing about
+ * the request. Chats are keyed on the persona, the transcript so far and the new message, so a
+ * conversation replays turn by turn. Replayed ADA responses arrive whole rather than streamed.
+ */
+
+import { AIEndpoint, AIProvider, AIProviderId, InterviewChat } from './aiProvider';
+import { hashString } from '../hash';
+import { DialogueChatTurn, Evidence } from '../../types';
+
+export type AIFixtureMethod = AIEndpoint;
+
+/** One recorded call: the request, and either what it resolved to or the error it threw. */
+export interface AIFixture {
+    method: AIFixtureMethod;
+    request: unknown;
+    response?: unknown;
+    error?: string;
+}
+
+/** A fixture file, as downloaded from a recording session. */
+export interface AIFixtureFile {
+    version: 1;
+    /** The provider the fixtures were recorded from. */
+    provider: AIProviderId;
+    recordedAt: string;
+    fixtures: { [key: string]: AIFixture };
+}
+
+/**
+ * Computes the key a call is recorded and replayed under.
+ * @param {AIFixtureMethod} method - The call.
+ * @param {unknown} request - Its serializable request.
+ * @returns {string} The fixture key.
+ */
+export const getFixtureKey = (method: AIFixtureMethod, request: unknown): string =>
+    `${method}:${hashString(JSON.stringify(request))}`;
+
+/** The request a chat turn is keyed on. Character data is left out; the persona already identifies it. */
+const interviewMessageRequest = (persona: string, transcript: DialogueChatTurn[], message: string) =>
+    ({ persona, transcript, message });
+
+/** An image is keyed on a hash of its bytes, so fixtures don't carry the full image twice. */
+const hotspotRequest = (base64Image: string, itemsToFind: unknown) =>
+    ({ imageHash: hashString(base64Image), itemsToFind });
+
+/** Only the evidence fields the summary uses, so unrelated card state doesn't change the key. */
+const summaryRequest = (evidence: Evidence[], suspectName: string) =>
+    ({ evidence: evidence.map(({ name, timestampCollected }) => ({ name, timestampCollected })), suspectName });
+
+/**
+ * Wraps a provider so every call through it is captured.
+ * @param {AIProvider} provider - The provider doing the real work.
+ * @returns {{ provider: AIProvider, getFixtureFile: () => AIFixtureFile }} The recording provider, and a way to read out what it has captured.
+ */
+export const createRecordingProvider = (provider: AIProvider): { provider: AIProvider, getFixtureFile: () => AIFixtureFile } => {
+    const fixtures: { [key: string]: AIFixture } = {};
+
+    const record = async <T>(method: AIFixtureMethod, request: unknown, call: () => Promise<T>): Promise<T> => {
+        const key = getFixtureKey(method, request);
+        try {
+            const response = await call();
+            fixtures[key] = { method, request, response };
+            return response;
+        } catch (error) {
+            if ((error as Error | undefined)?.name !== 'AbortError') {
+                fixtures[key] = { method, request, error: (error as Error).message };
+            }
+            throw error;
+        }
+    };
+
+    const recordingProvider: AIProvider = {
+        id: provider.id,
+        imageModel: provider.imageModel,
+        getADAResponse: (request, stream) =>
+            record('getADAResponse', request, () => provider.getADAResponse(request, stream)),
+        startInterviewChat(request) {
+            const chat = provider.startInterviewChat(request);
+            return {
+                sendMessage: (message, template) =>
+                    record('interviewMessage', interviewMessageRequest(request.persona, chat.getTranscript(), message), () => chat.sendMessage(message, template)),
+                getTranscript: () => chat.getTranscript(),
+            };
+        },
+        generateImage: (prompt, colorTreatment) =>
+            record('generateImage', { prompt, colorTreatment }, () => provider.generateImage(prompt, colorTreatment)),
+        analyzeImageForHotspots: (base64Image, itemsToFind) =>
+            record('analyzeImageForHotspots', hotspotRequest(base64Image, itemsToFind), () => provider.analyzeImageForHotspots(base64Image, itemsToFind)),
+        summarizePlayerTimeline: (evidence, suspectName) =>
+            record('summarizePlayerTimeline', summaryRequest(evidence, suspectName), () => provider.summarizePlayerTimeline(evidence, suspectName)),
+        evaluateTimeline: (submission, groundTruth, suspectName) =>
+            record('evaluateTimeline', { submission, groundTruth, suspectName }, () => provider.evaluateTimeline(submission, groundTruth, suspectName)),
+    };
+
+    return {
+        provider: recordingProvider,
+        getFixtureFile: () => ({ version: 1, provider: provider.id, recordedAt: new Date().toISOString(), fixtures: { ...fixtures } }),
+    };
+};
+
+/**
+ * Creates a provider that answers only from recorded fixtures.
+ * A call with no fixture throws if its method is allowed to (ADA and chat turns); the others log the
+ * miss and resolve to `null`, or the usual fallback summary, as a failed live call would.
+ * @param {AIFixtureFile | Promise<AIFixtureFile>} fixtureFile - The fixtures, or a promise of them while they load.
+ * @returns {AIProvider} The replay provider.
+ */
+export const createReplayProvider = (fixtureFile: AIFixtureFile | Promise<AIFixtureFile>): AIProvider => {
+    const loaded = Promise.resolve(fixtureFile);
+    // Reported once here; each replayed call then fails with the same error.
+    loaded.catch(error => console.error(error));
+
+    const replay = async <T>(method: AIFixtureMethod, request: unknown): Promise<T> => {
+        const key = getFixtureKey(method, request);
+        const fixture = (await loaded).fixtures[key];
+        if (!fixture) {
+            throw new Error(`No recorded AI fixture for ${method} (${key}).`);
+        }
+        if (fixture.error !== undefined) {
+            throw new Error(fixture.error);
+        }
+        return fixture.response as T;
+    };
+
+    const replayOr = async <T>(method: AIFixtureMethod, request: unknown, fallback: T): Promise<T> => {
+        try {
+            return await replay<T>(method, request);
+        } catch (error) {
+            console.error(error);
+            return fallback;
+        }
+    };
+
+    return {
+        id: 'replay',
+        imageModel: 'replay',
+        getADAResponse: (request) => replay('getADAResponse', request),
+        startInterviewChat({ persona, history }): InterviewChat {
+            const turns: DialogueChatTurn[] = [...history];
+            return {
+                async sendMessage(message) {
+                    const reply = await replay<string>('interviewMessage', interviewMessageRequest(persona, turns, message));
+                    turns.push({ role: 'user', text: message }, { role: 'model', text: reply });
+                    return reply;
+                },
+                getTranscript: () => [...turns],
+            };
+        },
+        generateImage: (prompt, colorTreatment) => replayOr('generateImage', { prompt, colorTreatment }, null),
+        analyzeImageForHotspots: (base64Image, itemsToFind) => replayOr('analyzeImageForHotspots', hotspotRequest(base64Image, itemsToFind), null),
+        summarizePlayerTimeline: (evidence, suspectName) =>
+            replayOr('summarizePlayerTimeline', summaryRequest(evidence, suspectName), "Could not generate case summary due to a system error."),
+        evaluateTimeline: (submission, groundTruth, suspectName) => replayOr('evaluateTimeline', { submission, groundTruth, suspectName }, null),
+    };
+};
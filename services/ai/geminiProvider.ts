@@ -0,0 +1,270 @@
+/**
+ * @file services/ai/geminiProvider.ts
+ * @description The Google Gemini implementation of `AIProvider`: Gemini Flash for text, chat and
+ * vision, and Imagen for images. Every API call goes through the shared request policy, which
+ * retries rate limits and outages.
+ */
+
+import { GoogleGenAI, Type, Chat, Schema } from "@google/genai";
+import { AIProvider, InterviewChat, extractJson, toHotspotLocations } from './aiProvider';
+import { RequestPolicy, classifyAIError, createAIRequestError } from './requestPolicy';
+import { renderPrompt } from './promptRegistry';
+import { TimelineEvaluation } from '../../types';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+
+/**
+ * The interrogation protocol (`InterrogationResponseSchema`) as a Gemini response schema, so the
+ * model can only answer in that shape. Replies are still validated, since a schema can't require
+ * non-empty text.
+ */
+const INTERROGATION_RESPONSE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        chunks: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    text: { type: Type.STRING },
+                    isCriticalClue: { type: Type.BOOLEAN },
+                    insight: {
+                        type: Type.OBJECT,
+                        properties: {
+                            justification: { type: Type.STRING },
+                            newLead: { type: Type.STRING }
+                        },
+                        required: ['justification', 'newLead']
+                    }
+                },
+                required: ['text']
+            }
+        },
+        phaseUpdate: {
+            type: Type.OBJECT,
+            properties: { progressValue: { type: Type.NUMBER } },
+            required: ['progressValue']
+        },
+        phaseCompleted: { type: Type.BOOLEAN },
+        nextSuggestedQuestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+        adaFeedback: { type: Type.STRING }
+    },
+    required: ['chunks', 'phaseUpdate', 'nextSuggestedQuestions', 'adaFeedback']
+};
+
+/**
+ * Wraps a Gemini chat session as an `InterviewChat`.
+ * @param {Chat} chat - The Gemini chat session.
+ * @param {RequestPolicy} policy - The policy each message is sent through.
+ * @param {string} personaTemplate - The `ref` of the persona template the chat was started with, for the usage log.
+ * @returns {InterviewChat} The session behind the provider-neutral interface.
+ */
+const toInterviewChat = (chat: Chat, policy: RequestPolicy, personaTemplate: string): InterviewChat => ({
+    sendMessage(message, template = personaTemplate) {
+        // A failed send leaves the chat's history untouched, so the message can simply be sent again.
+        return policy.run('interviewMessage', async () => {
+            const responseStream = await chat.sendMessageStream({ message });
+            let accumulated = '';
+            // Accumulate the streaming response into a single string.
+            for await (const chunk of responseStream) {
+                accumulated += chunk.text;
+            }
+            return accumulated;
+        }, { model: TEXT_MODEL, promptChars: message.length, template });
+    },
+    // Only the curated history is kept, so failed or blocked turns aren't replayed.
+    getTranscript() {
+        return chat.getHistory(true).map(content => ({
+            role: content.role === 'model' ? 'model' : 'user',
+            text: (content.parts || []).map(part => part.text || '').join(''),
+        }));
+    },
+});
+
+/**
+ * Creates the Gemini provider.
+ * @param {string} apiKey - The Gemini API key.
+ * @param {RequestPolicy} policy - The retry policy every call goes through.
+ * @returns {AIProvider} The provider.
+ */
+export const createGeminiProvider = (apiKey: string, policy: RequestPolicy): AIProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+        imageModel: IMAGE_MODEL,
+
+        async getADAResponse(request, stream) {
+            const prompt = renderPrompt('ada.analysis', request);
+            try {
+                return await policy.run('getADAResponse', async () => {
+                    const chunks = await ai.models.generateContentStream({
+                        model: TEXT_MODEL,
+                        contents: prompt.text,
+                        config: {
+                            temperature: 0.7, // A balance between creativity and determinism.
+                            topP: 0.9,
+                            abortSignal: stream?.signal,
+                        }
+                    });
+                    // A retried stream starts over, replacing whatever the failed attempt had shown.
+                    let text = '';
+                    for await (const chunk of chunks) {
+                        text += chunk.text ?? '';
+                        stream?.onText?.(text);
+                    }
+                    return text;
+                }, { model: TEXT_MODEL, promptChars: prompt.text.length, template: prompt.ref, signal: stream?.signal });
+            } catch (error) {
+                if (stream?.signal?.aborted) throw stream.signal.reason;
+                console.error("Error fetching ADA response:", error);
+                // Re-throw the error to be handled by the calling Redux thunk, which can update the state.
+                throw new Error("Communication with analytical core failed.");
+            }
+        },
+
+        startInterviewChat({ persona, dialogue, history }) {
+            const systemPrompt = renderPrompt('character.persona', { persona, mode: dialogue.mode });
+            return toInterviewChat(ai.chats.create({
+                model: TEXT_MODEL,
+                config: {
+                    systemInstruction: systemPrompt.text,
+                    temperature: 0.8,
+                    topK: 40,
+                    responseMimeType: 'application/json',
+                    responseSchema: INTERROGATION_RESPONSE_SCHEMA,
+                },
+                history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+            }), policy, systemPrompt.ref);
+        },
+
+        /**
+         * Generates an image with Imagen. Besides rate limits and outages, a response without image
+         * data (usually filtered content) is retried too, since a second attempt often succeeds.
+         */
+        async generateImage(prompt, colorTreatment) {
+            const isMap = colorTreatment === 'map';
+            const fullPrompt = renderPrompt('image.style', { prompt, colorTreatment });
+
+            const request = {
+                model: IMAGE_MODEL,
+                prompt: fullPrompt.text,
+                config: {
+                    numberOfImages: 1,
+                    outputMimeType: 'image/jpeg',
+                    aspectRatio: isMap ? '16:9' : '3:4',
+                }
+            };
+
+            try {
+                return await policy.run('generateImage', async () => {
+                    const response = await ai.models.generateImages(request);
+
+                    if (response?.generatedImages?.length > 0 && response.generatedImages[0].image?.imageBytes) {
+                        const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
+                        return { mimeType: 'image/jpeg', bytes: base64ImageBytes };
+                    }
+                    console.warn("Unexpected API response for image generation:", JSON.stringify(response, null, 2));
+                    const failureReason = response?.generatedImages?.[0]?.raiFilteredReason
+                        ? `filtered due to ${response.generatedImages[0].raiFilteredReason}`
+                        : 'no image data was returned';
+                    throw createAIRequestError(`Image generation succeeded but ${failureReason}.`, 'transient');
+                }, { model: IMAGE_MODEL, promptChars: fullPrompt.text.length, template: fullPrompt.ref, subject: prompt });
+            } catch (error) {
+                const { kind } = classifyAIError(error);
+                const finalErrorReason = kind === 'quota' ? "Daily quota likely exceeded"
+                    : kind === 'circuitOpen' ? "AI requests paused"
+                    : kind === 'transient' ? "Service unavailable or content filtered after multiple retries"
+                    : "An unknown error";
+                let userFriendlyMessage = `Unrecoverable error during image generation (${finalErrorReason}).`;
+                if (kind === 'quota') {
+                    userFriendlyMessage += " The AI Usage dashboard (from the System Log) shows what used it. Check your API plan and billing details. For more info, visit: https://ai.google.dev/gemini-api/docs/rate-limits";
+                }
+                console.error(userFriendlyMessage, error);
+                return null;
+            }
+        },
+
+        async analyzeImageForHotspots(base64Image, itemsToFind) {
+            try {
+                const imagePart = {
+                    inlineData: {
+                        mimeType: 'image/jpeg',
+                        data: base64Image,
+                    },
+                };
+
+                const prompt = renderPrompt('hotspot.analysis', { items: itemsToFind });
+                const text = await policy.run('analyzeImageForHotspots', async () => (await ai.models.generateContent({
+                    model: TEXT_MODEL,
+                    contents: { parts: [imagePart, { text: prompt.text }] },
+                    config: {
+                        responseMimeType: "application/json",
+                        responseSchema: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    id: { type: Type.STRING },
+                                    x: { type: Type.NUMBER },
+                                    y: { type: Type.NUMBER }
+                                },
+                                required: ['id', 'x', 'y']
+                            }
+                        }
+                    }
+                })).text, { model: TEXT_MODEL, promptChars: prompt.text.length + base64Image.length, template: prompt.ref });
+
+                return toHotspotLocations(extractJson(text, '[') as Array<{ id: string, x: number, y: number }>);
+            } catch (error) {
+                console.error("Error analyzing image for hotspots:", error);
+                return null;
+            }
+        },
+
+        async summarizePlayerTimeline(evidence, suspectName) {
+            try {
+                const prompt = renderPrompt('timeline.summary', { evidence, suspectName });
+                return await policy.run('summarizePlayerTimeline', async () => (await ai.models.generateContent({
+                    model: TEXT_MODEL,
+                    contents: prompt.text,
+                    config: { temperature: 0.5 }
+                })).text, { model: TEXT_MODEL, promptChars: prompt.text.length, template: prompt.ref });
+            } catch (error) {
+                console.error("Error summarizing timeline:", error);
+                return "Could not generate case summary due to a system error.";
+            }
+        },
+
+        async evaluateTimeline(submission, groundTruth) {
+            try {
+                const prompt = renderPrompt('timeline.evaluation', { submission, groundTruth });
+                const text = await policy.run('evaluateTimeline', async () => (await ai.models.generateContent({
+                    model: TEXT_MODEL,
+                    contents: prompt.text,
+                    config: {
+                        responseMimeType: 'application/json',
+                        responseSchema: {
+                            type: Type.OBJECT,
+                            properties: {
+                                verdict: { type: Type.STRING, enum: ['Case Accepted', 'Case Weak', 'Case Rejected'] },
+                                score: { type: Type.NUMBER },
+                                reasoning: { type: Type.STRING },
+                                strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+                                weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } }
+                            },
+                            required: ['verdict', 'score', 'reasoning', 'strengths', 'weaknesses']
+                        }
+                    }
+                })).text, { model: TEXT_MODEL, promptChars: prompt.text.length, template: prompt.ref });
+
+                return JSON.parse(text.trim()) as TimelineEvaluation;
+
+            } catch (error) {
+                console.error("Error evaluating timeline:", error);
+                return null;
+            }
+        },
+    };
+};
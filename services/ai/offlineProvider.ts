@@ -0,0 +1,170 @@
+/**
+ * @file services/ai/offlineProvider.ts
+ * @description A fully offline, deterministic `AIProvider` that answers from story data, so the game
+ * can be developed and demoed without network access or an API key.
+ *
+ * @architectural_note
+ * Every answer is a pure function of its input: the same question to the same character always gets
+ * the same reply, which also makes the provider handy for reproducing bugs. Replies are chosen with
+ * `hashString` rather than at random. No images are generated; cards render as they do when generation fails.
+ */
+
+import { AIProvider, InterviewRequest, HotspotLocations } from './aiProvider';
+import { hashString } from '../hash';
+import { DialogueChatTurn, LineOfInquiryData, PlayerAction, TimelineEvaluation } from '../../types';
+
+/** ADA's lines, per kind of action. Picked by hashing the context, so they vary from card to card. */
+const ADA_LINES: Record<PlayerAction, string[]> = {
+    [PlayerAction.VIEW_CARD]: [
+        'Every detail here was left by someone. The question is who, and when.',
+        'Look past the obvious. What is missing from this picture may matter more than what is in it.',
+        'This could be where the story turns. Note what feels out of place.',
+    ],
+    [PlayerAction.VIEW_LIST]: [
+        'A web of connections. Each entry holds a piece of the puzzle, but only one holds the key.',
+        'Patterns emerge from lists. Look for what repeats, and for what stands alone.',
+    ],
+    [PlayerAction.TOGGLE_SUSPECT]: [
+        'Suspicion is a tool, not a verdict. Let the evidence decide how long it stays.',
+        'A change of focus. Perhaps something in their story no longer holds together.',
+    ],
+    [PlayerAction.TAP_HOTSPOT]: [
+        'A closer look may reveal what a glance would miss.',
+        'Small things carry weight at a crime scene. This one may be worth logging.',
+    ],
+    [PlayerAction.ASSIGN_EVIDENCE]: [
+        'Logged. This could suggest a link worth testing against the timeline.',
+        'Another thread tied to this suspect. Perhaps it strengthens the case; perhaps it only complicates it.',
+    ],
+    [PlayerAction.VIEW_SOCIAL_MEDIA_FEED]: [
+        'People post the version of themselves they want seen. The gaps between posts may say more.',
+        'Timestamps do not lie, even when captions do.',
+    ],
+    [PlayerAction.FILTER_TIMELINE]: [
+        'Narrowing the view can sharpen it. Watch how the sequence of events changes shape.',
+    ],
+};
+
+/**
+ * Picks one of several options, the same one every time for the same key.
+ * @param {T[]} options - The options to choose from.
+ * @param {string} key - What the choice depends on.
+ * @returns {T} The chosen option.
+ */
+const pick = <T>(options: T[], key: string): T => options[parseInt(hashString(key), 16) % options.length];
+
+/** Splits a block of prose into its sentences. */
+const toSentences = (text: string): string[] => text.match(/[^.!?]+[.!?]+/g)?.map(s => s.trim()) ?? [text];
+
+/**
+ * Finds the line of inquiry a message belongs to, from the label `DialogueCard` prefixes it with.
+ * @param {LineOfInquiryData[]} linesOfInquiry - The character's lines of inquiry.
+ * @param {string} message - The player's message.
+ * @returns {LineOfInquiryData | undefined} The active line of inquiry, if any.
+ */
+const findLineOfInquiry = (linesOfInquiry: LineOfInquiryData[], message: string) =>
+    linesOfInquiry.find(loi => message.includes(`"${loi.label}"`));
+
+/**
+ * Builds a character's scripted reply, in the JSON shape the interrogation personas ask for.
+ * Statements come from the character's own description; an interrogation phase completes once the
+ * player has asked as many questions on that line of inquiry as it has opening questions.
+ */
+const buildInterviewReply = ({ character, dialogue }: InterviewRequest, turns: DialogueChatTurn[], message: string): string => {
+    const statements = toSentences(character.description);
+    const loi = findLineOfInquiry(dialogue.interrogation?.linesOfInquiry ?? [], message);
+    const askedOnLoi = loi ? turns.filter(turn => turn.role === 'user' && findLineOfInquiry([loi], turn.text)).length + 1 : 0;
+    const candidateQuestions = loi?.initialQuestions ?? dialogue.suggestedQuestions ?? [];
+
+    return JSON.stringify({
+        chunks: [
+            { text: pick(statements, `${character.id}\n${message}`), isCriticalClue: false },
+            { text: `You know who I am. ${character.name}, ${character.occupation}. That's all I can tell you right now.`, isCriticalClue: false },
+        ],
+        nextSuggestedQuestions: candidateQuestions.filter(question => !message.includes(question)).slice(0, 3),
+        phaseUpdate: { progressValue: loi ? Math.round(100 / Math.max(1, loi.initialQuestions.length)) : 0 },
+        phaseCompleted: !!loi && askedOnLoi >= loi.initialQuestions.length,
+        adaFeedback: loi ? `Stay on "${loi.label}". Every answer narrows the gap.` : 'Noted. Listen for what they leave out.',
+    });
+};
+
+/**
+ * Creates the offline provider.
+ * @returns {AIProvider} The provider.
+ */
+export const createOfflineProvider = (): AIProvider => ({
+    id: 'offline',
+    imageModel: 'offline',
+
+    async getADAResponse(request) {
+        // A scripted directive is the story's own beat for this moment, so it takes precedence.
+        if (request.directives.length > 0) return request.directives.join(' ');
+        return pick(ADA_LINES[request.action], `${request.action}\n${request.contextDetails}`);
+    },
+
+    startInterviewChat(request) {
+        const turns: DialogueChatTurn[] = [...request.history];
+        return {
+            async sendMessage(message) {
+                const reply = buildInterviewReply(request, turns, message);
+                turns.push({ role: 'user', text: message }, { role: 'model', text: reply });
+                return reply;
+            },
+            getTranscript() {
+                return [...turns];
+            },
+        };
+    },
+
+    async generateImage() {
+        return null;
+    },
+
+    /** Spreads the items evenly across the middle of the image, in the order given. */
+    async analyzeImageForHotspots(_base64Image, itemsToFind) {
+        const columns = Math.ceil(Math.sqrt(itemsToFind.length));
+        const rows = Math.ceil(itemsToFind.length / columns);
+        return itemsToFind.reduce((acc, item, i) => {
+            acc[item.id] = {
+                x: 0.2 + (0.6 * ((i % columns) + 0.5)) / columns,
+                y: 0.25 + (0.5 * (Math.floor(i / columns) + 0.5)) / rows,
+            };
+            return acc;
+        }, {} as HotspotLocations);
+    },
+
+    async summarizePlayerTimeline(evidence, suspectName) {
+        const items = evidence.map(e => e.name);
+        return items.length > 0
+            ? `The evidence points to ${suspectName}. It begins with ${items[0]}${items.length > 1 ? `, runs through ${items.slice(1, -1).join(', ') || 'the record'}, and ends with ${items[items.length - 1]}` : ''}. Together, it tells a story that is hard to explain away.`
+            : `The case against ${suspectName} rests on no logged evidence.`;
+    },
+
+    /** Scores the accusation the way the evaluation prompt describes: suspect, key events covered, irrelevant items. */
+    async evaluateTimeline(submission, groundTruth, suspectName) {
+        const submitted = new Set(submission.evidenceIds);
+        const keyIds = new Set(groundTruth.keyEvents.map(event => event.objectId));
+        const found = groundTruth.keyEvents.filter(event => submitted.has(event.objectId));
+        const missed = groundTruth.keyEvents.filter(event => !submitted.has(event.objectId));
+        const irrelevantCount = submission.evidenceIds.filter(id => !keyIds.has(id)).length;
+        const isCorrectSuspect = submission.suspectId === groundTruth.culpritId;
+
+        const coverage = groundTruth.keyEvents.length > 0 ? found.length / groundTruth.keyEvents.length : 1;
+        const score = Math.max(0, Math.min(100, Math.round((isCorrectSuspect ? 40 : 0) + 60 * coverage - 5 * irrelevantCount)));
+        const verdict: TimelineEvaluation['verdict'] = score > 85 ? 'Case Accepted' : score >= 50 ? 'Case Weak' : 'Case Rejected';
+
+        return {
+            verdict,
+            score,
+            reasoning: isCorrectSuspect
+                ? `The evidence against ${suspectName} covers ${found.length} of ${groundTruth.keyEvents.length} key events.`
+                : `The evidence does not support charging ${suspectName}.`,
+            strengths: found.map(event => `Established: ${event.description}`),
+            weaknesses: [
+                ...(isCorrectSuspect ? [] : ['The accused is not the person the evidence points to.']),
+                ...missed.map(event => `Missing: ${event.description}`),
+                ...(irrelevantCount > 0 ? [`${irrelevantCount} submitted item(s) have no bearing on the case.`] : []),
+            ],
+        };
+    },
+});
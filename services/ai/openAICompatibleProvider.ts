@@ -0,0 +1,216 @@
+/**
+ * @file services/ai/openAICompatibleProvider.ts
+ * @description An `AIProvider` for any server that speaks the OpenAI chat completions API, such as a
+ * local llama.cpp, Ollama or vLLM server.
+ *
+ * @architectural_note
+ * Local models are less reliable at structured output than Gemini and there is no portable way to
+ * pass a response schema, so replies are parsed leniently with `extractJson`. Vision needs a
+ * multimodal model; when the server can't handle the image, hotspot analysis resolves to `null` and
+ * the location falls back to its authored coordinates, as with any other provider failure.
+ */
+
+import { AIEndpoint, AIProvider, ADAStreamOptions, extractJson, toHotspotLocations } from './aiProvider';
+import { RequestPolicy, createAIRequestError } from './requestPolicy';
+import { RenderedPrompt, renderPrompt } from './promptRegistry';
+import { DialogueChatTurn, TimelineEvaluation } from '../../types';
+
+type ChatMessageContent = string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+
+interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: ChatMessageContent;
+}
+
+export interface OpenAICompatibleOptions {
+    /** The API base URL, e.g. `http://localhost:8080/v1`. */
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    /** The image model; without one, `generateImage` resolves to `null` without a request. */
+    imageModel?: string;
+    /** The retry policy every call goes through. */
+    policy: RequestPolicy;
+}
+
+/** The size of a chat prompt in characters, for the usage accounting. The whole conversation is resent each turn, so it all counts. */
+const countPromptChars = (messages: ChatMessage[]): number =>
+    messages.reduce((total, { content }) => total + (typeof content === 'string'
+        ? content.length
+        : content.reduce((sum, part) => sum + (part.type === 'text' ? part.text.length : part.image_url.url.length), 0)), 0);
+
+/** Reads a `Retry-After` header, which is either a number of seconds or an HTTP date. */
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    const ms = isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+    return ms > 0 ? ms : undefined;
+};
+
+/**
+ * Creates a provider for an OpenAI-compatible server.
+ * @param {OpenAICompatibleOptions} options - Where the server is and which models to use.
+ * @returns {AIProvider} The provider.
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey, imageModel, policy }: OpenAICompatibleOptions): AIProvider => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const send = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const kind = response.status === 429 ? 'quota' : response.status >= 500 ? 'transient' : 'fatal';
+            throw createAIRequestError(
+                `${path} failed with HTTP ${response.status}: ${await response.text()}`,
+                kind,
+                parseRetryAfter(response.headers.get('Retry-After')),
+            );
+        }
+        return response;
+    };
+
+    const post = async <T>(path: string, body: object): Promise<T> =>
+        (await send(path, body)).json() as Promise<T>;
+
+    /** `template` is the `ref` of the prompt template the messages were rendered from, for the usage log. */
+    const complete = (endpoint: AIEndpoint, template: string, messages: ChatMessage[], temperature: number): Promise<string> =>
+        policy.run(endpoint, async () => {
+            const data = await post<{ choices: Array<{ message: { content: string | null } }> }>('/chat/completions', { model, messages, temperature });
+            return data.choices[0]?.message?.content ?? '';
+        }, { model, promptChars: countPromptChars(messages), template });
+
+    /** Sends a single rendered prompt as the user's message. */
+    const completePrompt = (endpoint: AIEndpoint, prompt: RenderedPrompt, temperature: number): Promise<string> =>
+        complete(endpoint, prompt.ref, [{ role: 'user', content: prompt.text }], temperature);
+
+    /** Like `complete`, but streamed: the reply arrives as server-sent events, one delta per event. */
+    const completeStreaming = (endpoint: AIEndpoint, prompt: RenderedPrompt, temperature: number, { onText, signal }: ADAStreamOptions): Promise<string> => {
+        const messages: ChatMessage[] = [{ role: 'user', content: prompt.text }];
+        return policy.run(endpoint, () => readStream(messages, temperature, { onText, signal }), { model, promptChars: prompt.text.length, template: prompt.ref, signal });
+    };
+
+    const readStream = async (messages: ChatMessage[], temperature: number, { onText, signal }: ADAStreamOptions): Promise<string> => {
+        const response = await send('/chat/completions', { model, messages, temperature, stream: true }, signal);
+        if (!response.body) {
+            throw new Error("/chat/completions returned no response body to stream.");
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) return text;
+            buffer += decoder.decode(value, { stream: true });
+            // Events are separated by newlines; the last line may still be incomplete.
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                const data = line.slice('data:'.length).trim();
+                if (data === '[DONE]') return text;
+                const event = JSON.parse(data) as { choices: Array<{ delta?: { content?: string | null } }> };
+                const delta = event.choices[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    onText?.(text);
+                }
+            }
+        }
+    };
+
+    return {
+        id: 'openai',
+        imageModel: imageModel || 'none',
+
+        async getADAResponse(request, stream) {
+            try {
+                return await completeStreaming('getADAResponse', renderPrompt('ada.analysis', request), 0.7, stream ?? {});
+            } catch (error) {
+                if (stream?.signal?.aborted) throw stream.signal.reason;
+                console.error("Error fetching ADA response:", error);
+                throw new Error("Communication with analytical core failed.");
+            }
+        },
+
+        startInterviewChat({ persona, dialogue, history }) {
+            const turns: DialogueChatTurn[] = [...history];
+            const systemPrompt = renderPrompt('character.persona', { persona, mode: dialogue.mode });
+            return {
+                async sendMessage(message, template = systemPrompt.ref) {
+                    const reply = await complete('interviewMessage', template, [
+                        { role: 'system', content: systemPrompt.text },
+                        ...turns.map((turn): ChatMessage => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+                        { role: 'user', content: message },
+                    ], 0.8);
+                    // Recorded only once the reply arrives, so a failed turn isn't replayed.
+                    turns.push({ role: 'user', text: message }, { role: 'model', text: reply });
+                    return reply;
+                },
+                getTranscript() {
+                    return [...turns];
+                },
+            };
+        },
+
+        async generateImage(prompt, colorTreatment) {
+            if (!imageModel) return null;
+            const fullPrompt = renderPrompt('image.style', { prompt, colorTreatment });
+            try {
+                const data = await policy.run('generateImage', () => post<{ data: Array<{ b64_json?: string }> }>('/images/generations', {
+                    model: imageModel,
+                    prompt: fullPrompt.text,
+                    n: 1,
+                    size: colorTreatment === 'map' ? '1792x1024' : '1024x1792',
+                    response_format: 'b64_json',
+                }), { model: imageModel, promptChars: fullPrompt.text.length, template: fullPrompt.ref, subject: prompt });
+                const bytes = data.data[0]?.b64_json;
+                return bytes ? { mimeType: 'image/png', bytes } : null;
+            } catch (error) {
+                console.error("Error generating image:", error);
+                return null;
+            }
+        },
+
+        async analyzeImageForHotspots(base64Image, itemsToFind) {
+            try {
+                const prompt = renderPrompt('hotspot.analysis', { items: itemsToFind });
+                const reply = await complete('analyzeImageForHotspots', prompt.ref, [{
+                    role: 'user',
+                    content: [
+                        { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${base64Image}` } },
+                        { type: 'text', text: prompt.text },
+                    ],
+                }], 0);
+                return toHotspotLocations(extractJson(reply, '[') as Array<{ id: string, x: number, y: number }>);
+            } catch (error) {
+                console.error("Error analyzing image for hotspots:", error);
+                return null;
+            }
+        },
+
+        async summarizePlayerTimeline(evidence, suspectName) {
+            try {
+                return await completePrompt('summarizePlayerTimeline', renderPrompt('timeline.summary', { evidence, suspectName }), 0.5);
+            } catch (error) {
+                console.error("Error summarizing timeline:", error);
+                return "Could not generate case summary due to a system error.";
+            }
+        },
+
+        async evaluateTimeline(submission, groundTruth) {
+            try {
+                const reply = await completePrompt('evaluateTimeline', renderPrompt('timeline.evaluation', { submission, groundTruth }), 0.2);
+                return extractJson(reply) as TimelineEvaluation;
+            } catch (error) {
+                console.error("Error evaluating timeline:", error);
+                return null;
+            }
+        },
+    };
+};
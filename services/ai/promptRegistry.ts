@@ -0,0 +1,106 @@
+/**
+ * @file services/ai/promptRegistry.ts
+ * @description The registry every AI prompt is rendered through. Each prompt is a template with an
+ * ID, a version and typed variables, and any of them can be overridden by the case being played.
+ *
+ * @architectural_note
+ * The default templates live in `prompts.ts`; a case overrides one by setting `promptOverrides` on
+ * its `StoryPackage`, and `setPromptOverrides` is called whenever a case is selected. Providers
+ * render each prompt just before sending it and pass the rendered template's `ref` to the request
+ * policy, so every AI usage record names the exact template version that produced it. Bump a
+ * template's version whenever its wording changes, or the usage log can't tell the two apart.
+ */
+
+import { ADARequest, CanonicalTimeline, DialogueData, Evidence, ImageColorTreatment } from '../../types';
+import { HotspotItem, TimelineSubmission } from './aiProvider';
+import { DEFAULT_PROMPT_TEMPLATES } from './prompts';
+
+/** The variables each template is rendered with, by template ID. */
+export interface PromptVariables {
+    /** ADA's comment on a player action. */
+    'ada.analysis': ADARequest;
+    /** The style preamble for an image prompt. Its output is part of each cached image's fingerprint. */
+    'image.style': { prompt: string; colorTreatment: ImageColorTreatment };
+    /** Hotspot vision: where in a location image each item is. */
+    'hotspot.analysis': { items: HotspotItem[] };
+    /** ADA's narrative summary of the player's case. */
+    'timeline.summary': { evidence: Evidence[]; suspectName: string };
+    /** The District Attorney's evaluation of the player's accusation. */
+    'timeline.evaluation': { submission: TimelineSubmission; groundTruth: CanonicalTimeline };
+    /** A character's system instruction: their authored persona, plus the interrogation reply protocol. */
+    'character.persona': { persona: string; mode: DialogueData['mode'] };
+    /** The follow-up sent when a character's reply broke the interrogation protocol. */
+    'interrogation.repair': { problem: string };
+}
+
+export type PromptTemplateId = keyof PromptVariables;
+
+export interface PromptTemplate<K extends PromptTemplateId> {
+    /** Bumped whenever the template's wording changes. */
+    version: number;
+    /** What the prompt is for, shown in the prompt preview panel. */
+    description: string;
+    render(variables: PromptVariables[K]): string;
+}
+
+/** A full set of templates, one per ID. */
+export type PromptTemplateSet = { [K in PromptTemplateId]: PromptTemplate<K> };
+
+/** A case's replacements for some of the default templates. */
+export type PromptOverrides = Partial<PromptTemplateSet>;
+
+/** A rendered prompt, and which template produced it. */
+export interface RenderedPrompt {
+    text: string;
+    /** The template ID and version, plus the case whose override it came from, e.g. `ada.analysis@2` or `ada.analysis@1 (foul-shot)`. */
+    ref: string;
+}
+
+let activeOverrides: { storyId: string; overrides: PromptOverrides } | null = null;
+
+/**
+ * Sets the case whose overrides take precedence over the default templates.
+ * @param {string} storyId - The case's `StoryPackage` ID, which is recorded in each override's `ref`.
+ * @param {PromptOverrides} [overrides] - The case's overrides; none restores the defaults.
+ */
+export const setPromptOverrides = (storyId: string, overrides?: PromptOverrides): void => {
+    activeOverrides = overrides ? { storyId, overrides } : null;
+};
+
+/**
+ * Looks up the template in effect for an ID.
+ * @param {K} id - The template ID.
+ * @returns The template, and the case it was overridden by, if any.
+ */
+export const getPromptTemplate = <K extends PromptTemplateId>(id: K): { template: PromptTemplate<K>; overriddenBy: string | null } => {
+    const override = activeOverrides?.overrides[id] as PromptTemplate<K> | undefined;
+    return override
+        ? { template: override, overriddenBy: activeOverrides!.storyId }
+        : { template: DEFAULT_PROMPT_TEMPLATES[id] as PromptTemplate<K>, overriddenBy: null };
+};
+
+/**
+ * The reference a prompt rendered now would carry, without rendering it.
+ * @param {PromptTemplateId} id - The template ID.
+ * @returns {string} The template ID and version, plus the overriding case, if any.
+ */
+export const getPromptTemplateRef = (id: PromptTemplateId): string => {
+    const { template, overriddenBy } = getPromptTemplate(id);
+    return `${id}@${template.version}${overriddenBy ? ` (${overriddenBy})` : ''}`;
+};
+
+/**
+ * Renders a prompt with the template in effect.
+ * @param {K} id - The template ID.
+ * @param {PromptVariables[K]} variables - The template's variables.
+ * @returns {RenderedPrompt} The prompt, and a reference to the template version that produced it.
+ */
+export const renderPrompt = <K extends PromptTemplateId>(id: K, variables: PromptVariables[K]): RenderedPrompt => {
+    return {
+        text: getPromptTemplate(id).template.render(variables),
+        ref: getPromptTemplateRef(id),
+    };
+};
+
+/** Every template ID, in the order the prompt preview panel lists them. */
+export const PROMPT_TEMPLATE_IDS = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[];
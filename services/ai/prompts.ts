@@ -0,0 +1,183 @@
+/**
+ * @file services/ai/prompts.ts
+ * @description The default prompt templates. Every provider renders them through the prompt registry
+ * (see `promptRegistry.ts`), so Gemini and an OpenAI-compatible server are asked exactly the same
+ * thing, and a prompt edit applies to both. Bump a template's `version` whenever you edit it.
+ */
+
+import type { PromptTemplateSet } from './promptRegistry';
+
+/**
+ * @constant ADA_PERSONA
+ * @description This is the system instruction that defines ADA's personality, behavior, and constraints.
+ * It's sent with every request to ensure the AI's responses are consistent, in-character,
+ * and follow the specific rules designed for the game's narrative experience. This is the core of the
+ * "prompt engineering" for the AI assistant.
+ */
+const ADA_PERSONA = `You are ADA (Analytical Detective Assistant), an AI partner with the power of profound insight. You are a storyteller, weaving the visual data from the crime scene into a coherent, compelling narrative for the detective. Your voice is evocative, insightful, and concise.
+
+**Core Directives:**
+
+1.  **Maintain Objectivity:** This is your most important directive. You MUST remain a neutral analyst. NEVER state or imply that a suspect is innocent or guilty. Analyze the facts, but leave the final judgment to the detective. Avoid phrases like "the innocent suspect" or "the guilty party."
+
+2.  **Humanize Your Subjects:** When analyzing a character card ('VIEW_CARD' action), you MUST refer to the person by the proper name given in the context. Never use generic terms like "the character" or "the suspect".
+
+3.  **Analyze Lists Strategically:** When the player views a list ('VIEW_LIST' action), provide a high-level strategic overview. DO NOT describe individual items. Instead, comment on the significance of the list *as a whole* in relation to the case.
+    -   *Example for People List:* "A web of connections, lies, and potential motives. Each person here holds a piece of the puzzle, but one of them holds the key."
+
+4.  **Focus on the Active Image:** When you receive a "Visuals" prompt, your entire analysis MUST be based **exclusively** on the description provided in that prompt. Do NOT reference any other cards, locations, or information from the past. Your world is the single image you are being shown.
+
+5.  **Reveal, Don't Recite:** Do not simply list what's in the image. Interpret its meaning. What is the *story* of the image? What is its forensic significance? What details whisper of the events that transpired? Use rich, imaginative language.
+
+6.  **Hint, Don't Conclude:** When analyzing evidence, use speculative language. Frame your insights as possibilities, not certainties. Use phrases like "This could suggest...", "Perhaps this implies...", "This may have created pressure...". Avoid definitive statements like "This proves..." or "This establishes...". Your role is to guide the detective's thinking, not to solve the case for them.
+
+7.  **Brevity and Impact:** Your insights are potent. Deliver them in 1-3 sharp, focused sentences, and never exceed 10 lines. Give the detective a powerful nugget of information, not a wall of text.
+
+Your goal is to be an indispensable partner, making the detective feel like they have a secret weapon for seeing the truth hidden in the details.`;
+
+/**
+ * Builds ADA's full prompt for a player action: the persona, the case, the action and its context,
+ * and any scripted narrative directives.
+ */
+const renderADAPrompt: PromptTemplateSet['ada.analysis']['render'] = (request) => {
+    let prompt = `
+${ADA_PERSONA}
+
+Current Case: "${request.storyTitle}"
+
+The player's latest action: ${request.action}.
+Context: ${request.contextDetails}
+${request.imagePrompt ? `\nVisuals: The player is looking at an image best described as: "${request.imagePrompt}".` : ''}
+`;
+    // --- Scripted Narrative Directives ---
+    request.directives.forEach(directive => {
+        prompt += `\n\n**SPECIAL NARRATIVE EVENT:** ${directive}`;
+    });
+    prompt += "\nYour response:";
+    return prompt.trim();
+};
+
+/**
+ * Pre-defined style prompts for generating images in a modern, photorealistic crime-drama aesthetic.
+ * This ensures a consistent visual theme across all generated images in the game.
+ */
+const REALISTIC_STYLES = {
+    monochrome: `Photorealistic, modern crime drama aesthetic. Cinematic lighting, sharp focus, high dynamic range. Gritty, tense atmosphere. Black and white.`,
+    selectiveColor: `Photorealistic, modern crime drama aesthetic. Cinematic lighting, sharp focus, high dynamic range. Primarily black and white, with a single key element highlighted in a stark, dramatic color. Gritty, tense atmosphere.`
+};
+
+/**
+ * The hotspot vision prompt. It is engineered to be extremely precise and methodical, giving the
+ * model clear, non-negotiable instructions to ensure a reliable and parsable JSON output.
+ */
+const renderHotspotPrompt: PromptTemplateSet['hotspot.analysis']['render'] = ({ items }) => `You are a precise, methodical forensic image analyst. Your sole function is to identify the center coordinates of specific objects in an image.
+
+**CRITICAL INSTRUCTIONS:**
+1.  **Analyze the Image:** Examine the provided image carefully.
+2.  **Locate Items:** For each item in the "Items to find" list, locate the corresponding object in the image. The 'description' provides a detailed clue of what to look for.
+3.  **Output Coordinates:** Return a JSON array where each object represents an item you found.
+4.  **JSON Format:** The JSON response MUST be a valid array of objects. Each object must have exactly three properties: "id" (string), "x" (number), and "y" (number).
+5.  **Coordinate System:** Coordinates must be normalized, where (0.0, 0.0) is the top-left corner and (1.0, 1.0) is the bottom-right. The coordinates should point to the CENTER of the object.
+6.  **Accuracy:** Be precise. If an item is not clearly visible, DO NOT include it in your response. Do not guess.
+
+**Items to find:**
+${items.map(item => `- id: "${item.id}", description: "${item.hint || item.label}"`).join('\n')}
+
+**Example JSON Response Format:**
+[
+  { "id": "item_id_1", "x": 0.45, "y": 0.81 },
+  { "id": "item_id_2", "x": 0.19, "y": 0.33 }
+]`;
+
+/** ADA's narrative summary of the player's case, from their evidence in timeline order. */
+const renderTimelineSummaryPrompt: PromptTemplateSet['timeline.summary']['render'] = ({ evidence, suspectName }) => `You are ADA, an AI assistant summarizing a case file. Based ONLY on the following evidence list, write a brief, compelling narrative of what happened, implicating the suspect, ${suspectName}. Tell the story from the perspective of the detective submitting their case. Be concise and impactful.
+
+Evidence Provided:
+${evidence.map(e => `- ${new Date(e.timestampCollected).toLocaleDateString()}: ${e.name}`).join('\n')}
+
+Your summary:`;
+
+/** The District Attorney's evaluation prompt, comparing the player's accusation to the solution. */
+const renderTimelineEvaluationPrompt: PromptTemplateSet['timeline.evaluation']['render'] = ({ submission, groundTruth }) => `You are a District Attorney's evaluation AI. Your task is to analyze a detective's submitted case file and provide a structured evaluation.
+
+**Ground Truth (The Actual Crime):**
+${JSON.stringify(groundTruth, null, 2)}
+
+**Player's Submission:**
+${JSON.stringify(submission, null, 2)}
+
+**Your Task:**
+1.  **Compare Suspects:** Check if the player's submitted \`suspectId\` matches the \`culpritId\` in the ground truth.
+2.  **Analyze Evidence:**
+    -   Identify which of the player's evidence items are part of the ground truth's \`keyEvents\`.
+    -   Identify which \`keyEvents\` from the ground truth are MISSING from the player's submission.
+    -   Identify any evidence submitted by the player that is IRRELEVANT to the core narrative.
+3.  **Calculate Score:** Based on the accuracy of the suspect, the number of correctly identified key events, and the number of irrelevant items, calculate a confidence score from 0 to 100.
+4.  **Determine Verdict:**
+    -   Score > 85: "Case Accepted"
+    -   Score 50-84: "Case Weak"
+    -   Score < 50: "Case Rejected"
+5.  **Provide Reasoning:** Write a short, sharp paragraph explaining your verdict.
+6.  **List Strengths & Weaknesses:** Provide bullet points for strengths (e.g., "Correctly identified the murder weapon") and weaknesses (e.g., "Missed the crucial link between the paint and the hammer").
+
+Your response MUST be a valid JSON object with exactly these fields: "verdict" (one of "Case Accepted", "Case Weak", "Case Rejected"), "score" (number), "reasoning" (string), "strengths" (array of strings) and "weaknesses" (array of strings). Do not include any text outside the JSON object.`;
+
+/**
+ * The reply protocol every character follows (`InterrogationResponseSchema`). Personas only describe
+ * the character and their story-specific clues; the shape of the reply is the same for everyone.
+ */
+const renderPersonaPrompt: PromptTemplateSet['character.persona']['render'] = ({ persona, mode }) => `${persona}
+
+MANDATORY JSON STRUCTURE: Your response MUST be a single valid JSON object with these fields:
+- "chunks": a non-empty array of objects, each with "text" (what you say) and "isCriticalClue" (boolean). A critical clue also has an "insight" object with "justification" and "newLead".
+- "phaseUpdate": an object with a numeric "progressValue".${mode === 'interview' ? ' This is an interview, not an interrogation, so always set it to 0.' : ''}
+- "phaseCompleted": true only when your instructions say this answer completes the phase; otherwise false.
+- "nextSuggestedQuestions": an array of exactly 3 contextually relevant questions the detective could ask next.
+- "adaFeedback": a concise, 1-sentence analysis of the detective's last question.
+Do not include any text outside the JSON object.`;
+
+/**
+ * The follow-up message sent when a character's reply broke the interrogation protocol.
+ * It speaks to the model, not the character, and asks for the same reply again in the right shape.
+ */
+const renderRepairPrompt: PromptTemplateSet['interrogation.repair']['render'] = ({ problem }) => `(System: your last reply could not be read. ${problem}
+
+Send the same reply again, in character, as a single valid JSON object with "chunks" (a non-empty array of objects, each with "text", "isCriticalClue" and, for a critical clue, "insight" with "justification" and "newLead"), "phaseUpdate" (an object with a numeric "progressValue"), "phaseCompleted" (boolean), "nextSuggestedQuestions" (an array of strings) and "adaFeedback" (a string). Do not include any text outside the JSON object.)`;
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplateSet = {
+    'ada.analysis': {
+        version: 1,
+        description: "ADA's comment on the player's latest action, with any scripted narrative directives.",
+        render: renderADAPrompt,
+    },
+    'image.style': {
+        version: 1,
+        description: 'The style preamble added to every card image prompt. Editing it regenerates every cached image.',
+        render: ({ prompt, colorTreatment }) => colorTreatment === 'map' ? prompt : `${REALISTIC_STYLES[colorTreatment]} ${prompt}`,
+    },
+    'hotspot.analysis': {
+        version: 1,
+        description: 'Hotspot vision: finds where each hotspot item is in a location image.',
+        render: renderHotspotPrompt,
+    },
+    'timeline.summary': {
+        version: 1,
+        description: "ADA's narrative summary of the player's case, shown when it is submitted.",
+        render: renderTimelineSummaryPrompt,
+    },
+    'timeline.evaluation': {
+        version: 1,
+        description: "The District Attorney's verdict on the player's accusation.",
+        render: renderTimelineEvaluationPrompt,
+    },
+    'character.persona': {
+        version: 1,
+        description: "A character's system instruction in interviews and interrogations: their persona and the reply protocol.",
+        render: renderPersonaPrompt,
+    },
+    'interrogation.repair': {
+        version: 1,
+        description: 'Sent when a character replied in the wrong shape, asking for the same reply again.',
+        render: renderRepairPrompt,
+    },
+};
@@ -0,0 +1,269 @@
+/**
+ * @file services/ai/requestPolicy.ts
+ * @description The retry policy every AI request goes through: a retry budget per kind of request,
+ * exponential backoff with jitter, the server's own retry delay when it gives one, and a circuit
+ * breaker that pauses all requests after repeated quota errors.
+ *
+ * @architectural_note
+ * Providers wrap each raw API call in `RequestPolicy.run`, below their own error handling, so the
+ * failure semantics of the `AIProvider` contract don't change: a call the policy gives up on fails
+ * exactly as a single failed attempt used to. One policy is shared by the whole session, because a
+ * quota is shared too; once it is exhausted, every further request only burns another 429. While the
+ * circuit is open, requests fail straight away without touching the network, and after the cooldown
+ * a single trial request decides whether it closes again.
+ *
+ * Since every request passes through here, this is also where usage is accounted: each request
+ * reports one `AIUsageRecord` to the usage listeners once it has finally succeeded or failed.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AIEndpoint } from './aiProvider';
+import { AIStatus, AIUsageRecord, AIRequestOutcome } from '../../types';
+
+/**
+ * How a failed request is treated: `quota` (HTTP 429) and `transient` (5xx, network errors) are
+ * retried, `fatal` is not, and `circuitOpen` is a request the breaker refused to send.
+ */
+export type AIErrorKind = Exclude<AIRequestOutcome, 'ok' | 'aborted'>;
+
+/** An error with its retry classification attached. */
+export type AIRequestError = Error & { kind: AIErrorKind; retryAfterMs?: number };
+
+/** How hard to try one kind of request. */
+export interface RetryBudget {
+    /** Attempts in total, including the first. */
+    maxAttempts: number;
+    /** The backoff before the first retry; it doubles with each retry after that. */
+    baseDelayMs: number;
+    /** The longest wait worth retrying after. When the server asks for more, the request fails instead. */
+    maxDelayMs: number;
+}
+
+export interface RequestPolicyOptions {
+    budgets: Record<AIEndpoint, RetryBudget>;
+    /** How many quota errors in a row open the circuit. */
+    breakerThreshold: number;
+    /** How long the circuit stays open, unless the server asks for a longer wait. */
+    breakerCooldownMs: number;
+}
+
+/** What a request is, for the usage accounting, and how to cancel it. */
+export interface AIRequestDetails {
+    model: string;
+    /** The size of the prompt, in characters. */
+    promptChars: number;
+    /** The `ref` of the prompt template the request was rendered from. */
+    template?: string;
+    /** What to group the request by on the usage dashboard, if anything. */
+    subject?: string;
+    /** Cancels the request, including any wait between attempts. */
+    signal?: AbortSignal;
+}
+
+const CLOSED: AIStatus = { circuit: 'closed', resumesAt: null, reason: null };
+
+/**
+ * Creates an error carrying its retry classification.
+ * @param {string} message - The error message.
+ * @param {AIErrorKind} kind - How the policy should treat it.
+ * @param {number} [retryAfterMs] - How long the server asked the client to wait.
+ * @returns {AIRequestError} The error.
+ */
+export const createAIRequestError = (message: string, kind: AIErrorKind, retryAfterMs?: number): AIRequestError =>
+    Object.assign(new Error(message), { kind, retryAfterMs });
+
+/**
+ * Reads the retry delay from a Google RPC error, which embeds a `RetryInfo` detail in the JSON body
+ * quoted in the error message.
+ */
+const parseRetryInfo = (message: string): number | undefined => {
+    try {
+        const errorJson = JSON.parse(message.substring(message.indexOf('{')));
+        const details: Array<{ '@type'?: string; retryDelay?: string | { seconds?: number | string } }> = errorJson?.error?.details ?? [];
+        const retryInfo = details.find(detail => detail['@type'] === 'type.googleapis.com/google.rpc.RetryInfo');
+        // The delay is a protobuf Duration: "42s" in JSON, or { seconds } from older clients.
+        const delay = retryInfo?.retryDelay;
+        const seconds = typeof delay === 'string' ? parseFloat(delay) : Number(delay?.seconds);
+        return !isNaN(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Works out how the policy should treat an error, from its classification if it has one, and
+ * otherwise from its HTTP status or message.
+ * @param {unknown} error - The error a request failed with.
+ * @returns {{ kind: AIErrorKind, retryAfterMs?: number }} The classification.
+ */
+export const classifyAIError = (error: unknown): { kind: AIErrorKind; retryAfterMs?: number } => {
+    const { kind, retryAfterMs, status, message } = (error ?? {}) as Partial<AIRequestError> & { status?: number };
+    if (kind) return { kind, retryAfterMs };
+
+    const text = String(message ?? error);
+    if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED/.test(text)) {
+        return { kind: 'quota', retryAfterMs: parseRetryInfo(text) };
+    }
+    if ((status !== undefined && status >= 500) || /\b50[0234]\b|UNAVAILABLE|Failed to fetch|NetworkError/.test(text)) {
+        return { kind: 'transient' };
+    }
+    return { kind: 'fatal' };
+};
+
+/** The size of a response: the text itself, or its JSON for structured results such as images. */
+const measureResponse = (result: unknown): number =>
+    typeof result === 'string' ? result.length : JSON.stringify(result ?? null).length;
+
+/** Waits, unless the signal aborts first. */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Creates a request policy.
+ * @param {RequestPolicyOptions} options - The retry budgets and circuit breaker settings.
+ * @returns The policy: `run` to send a request through it, the circuit's status for the UI, and
+ * the usage of every request for the usage dashboard.
+ */
+export const createRequestPolicy = ({ budgets, breakerThreshold, breakerCooldownMs }: RequestPolicyOptions) => {
+    let status: AIStatus = CLOSED;
+    let consecutiveQuotaErrors = 0;
+    let isTrialInFlight = false;
+    let halfOpenTimer: ReturnType<typeof setTimeout> | undefined;
+    const listeners = new Set<(status: AIStatus) => void>();
+    const usageListeners = new Set<(record: AIUsageRecord) => void>();
+
+    const setStatus = (next: AIStatus) => {
+        status = next;
+        listeners.forEach(listener => listener(status));
+    };
+
+    const openCircuit = (reason: string, retryAfterMs?: number) => {
+        const cooldown = Math.max(breakerCooldownMs, retryAfterMs ?? 0);
+        setStatus({ circuit: 'open', resumesAt: new Date(Date.now() + cooldown).toISOString(), reason });
+        clearTimeout(halfOpenTimer);
+        halfOpenTimer = setTimeout(() => setStatus({ ...status, circuit: 'halfOpen', resumesAt: null }), cooldown);
+    };
+
+    return {
+        /**
+         * Sends a request, retrying it within the endpoint's budget, and reports its usage once it settles.
+         * @param {AIEndpoint} endpoint - Which kind of request this is.
+         * @param {() => Promise<T>} call - Makes one attempt.
+         * @param {AIRequestDetails} details - The model and prompt size for the usage record, and an optional signal.
+         * @returns {Promise<T>} What the first successful attempt resolved to.
+         * @throws The last attempt's error, or a `circuitOpen` error while requests are paused.
+         */
+        async run<T>(endpoint: AIEndpoint, call: () => Promise<T>, { model, promptChars, template, subject, signal }: AIRequestDetails): Promise<T> {
+            const budget = budgets[endpoint];
+            const startedAt = Date.now();
+            let attempts = 0;
+            const retriedAfter: AIErrorKind[] = [];
+            let backoff = budget.baseDelayMs;
+
+            const report = (outcome: AIRequestOutcome, responseChars = 0) => {
+                const record: AIUsageRecord = {
+                    id: uuidv4(),
+                    timestamp: new Date(startedAt).toISOString(),
+                    endpoint,
+                    model,
+                    promptChars,
+                    promptTemplate: template,
+                    responseChars,
+                    latencyMs: Date.now() - startedAt,
+                    outcome,
+                    attempts,
+                    retriedAfter: retriedAfter.length > 0 ? retriedAfter : undefined,
+                    subject,
+                };
+                usageListeners.forEach(listener => listener(record));
+            };
+
+            for (;;) {
+                // --- CIRCUIT BREAKER ---
+                // While half open, only one trial request goes out; others are refused until it settles.
+                if (status.circuit === 'open' || (status.circuit === 'halfOpen' && isTrialInFlight)) {
+                    report('circuitOpen');
+                    throw createAIRequestError(`AI requests are paused after repeated quota errors (${endpoint} not sent).`, 'circuitOpen');
+                }
+                const isTrial = status.circuit === 'halfOpen';
+                isTrialInFlight ||= isTrial;
+                attempts++;
+
+                try {
+                    const result = await call();
+                    consecutiveQuotaErrors = 0;
+                    if (status.circuit !== 'closed') setStatus(CLOSED);
+                    report('ok', measureResponse(result));
+                    return result;
+                } catch (error) {
+                    if (signal?.aborted) {
+                        report('aborted');
+                        throw error;
+                    }
+                    const { kind, retryAfterMs } = classifyAIError(error);
+
+                    if (kind === 'quota') {
+                        consecutiveQuotaErrors++;
+                        if (isTrial || consecutiveQuotaErrors >= breakerThreshold) {
+                            openCircuit(String((error as Error)?.message ?? error), retryAfterMs);
+                            report(kind);
+                            throw error;
+                        }
+                    }
+
+                    // Jitter on the backoff keeps queued requests from all retrying in lockstep.
+                    const delay = retryAfterMs ?? backoff * (0.5 + Math.random() / 2);
+                    if (kind === 'fatal' || kind === 'circuitOpen' || attempts >= budget.maxAttempts || delay > budget.maxDelayMs) {
+                        report(kind);
+                        throw error;
+                    }
+                    retriedAfter.push(kind);
+                    await sleep(delay, signal).catch(reason => {
+                        report('aborted');
+                        throw reason;
+                    });
+                    backoff *= 2;
+                } finally {
+                    if (isTrial) isTrialInFlight = false;
+                }
+            }
+        },
+
+        /** The circuit's current status. */
+        getStatus(): AIStatus {
+            return status;
+        },
+
+        /**
+         * Registers a listener for changes to the circuit's status.
+         * @param {(status: AIStatus) => void} listener - Called with each new status.
+         * @returns {() => void} A function that removes the listener.
+         */
+        subscribe(listener: (status: AIStatus) => void): () => void {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+
+        /**
+         * Registers a listener for the usage of every request, reported once the request settles.
+         * @param {(record: AIUsageRecord) => void} listener - Called with each request's usage record.
+         * @returns {() => void} A function that removes the listener.
+         */
+        subscribeToUsage(listener: (record: AIUsageRecord) => void): () => void {
+            usageListeners.add(listener);
+            return () => usageListeners.delete(listener);
+        },
+    };
+};
+
+export type RequestPolicy = ReturnType<typeof createRequestPolicy>;
@@ -0,0 +1,260 @@
+/**
+ * @file services/aiService.ts
+ * @description The single entry point the game uses for AI work: ADA's commentary, interrogations,
+ * image generation, hotspot vision and the final case evaluation. Each call is delegated to the
+ * provider chosen in `AI_CONFIG`.
+ *
+ * @architectural_note
+ * The provider is picked once, when this module loads, and the rest of the game never learns which
+ * one it got. Fixture recording wraps it, and fixture replay replaces it (see `ai/fixtureProvider.ts`).
+ * Interrogation replies are parsed after the provider returns them, so every backend's output,
+ * recorded or live, goes through the same checks. Network providers share one request policy
+ * (see `ai/requestPolicy.ts`), whose circuit breaker status the UI shows.
+ */
+
+import { AI_CONFIG } from '../config';
+import { ADARequest, AIStatus, AIUsageRecord, Character, DialogueData, DialogueChatTurn, ImageColorTreatment, Evidence, CanonicalTimeline, TimelineEvaluation } from '../types';
+import { AIProvider, ADAStreamOptions, InterviewChat, HotspotItem, HotspotLocations, GeneratedImage, TimelineSubmission, InterrogationResponse, parseInterrogationResponse } from './ai/aiProvider';
+import { createGeminiProvider } from './ai/geminiProvider';
+import { createOpenAICompatibleProvider } from './ai/openAICompatibleProvider';
+import { createOfflineProvider } from './ai/offlineProvider';
+import { createRecordingProvider, createReplayProvider, AIFixtureFile } from './ai/fixtureProvider';
+import { createRequestPolicy } from './ai/requestPolicy';
+import { renderPrompt } from './ai/promptRegistry';
+
+export type { InterviewChat, InterrogationResponse } from './ai/aiProvider';
+export { setPromptOverrides } from './ai/promptRegistry';
+
+const requestPolicy = createRequestPolicy({
+    budgets: AI_CONFIG.RETRY_BUDGETS,
+    breakerThreshold: AI_CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+    breakerCooldownMs: AI_CONFIG.CIRCUIT_BREAKER_COOLDOWN_MS,
+});
+
+/**
+ * Creates the provider `AI_CONFIG` asks for. A Gemini setup without a key falls back to the
+ * offline provider rather than leaving every feature broken.
+ */
+const createProvider = (): AIProvider => {
+    switch (AI_CONFIG.PROVIDER) {
+        case 'openai':
+            return createOpenAICompatibleProvider({
+                baseUrl: AI_CONFIG.OPENAI_BASE_URL,
+                model: AI_CONFIG.OPENAI_MODEL,
+                apiKey: AI_CONFIG.OPENAI_API_KEY,
+                imageModel: AI_CONFIG.OPENAI_IMAGE_MODEL,
+                policy: requestPolicy,
+            });
+        case 'gemini':
+            if (AI_CONFIG.GEMINI_API_KEY) return createGeminiProvider(AI_CONFIG.GEMINI_API_KEY, requestPolicy);
+            console.warn("Gemini API key (VITE_API_KEY) not set. Falling back to the offline AI provider. To enable Gemini, create a .env with VITE_API_KEY=your_key and restart the dev server.");
+            return createOfflineProvider();
+        default:
+            return createOfflineProvider();
+    }
+};
+
+/** Loads the fixtures replay mode answers from. */
+const loadFixtureFile = async (): Promise<AIFixtureFile> => {
+    const response = await fetch(AI_CONFIG.FIXTURE_URL);
+    if (!response.ok) {
+        throw new Error(`Could not load AI fixtures from ${AI_CONFIG.FIXTURE_URL} (HTTP ${response.status}).`);
+    }
+    return response.json();
+};
+
+const recording = AI_CONFIG.FIXTURE_MODE === 'record' ? createRecordingProvider(createProvider()) : null;
+
+const provider: AIProvider = AI_CONFIG.FIXTURE_MODE === 'replay'
+    ? createReplayProvider(loadFixtureFile())
+    : recording?.provider ?? createProvider();
+
+/** Whether this session is recording AI fixtures, which `downloadRecordedFixtures` can then save. */
+export const isRecordingFixtures = recording !== null;
+
+/**
+ * Triggers a browser download of every AI call recorded so far, as a fixture file replay mode can serve.
+ */
+export function downloadRecordedFixtures(): void {
+    if (!recording) return;
+    const blob = new Blob([JSON.stringify(recording.getFixtureFile(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ai-fixtures-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** The model used for all image generation. Part of each cached image's fingerprint. */
+export const IMAGE_MODEL = provider.imageModel;
+
+/**
+ * Builds the full prompt an image is generated from, with the style template in effect for the
+ * current case. Part of each cached image's fingerprint, so a new style regenerates the images.
+ * @param {string} prompt - The card's image prompt.
+ * @param {ImageColorTreatment} colorTreatment - The image's color treatment.
+ * @returns {string} The full image prompt.
+ */
+export const buildImagePrompt = (prompt: string, colorTreatment: ImageColorTreatment): string =>
+    renderPrompt('image.style', { prompt, colorTreatment }).text;
+
+/** The provider answering AI calls this session. Part of each cached ADA analysis's key. */
+export const AI_PROVIDER_ID = provider.id;
+
+/**
+ * Reports whether AI requests are currently going out, or paused by the circuit breaker.
+ * @returns {AIStatus} The circuit's current status.
+ */
+export function getAIStatus(): AIStatus {
+    return requestPolicy.getStatus();
+}
+
+/**
+ * Registers a listener for changes to the AI status.
+ * @param {(status: AIStatus) => void} listener - Called with each new status.
+ * @returns {() => void} A function that removes the listener.
+ */
+export function subscribeToAIStatus(listener: (status: AIStatus) => void): () => void {
+    return requestPolicy.subscribe(listener);
+}
+
+/**
+ * Registers a listener for the usage of every AI request sent to the network. Offline and replayed
+ * answers cost nothing and are not reported.
+ * @param {(record: AIUsageRecord) => void} listener - Called with each request's usage once it settles.
+ * @returns {() => void} A function that removes the listener.
+ */
+export function subscribeToAIUsage(listener: (record: AIUsageRecord) => void): () => void {
+    return requestPolicy.subscribeToUsage(listener);
+}
+
+/**
+ * Fetches ADA's analysis of a player action.
+ * @param {ADARequest} request - The action, its context and any scripted directives.
+ * @param {ADAStreamOptions} [stream] - Where to report partial text as it arrives, and a signal to cancel the request.
+ * @returns {Promise<string>} ADA's complete response.
+ * @throws Will throw an error if the provider fails, which is caught and handled in the calling thunk.
+ */
+export function getADAResponse(request: ADARequest, stream?: ADAStreamOptions): Promise<string> {
+    return provider.getADAResponse(request, stream);
+}
+
+/**
+ * Initializes a new, stateful chat session for an interview.
+ * @param {string} persona - The system instruction defining the witness's personality.
+ * @param {Character} character - The character being interviewed.
+ * @param {DialogueData} dialogue - The character's dialogue data.
+ * @param {DialogueChatTurn[]} [history=[]] - Earlier turns to replay, so a resumed session remembers what was said.
+ * @returns {InterviewChat} A chat session ready for interaction.
+ */
+export function startInterviewChat(persona: string, character: Character, dialogue: DialogueData, history: DialogueChatTurn[] = []): InterviewChat {
+    return provider.startInterviewChat({ persona, character, dialogue, history });
+}
+
+/**
+ * The transcript turns each chat's failed exchanges occupy, as `[start, end)` index ranges. Chats
+ * only ever append turns, so the ranges stay valid as the conversation goes on.
+ */
+const discardedTurns = new WeakMap<InterviewChat, Array<[number, number]>>();
+
+/** Leaves a range of a chat's turns out of its transcript from now on. */
+const discardTurns = (chat: InterviewChat, start: number, end: number) => {
+    if (end > start) discardedTurns.set(chat, [...(discardedTurns.get(chat) ?? []), [start, end]]);
+};
+
+/**
+ * Sends one interrogation turn and parses the character's structured reply.
+ * A reply that breaks the protocol is sent back to the model with what was wrong with it, up to
+ * `AI_CONFIG.INTERROGATION_REPAIR_ATTEMPTS` times. The repair exchanges stay in the live chat, which
+ * reminds the model of the format for the rest of the conversation, but are left out of the saved
+ * transcript: a repaired turn is kept as the player's message and the good reply, and a turn that
+ * could not be repaired is dropped entirely.
+ * @param {InterviewChat} chat - The active chat session.
+ * @param {string} message - The message (including context) to send to the AI.
+ * @param {(problem: string) => void} [onInvalidReply] - Told what was wrong with each reply that had to be repaired or given up on.
+ * @returns {Promise<InterrogationResponse>} The structured AI response.
+ * @throws If the reply is still invalid after every repair attempt, or the chat itself fails.
+ */
+export async function getInterrogationResponse(chat: InterviewChat, message: string, onInvalidReply?: (problem: string) => void): Promise<InterrogationResponse> {
+    const turnsBefore = chat.getTranscript().length;
+    let reply = await chat.sendMessage(message);
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const response = parseInterrogationResponse(reply);
+            // Everything between the player's message and the good reply was a failed exchange.
+            discardTurns(chat, turnsBefore + 1, chat.getTranscript().length - 1);
+            return response;
+        } catch (error) {
+            const problem = (error as Error).message;
+            onInvalidReply?.(problem);
+            if (attempt >= AI_CONFIG.INTERROGATION_REPAIR_ATTEMPTS) {
+                discardTurns(chat, turnsBefore, chat.getTranscript().length);
+                throw error;
+            }
+            const repair = renderPrompt('interrogation.repair', { problem });
+            try {
+                reply = await chat.sendMessage(repair.text, repair.ref);
+            } catch (sendError) {
+                // A repair that never came back leaves the whole exchange failed, not just this turn.
+                discardTurns(chat, turnsBefore, chat.getTranscript().length);
+                throw sendError;
+            }
+        }
+    }
+}
+
+/**
+ * Extracts a chat's history in a serializable form, for storing and replaying later.
+ * @param {InterviewChat} chat - The chat session.
+ * @returns {DialogueChatTurn[]} The conversation so far, without failed interrogation exchanges.
+ */
+export function getChatTranscript(chat: InterviewChat): DialogueChatTurn[] {
+    const ranges = discardedTurns.get(chat) ?? [];
+    return chat.getTranscript().filter((_turn, index) => !ranges.some(([start, end]) => index >= start && index < end));
+}
+
+/**
+ * Generates an image for a card.
+ * @param {string} prompt - The description of the image to generate.
+ * @param {ImageColorTreatment} [colorTreatment='monochrome'] - The visual style to apply.
+ * @returns {Promise<GeneratedImage | null>} The image data, or null if none could be generated.
+ */
+export function generateImage(prompt: string, colorTreatment: ImageColorTreatment = 'monochrome'): Promise<GeneratedImage | null> {
+    return provider.generateImage(prompt, colorTreatment);
+}
+
+/**
+ * Analyzes a location image to locate specific items, enabling dynamic, interactive environments.
+ * @param {string} base64Image - The base64-encoded image to analyze (without the data URL prefix).
+ * @param {HotspotItem[]} itemsToFind - The items to search for in the image.
+ * @returns {Promise<HotspotLocations | null>} Item IDs mapped to normalized (0.0-1.0) coordinates, or null on failure.
+ */
+export function analyzeImageForHotspots(base64Image: string, itemsToFind: HotspotItem[]): Promise<HotspotLocations | null> {
+    return provider.analyzeImageForHotspots(base64Image, itemsToFind);
+}
+
+/**
+ * Generates a narrative summary of the player's timeline.
+ * @param {Evidence[]} evidenceList - The player's list of evidence.
+ * @param {string} suspectName - The name of the accused suspect.
+ * @returns {Promise<string>} A narrative summary of the case.
+ */
+export function summarizePlayerTimeline(evidenceList: Evidence[], suspectName: string): Promise<string> {
+    return provider.summarizePlayerTimeline(evidenceList, suspectName);
+}
+
+/**
+ * Evaluates the player's submitted timeline against the ground truth.
+ * @param {TimelineSubmission} playerSubmission - The player's accusation.
+ * @param {CanonicalTimeline} groundTruth - The correct solution to the case.
+ * @param {string} suspectName - The name of the accused suspect.
+ * @returns {Promise<TimelineEvaluation | null>} A structured evaluation object or null on failure.
+ */
+export function evaluateTimeline(
+    playerSubmission: TimelineSubmission,
+    groundTruth: CanonicalTimeline,
+    suspectName: string
+): Promise<TimelineEvaluation | null> {
+    return provider.evaluateTimeline(playerSubmission, groundTruth, suspectName);
+}
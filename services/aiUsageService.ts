@@ -0,0 +1,83 @@
+/**
+ * @file services/aiUsageService.ts
+ * @description Keeps the local log of AI requests behind the usage dashboard, and totals it up.
+ *
+ * @architectural_note
+ * Records come from the request policy (see `ai/requestPolicy.ts`), one per request, and are
+ * appended to IndexedDB as they arrive so the per-day totals survive reloads. Quota is spent per
+ * request sent, so every total counts attempts as well as requests: a call that was retried twice
+ * cost three. Records older than `AI_USAGE_CONFIG.RETENTION_DAYS` are dropped when the log is loaded.
+ */
+
+import { AIUsageRecord } from '../types';
+import { dbService } from './dbService';
+import { AI_USAGE_CONFIG } from '../config';
+
+/** The totals for a set of AI requests. */
+export interface AIUsageTotals {
+    requests: number;
+    /** Requests actually sent, retries included. This is what the daily budget counts. */
+    attempts: number;
+    retries: number;
+    failures: number;
+    promptChars: number;
+    responseChars: number;
+    averageLatencyMs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The local calendar day a timestamp falls on, as `YYYY-MM-DD`.
+ * @param {string | number} timestamp - An ISO timestamp or epoch milliseconds.
+ * @returns {string} The day key.
+ */
+export const toDayKey = (timestamp: string | number): string => {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const aiUsageService = {
+    /**
+     * Appends a request's usage to the log.
+     * @param {AIUsageRecord} record - The request's usage.
+     */
+    saveRecord(record: AIUsageRecord): Promise<void> {
+        return dbService.putAiUsageRecord(record);
+    },
+
+    /**
+     * Loads the usage log, first dropping records past the retention period.
+     * @returns {Promise<AIUsageRecord[]>} The retained records.
+     */
+    async loadRecentRecords(): Promise<AIUsageRecord[]> {
+        const cutoff = new Date(Date.now() - AI_USAGE_CONFIG.RETENTION_DAYS * DAY_MS).toISOString();
+        const records = await dbService.getAllAiUsageRecords();
+        const expired = records.filter(record => record.timestamp < cutoff);
+        if (expired.length > 0) {
+            await dbService.deleteAiUsageRecords(expired.map(record => record.id));
+        }
+        return records.filter(record => record.timestamp >= cutoff);
+    },
+
+    /**
+     * Totals up a set of usage records.
+     * @param {AIUsageRecord[]} records - The records to total.
+     * @returns {AIUsageTotals} Their totals.
+     */
+    summarize(records: AIUsageRecord[]): AIUsageTotals {
+        const totals = records.reduce((sum, record) => ({
+            requests: sum.requests + 1,
+            attempts: sum.attempts + record.attempts,
+            retries: sum.retries + Math.max(0, record.attempts - 1),
+            failures: sum.failures + (record.outcome === 'ok' ? 0 : 1),
+            promptChars: sum.promptChars + record.promptChars,
+            responseChars: sum.responseChars + record.responseChars,
+            averageLatencyMs: sum.averageLatencyMs + record.latencyMs,
+        }), { requests: 0, attempts: 0, retries: 0, failures: 0, promptChars: 0, responseChars: 0, averageLatencyMs: 0 });
+        // Summed above; averaged here.
+        totals.averageLatencyMs = records.length > 0 ? Math.round(totals.averageLatencyMs / records.length) : 0;
+        return totals;
+    },
+};
@@ -0,0 +1,77 @@
+/**
+ * @file services/authoringService.ts
+ * @description Applies a writer's authoring-mode edits to story content, both to the compiled entities
+ * the running game shows and to the raw source arrays they are exported against.
+ *
+ * @architectural_note
+ * Edits are overlays, never written into the story slice: the game being played is unaffected, and
+ * the export only touches the fields a writer actually changed. That keeps the exported
+ * `rawLocations`/`rawObjects` free of the defaults the compiler fills in, so pasting them back over
+ * the source files produces a clean diff.
+ */
+
+import { Location, StoryObject, Hotspot, LocationEdit, ObjectEdit, RawAuthoringContent, RawContentEntry } from '../types';
+
+const applyHotspotChanges = (hotspots: Hotspot[], edit: LocationEdit): Hotspot[] =>
+    [...hotspots, ...edit.addedHotspots].map(hotspot => ({ ...hotspot, ...edit.hotspotChanges[hotspot.id] }));
+
+export const authoringService = {
+    /**
+     * Overlays a location's edits, for previewing them in the location card.
+     * @param {Location} location - The compiled location.
+     * @param {LocationEdit | undefined} edit - The writer's edits to it, if any.
+     * @returns {Location} The location as the writer has edited it.
+     */
+    applyLocationEdit(location: Location, edit: LocationEdit | undefined): Location {
+        if (!edit) return location;
+        return { ...location, ...edit.text, hotspots: applyHotspotChanges(location.hotspots, edit) };
+    },
+
+    /**
+     * Overlays an object's text edits.
+     * @param {StoryObject} object - The compiled object.
+     * @param {ObjectEdit | undefined} edit - The writer's edits to it, if any.
+     * @returns {StoryObject} The object as the writer has edited it.
+     */
+    applyObjectEdit(object: StoryObject, edit: ObjectEdit | undefined): StoryObject {
+        return edit ? { ...object, ...edit } : object;
+    },
+
+    /**
+     * Patches the story's source arrays with every edit. Entries nobody edited are returned untouched.
+     * @param {RawAuthoringContent} raw - The story's `rawLocations` and `rawObjects`.
+     * @param {{ [id: string]: LocationEdit }} locationEdits - Edits keyed by location ID.
+     * @param {{ [id: string]: ObjectEdit }} objectEdits - Edits keyed by object ID.
+     * @returns {{ rawLocations: RawContentEntry[], rawObjects: RawContentEntry[] }} The patched arrays, named as in the source files.
+     */
+    patchRawContent(
+        raw: RawAuthoringContent,
+        locationEdits: { [id: string]: LocationEdit },
+        objectEdits: { [id: string]: ObjectEdit }
+    ): { rawLocations: RawContentEntry[], rawObjects: RawContentEntry[] } {
+        const rawLocations = raw.locations.map(entry => {
+            const edit = locationEdits[entry.id];
+            if (!edit) return entry;
+            const hotspots = (entry.hotspots ?? []) as Hotspot[];
+            return { ...entry, ...edit.text, hotspots: applyHotspotChanges(hotspots, edit) };
+        });
+        const rawObjects = raw.objects.map(entry => (objectEdits[entry.id] ? { ...entry, ...objectEdits[entry.id] } : entry));
+        return { rawLocations, rawObjects };
+    },
+
+    /**
+     * Triggers a browser download of patched content as a JSON file.
+     * @param {string} storyId - The story the content belongs to, used in the file name.
+     * @param {object} content - The patched arrays from `patchRawContent`.
+     */
+    downloadPatchedContent(storyId: string, content: { rawLocations: RawContentEntry[], rawObjects: RawContentEntry[] }): void {
+        const blob = new Blob([JSON.stringify(content, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${storyId}-authoring-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        // Released once the browser has started the download.
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    },
+};
@@ -3,18 +3,35 @@
  * @description This service provides a robust, promise-based wrapper around IndexedDB
  * for storing and retrieving large binary data like images. It replaces less reliable
  * or quota-limited storage options like localStorage, making it suitable for production applications.
+ * The same database also holds save-game snapshots, so a player's progress and the images it
+ * references live and die together. ADA's cached card analyses and the AI usage log are kept
+ * here as well.
  */
 
 import { openDB, IDBPDatabase } from 'idb';
+import { ImageCacheMetadata, ADAAnalysisCacheEntry, AIUsageRecord } from '../types';
 
 const DB_NAME = 'ImageCacheDB';
 const STORE_NAME = 'images';
+const SAVES_STORE_NAME = 'saves';
+const IMAGE_META_STORE_NAME = 'imageMeta';
+const ADA_ANALYSES_STORE_NAME = 'adaAnalyses';
+const AI_USAGE_STORE_NAME = 'aiUsage';
 // --- ROBUSTNESS FIX: DB Version Bump ---
 // The database version has been incremented. This is a critical fix for users who might have
 // an older, broken version of the database cached without the 'images' object store.
 // Bumping the version forces the `upgrade` callback to run, which will correctly
 // create the missing object store and repair the user's local database state.
-const DB_VERSION = 2;
+// Version 3 adds the 'saves' object store for save-game persistence.
+// Version 4 adds the 'imageMeta' object store. Images cached before it existed have no metadata
+// and are adopted by `imageCacheService` the first time they are requested.
+// Version 5 namespaces image keys by story ID; existing images all belong to the original case.
+// Version 6 adds the 'adaAnalyses' object store, which caches ADA's card analyses.
+// Version 7 adds the 'aiUsage' object store, which logs every AI request for the usage dashboard.
+const DB_VERSION = 7;
+
+/** The story every image cached before version 5 was generated for. */
+const LEGACY_IMAGE_NAMESPACE = 'foul-shot';
 
 /**
  * Converts a base64 string into a Blob object.
@@ -89,11 +106,43 @@ const getDb = (): Promise<IDBPDatabase> => {
   // The 'idb' library handles connection reuse internally, which is more robust
   // than a manual singleton implementation.
   return openDB(DB_NAME, DB_VERSION, {
-    upgrade(db) {
+    async upgrade(db, oldVersion, _newVersion, transaction) {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         // Create the object store for our images.
         db.createObjectStore(STORE_NAME);
       }
+      if (!db.objectStoreNames.contains(SAVES_STORE_NAME)) {
+        // Save-game snapshots are plain JSON records keyed by save name.
+        db.createObjectStore(SAVES_STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(IMAGE_META_STORE_NAME)) {
+        // Metadata lives apart from the Blobs so eviction can scan it without loading any image data.
+        db.createObjectStore(IMAGE_META_STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(ADA_ANALYSES_STORE_NAME)) {
+        // Analyses are small JSON records keyed by their cache key, which already includes the story ID.
+        db.createObjectStore(ADA_ANALYSES_STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(AI_USAGE_STORE_NAME)) {
+        // Usage records are keyed by their own ID; the log is only ever read whole.
+        db.createObjectStore(AI_USAGE_STORE_NAME);
+      }
+      if (oldVersion > 0 && oldVersion < 5) {
+        // Re-key every cached image (and its metadata) under the legacy story's namespace.
+        for (const storeName of [STORE_NAME, IMAGE_META_STORE_NAME]) {
+          let cursor = await transaction.objectStore(storeName).openCursor();
+          while (cursor) {
+            const key = String(cursor.key);
+            if (!key.includes(':')) {
+              const newKey = `${LEGACY_IMAGE_NAMESPACE}:${key}`;
+              const value = storeName === IMAGE_META_STORE_NAME ? { ...cursor.value, id: newKey } : cursor.value;
+              await transaction.objectStore(storeName).put(value, newKey);
+              await cursor.delete();
+            }
+            cursor = await cursor.continue();
+          }
+        }
+      }
     },
   });
 };
@@ -103,20 +152,30 @@ const getDb = (): Promise<IDBPDatabase> => {
  */
 export const dbService = {
   /**
-   * Saves an image Blob to the database.
+   * Saves an image Blob to the database, together with its metadata.
+   * Saving without metadata (e.g., an imported image) drops any existing metadata for the ID,
+   * so the image is treated as unverified rather than inheriting another image's prompt hash.
    * @param {string} id - The unique identifier for the image (e.g., card ID).
    * @param {Blob} blob - The image data as a Blob.
+   * @param {ImageCacheMetadata} [metadata] - The image's cache metadata, if known.
    */
-  async saveImage(id: string, blob: Blob): Promise<void> {
+  async saveImage(id: string, blob: Blob, metadata?: ImageCacheMetadata): Promise<void> {
     try {
         const db = await getDb();
         // --- DEFENSIVE CHECK ---
         // Prevents crashes if the object store somehow doesn't exist.
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          console.error(`Object store "${STORE_NAME}" does not exist. Cannot save image.`);
+        if (!db.objectStoreNames.contains(STORE_NAME) || !db.objectStoreNames.contains(IMAGE_META_STORE_NAME)) {
+          console.error(`Object store "${STORE_NAME}" or "${IMAGE_META_STORE_NAME}" does not exist. Cannot save image.`);
           return;
         }
-        await db.put(STORE_NAME, blob, id);
+        const tx = db.transaction([STORE_NAME, IMAGE_META_STORE_NAME], 'readwrite');
+        await Promise.all([
+          tx.objectStore(STORE_NAME).put(blob, id),
+          metadata
+            ? tx.objectStore(IMAGE_META_STORE_NAME).put(metadata, id)
+            : tx.objectStore(IMAGE_META_STORE_NAME).delete(id),
+          tx.done,
+        ]);
     } catch (error) {
         console.error("Failed to save image to IndexedDB:", error);
     }
@@ -167,7 +226,86 @@ export const dbService = {
   },
 
   /**
-   * Clears the entire image cache from the database.
+   * Deletes images and their metadata.
+   * @param {string[]} ids - The IDs of the images to delete.
+   */
+  async deleteImages(ids: string[]): Promise<void> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(STORE_NAME) || !db.objectStoreNames.contains(IMAGE_META_STORE_NAME)) {
+          console.error(`Object store "${STORE_NAME}" or "${IMAGE_META_STORE_NAME}" does not exist. Cannot delete images.`);
+          return;
+        }
+        const tx = db.transaction([STORE_NAME, IMAGE_META_STORE_NAME], 'readwrite');
+        await Promise.all([
+          ...ids.flatMap(id => [tx.objectStore(STORE_NAME).delete(id), tx.objectStore(IMAGE_META_STORE_NAME).delete(id)]),
+          tx.done,
+        ]);
+    } catch (error) {
+        console.error("Failed to delete images from IndexedDB:", error);
+    }
+  },
+
+  /**
+   * Retrieves the metadata of every cached image. Images saved without metadata are not included.
+   * @returns {Promise<ImageCacheMetadata[]>} All stored image metadata.
+   */
+  async getAllImageMetadata(): Promise<ImageCacheMetadata[]> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(IMAGE_META_STORE_NAME)) {
+          console.error(`Object store "${IMAGE_META_STORE_NAME}" does not exist. Cannot read image metadata.`);
+          return [];
+        }
+        return db.getAll(IMAGE_META_STORE_NAME);
+    } catch (error) {
+        console.error("Failed to read image metadata from IndexedDB:", error);
+        return [];
+    }
+  },
+
+  /**
+   * Retrieves the metadata of a single cached image.
+   * @param {string} id - The image ID.
+   * @returns {Promise<ImageCacheMetadata | undefined>} The metadata, or undefined if none is stored.
+   */
+  async getImageMetadata(id: string): Promise<ImageCacheMetadata | undefined> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(IMAGE_META_STORE_NAME)) {
+          console.error(`Object store "${IMAGE_META_STORE_NAME}" does not exist. Cannot read image metadata.`);
+          return undefined;
+        }
+        return db.get(IMAGE_META_STORE_NAME, id);
+    } catch (error) {
+        console.error("Failed to read image metadata from IndexedDB:", error);
+        return undefined;
+    }
+  },
+
+  /**
+   * Writes the metadata for an image that is already cached.
+   * @param {ImageCacheMetadata} metadata - The metadata to store, keyed by its `id`.
+   */
+  async putImageMetadata(metadata: ImageCacheMetadata): Promise<void> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(IMAGE_META_STORE_NAME)) {
+          console.error(`Object store "${IMAGE_META_STORE_NAME}" does not exist. Cannot write image metadata.`);
+          return;
+        }
+        await db.put(IMAGE_META_STORE_NAME, metadata, metadata.id);
+    } catch (error) {
+        console.error("Failed to write image metadata to IndexedDB:", error);
+    }
+  },
+
+  /**
+   * Clears the entire image cache, including its metadata, from the database.
    */
   async clearImages(): Promise<void> {
     try {
@@ -178,8 +316,226 @@ export const dbService = {
           return;
         }
         await db.clear(STORE_NAME);
+        if (db.objectStoreNames.contains(IMAGE_META_STORE_NAME)) {
+          await db.clear(IMAGE_META_STORE_NAME);
+        }
     } catch (error) {
         console.error("Failed to clear IndexedDB:", error);
     }
+  },
+
+  /**
+   * Reads one of ADA's cached analyses.
+   * @param {string} id - The analysis cache key.
+   * @returns {Promise<ADAAnalysisCacheEntry | undefined>} The stored analysis, or undefined if none exists.
+   */
+  async getAdaAnalysis(id: string): Promise<ADAAnalysisCacheEntry | undefined> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(ADA_ANALYSES_STORE_NAME)) {
+          console.error(`Object store "${ADA_ANALYSES_STORE_NAME}" does not exist. Cannot read analysis.`);
+          return undefined;
+        }
+        return db.get(ADA_ANALYSES_STORE_NAME, id);
+    } catch (error) {
+        console.error("Failed to read ADA analysis from IndexedDB:", error);
+        return undefined;
+    }
+  },
+
+  /**
+   * Writes one of ADA's analyses, replacing any stored under the same key.
+   * @param {ADAAnalysisCacheEntry} entry - The analysis, keyed by its `id`.
+   */
+  async putAdaAnalysis(entry: ADAAnalysisCacheEntry): Promise<void> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(ADA_ANALYSES_STORE_NAME)) {
+          console.error(`Object store "${ADA_ANALYSES_STORE_NAME}" does not exist. Cannot write analysis.`);
+          return;
+        }
+        await db.put(ADA_ANALYSES_STORE_NAME, entry, entry.id);
+    } catch (error) {
+        console.error("Failed to write ADA analysis to IndexedDB:", error);
+    }
+  },
+
+  /**
+   * Retrieves every cached ADA analysis.
+   * @returns {Promise<ADAAnalysisCacheEntry[]>} All stored analyses.
+   */
+  async getAllAdaAnalyses(): Promise<ADAAnalysisCacheEntry[]> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(ADA_ANALYSES_STORE_NAME)) {
+          console.error(`Object store "${ADA_ANALYSES_STORE_NAME}" does not exist. Cannot list analyses.`);
+          return [];
+        }
+        return db.getAll(ADA_ANALYSES_STORE_NAME);
+    } catch (error) {
+        console.error("Failed to list ADA analyses from IndexedDB:", error);
+        return [];
+    }
+  },
+
+  /**
+   * Deletes cached ADA analyses.
+   * @param {string[]} ids - The cache keys of the analyses to delete.
+   */
+  async deleteAdaAnalyses(ids: string[]): Promise<void> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(ADA_ANALYSES_STORE_NAME)) {
+          console.error(`Object store "${ADA_ANALYSES_STORE_NAME}" does not exist. Cannot delete analyses.`);
+          return;
+        }
+        const tx = db.transaction(ADA_ANALYSES_STORE_NAME, 'readwrite');
+        await Promise.all([...ids.map(id => tx.store.delete(id)), tx.done]);
+    } catch (error) {
+        console.error("Failed to delete ADA analyses from IndexedDB:", error);
+    }
+  },
+
+  /**
+   * Appends a record to the AI usage log.
+   * @param {AIUsageRecord} record - The request's usage, keyed by its `id`.
+   */
+  async putAiUsageRecord(record: AIUsageRecord): Promise<void> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(AI_USAGE_STORE_NAME)) {
+          console.error(`Object store "${AI_USAGE_STORE_NAME}" does not exist. Cannot write usage record.`);
+          return;
+        }
+        await db.put(AI_USAGE_STORE_NAME, record, record.id);
+    } catch (error) {
+        console.error("Failed to write AI usage record to IndexedDB:", error);
+    }
+  },
+
+  /**
+   * Retrieves the whole AI usage log.
+   * @returns {Promise<AIUsageRecord[]>} Every stored usage record.
+   */
+  async getAllAiUsageRecords(): Promise<AIUsageRecord[]> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(AI_USAGE_STORE_NAME)) {
+          console.error(`Object store "${AI_USAGE_STORE_NAME}" does not exist. Cannot list usage records.`);
+          return [];
+        }
+        return db.getAll(AI_USAGE_STORE_NAME);
+    } catch (error) {
+        console.error("Failed to list AI usage records from IndexedDB:", error);
+        return [];
+    }
+  },
+
+  /**
+   * Deletes records from the AI usage log.
+   * @param {string[]} ids - The IDs of the records to delete.
+   */
+  async deleteAiUsageRecords(ids: string[]): Promise<void> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(AI_USAGE_STORE_NAME)) {
+          console.error(`Object store "${AI_USAGE_STORE_NAME}" does not exist. Cannot delete usage records.`);
+          return;
+        }
+        const tx = db.transaction(AI_USAGE_STORE_NAME, 'readwrite');
+        await Promise.all([...ids.map(id => tx.store.delete(id)), tx.done]);
+    } catch (error) {
+        console.error("Failed to delete AI usage records from IndexedDB:", error);
+    }
+  },
+
+  /**
+   * Writes a save-game record. The record is stored as-is; versioning and migration are the
+   * responsibility of the caller (see `saveGameService`).
+   * @param {string} key - The save key (e.g., 'autosave').
+   * @param {unknown} record - The JSON-serializable save record.
+   */
+  async putSaveRecord(key: string, record: unknown): Promise<void> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(SAVES_STORE_NAME)) {
+          console.error(`Object store "${SAVES_STORE_NAME}" does not exist. Cannot write save.`);
+          return;
+        }
+        await db.put(SAVES_STORE_NAME, record, key);
+    } catch (error) {
+        console.error("Failed to write save record to IndexedDB:", error);
+    }
+  },
+
+  /**
+   * Reads a raw save-game record.
+   * @param {string} key - The save key.
+   * @returns {Promise<unknown>} The stored record, or undefined if none exists.
+   */
+  async getSaveRecord(key: string): Promise<unknown> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(SAVES_STORE_NAME)) {
+          console.error(`Object store "${SAVES_STORE_NAME}" does not exist. Cannot read save.`);
+          return undefined;
+        }
+        return db.get(SAVES_STORE_NAME, key);
+    } catch (error) {
+        console.error("Failed to read save record from IndexedDB:", error);
+        return undefined;
+    }
+  },
+
+  /**
+   * Retrieves every save-game record along with its key.
+   * @returns {Promise<{ key: string, record: unknown }[]>} All stored save records.
+   */
+  async getAllSaveRecords(): Promise<{ key: string, record: unknown }[]> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(SAVES_STORE_NAME)) {
+          console.error(`Object store "${SAVES_STORE_NAME}" does not exist. Cannot list saves.`);
+          return [];
+        }
+        // Both reads share one transaction, so a save written in between can't misalign keys and records.
+        const store = db.transaction(SAVES_STORE_NAME).store;
+        const [keys, records] = await Promise.all([store.getAllKeys(), store.getAll()]);
+        return keys.map((key, index) => ({
+          key: String(key),
+          record: records[index]
+        }));
+    } catch (error) {
+        console.error("Failed to list save records from IndexedDB:", error);
+        return [];
+    }
+  },
+
+  /**
+   * Deletes a save-game record.
+   * @param {string} key - The save key.
+   */
+  async deleteSaveRecord(key: string): Promise<void> {
+    try {
+        const db = await getDb();
+        // --- DEFENSIVE CHECK ---
+        if (!db.objectStoreNames.contains(SAVES_STORE_NAME)) {
+          console.error(`Object store "${SAVES_STORE_NAME}" does not exist. Cannot delete save.`);
+          return;
+        }
+        await db.delete(SAVES_STORE_NAME, key);
+    } catch (error) {
+        console.error("Failed to delete save record from IndexedDB:", error);
+    }
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,26 @@
+/**
+ * @file services/hash.ts
+ * @description A small, synchronous string hash for cache keys and change detection.
+ *
+ * @architectural_note
+ * This is 32-bit FNV-1a, not a cryptographic hash. It only needs to notice when an image prompt
+ * has changed, and being synchronous means reducers and selectors can call it directly
+ * (`crypto.subtle.digest` is async-only).
+ */
+
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Hashes a string with 32-bit FNV-1a.
+ * @param {string} input - The string to hash.
+ * @returns {string} The hash as an 8-character hex string.
+ */
+export const hashString = (input: string): string => {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
@@ -0,0 +1,188 @@
+/**
+ * @file services/imageCacheService.ts
+ * @description The policy layer over the IndexedDB image cache: prompt fingerprints for
+ * invalidation, access tracking, and least-recently-used eviction under a size budget.
+ *
+ * @architectural_note
+ * `dbService` only knows how to store Blobs and metadata records; every decision about *which*
+ * images are still valid or worth keeping lives here. Staleness is detected lazily: each image
+ * request carries the current prompt, so comparing its fingerprint with the stored one needs no
+ * knowledge of the story data. Images cached before metadata existed (or imported from a bundle)
+ * are adopted with the fingerprint of the first request that asks for them.
+ *
+ * Card IDs are only unique within one story, so every image is stored under a cache key namespaced
+ * by the story ID (see `toCacheKey`). Callers deal in card IDs; only eviction looks across stories,
+ * since they all share one byte budget.
+ */
+
+import { ImageCacheMetadata, ImageColorTreatment } from '../types';
+import { dbService } from './dbService';
+import { hashString } from './hash';
+import { IMAGE_MODEL, buildImagePrompt } from './aiService';
+import { IMAGE_CACHE_CONFIG } from '../config';
+
+/** Cache keys whose access time has already been recorded this session; one write per image is plenty for LRU. */
+const accessedThisSession = new Set<string>();
+
+/**
+ * Builds the IndexedDB key for a card's image within a story.
+ * @param {string} storyId - The registry ID of the story.
+ * @param {string} cardId - The card ID.
+ * @returns {string} The namespaced cache key.
+ */
+export const toCacheKey = (storyId: string, cardId: string): string => `${storyId}:${cardId}`;
+
+/**
+ * Computes the fingerprint an image generated for this request would have.
+ * @param {string} prompt - The card's image prompt.
+ * @param {ImageColorTreatment} colorTreatment - The visual style.
+ * @returns {string} The prompt hash.
+ */
+export const getImageFingerprint = (prompt: string, colorTreatment: ImageColorTreatment): string =>
+  hashString([IMAGE_MODEL, colorTreatment, buildImagePrompt(prompt, colorTreatment)].join('\n'));
+
+const createMetadata = (id: string, prompt: string, colorTreatment: ImageColorTreatment, byteSize: number): ImageCacheMetadata => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    promptHash: getImageFingerprint(prompt, colorTreatment),
+    colorTreatment,
+    model: IMAGE_MODEL,
+    byteSize,
+    createdAt: now,
+    lastAccessedAt: now,
+  };
+};
+
+/**
+ * Works out how many bytes the cache may use: the configured cap, or a share of the browser's
+ * storage quota when that is smaller.
+ */
+const getByteBudget = async (): Promise<number> => {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    if (estimate?.quota) {
+      return Math.min(IMAGE_CACHE_CONFIG.MAX_BYTES, estimate.quota * IMAGE_CACHE_CONFIG.MAX_QUOTA_FRACTION);
+    }
+  } catch (error) {
+    console.warn('Storage estimate unavailable; using the configured image cache limit.', error);
+  }
+  return IMAGE_CACHE_CONFIG.MAX_BYTES;
+};
+
+/**
+ * A service object that encapsulates image cache policy.
+ */
+export const imageCacheService = {
+  /**
+   * Stores a newly generated image with fresh metadata.
+   * @param {string} storyId - The story the card belongs to.
+   * @param {string} id - The card ID.
+   * @param {Blob} blob - The image data.
+   * @param {string} prompt - The prompt it was generated from.
+   * @param {ImageColorTreatment} colorTreatment - The style it was generated with.
+   */
+  async storeImage(storyId: string, id: string, blob: Blob, prompt: string, colorTreatment: ImageColorTreatment): Promise<void> {
+    const key = toCacheKey(storyId, id);
+    accessedThisSession.add(key);
+    await dbService.saveImage(key, blob, createMetadata(key, prompt, colorTreatment, blob.size));
+  },
+
+  /**
+   * Stores an image whose prompt is unknown (e.g., one imported from a save bundle). It has no
+   * metadata until it is adopted.
+   * @param {string} storyId - The story the card belongs to.
+   * @param {string} id - The card ID.
+   * @param {Blob} blob - The image data.
+   */
+  async storeUnverifiedImage(storyId: string, id: string, blob: Blob): Promise<void> {
+    await dbService.saveImage(toCacheKey(storyId, id), blob);
+  },
+
+  /**
+   * Loads one cached image.
+   * @param {string} storyId - The story the card belongs to.
+   * @param {string} id - The card ID.
+   * @returns {Promise<Blob | undefined>} The image, if it is cached.
+   */
+  async loadImage(storyId: string, id: string): Promise<Blob | undefined> {
+    return dbService.getImage(toCacheKey(storyId, id));
+  },
+
+  /**
+   * Loads every cached image of a story along with its fingerprint. Images without metadata are
+   * returned with a `null` fingerprint, to be adopted on first use.
+   * @param {string} storyId - The story whose images to load.
+   * @returns {Promise<{ id: string; blob: Blob; promptHash: string | null }[]>} The cached images, by card ID.
+   */
+  async loadImages(storyId: string): Promise<{ id: string; blob: Blob; promptHash: string | null }[]> {
+    const prefix = toCacheKey(storyId, '');
+    const [images, metadata] = await Promise.all([dbService.getAllImages(), dbService.getAllImageMetadata()]);
+    const hashes = new Map(metadata.map(meta => [meta.id, meta.promptHash]));
+    return images
+      .filter(item => !!item.blob && item.id.startsWith(prefix))
+      .map(item => ({ id: item.id.slice(prefix.length), blob: item.blob, promptHash: hashes.get(item.id) ?? null }));
+  },
+
+  /**
+   * Records metadata for a cached image that has none, trusting that it matches the given request.
+   * Does nothing if metadata already exists (e.g., another tab wrote it).
+   * @param {string} storyId - The story the card belongs to.
+   * @param {string} id - The card ID.
+   * @param {string} prompt - The requesting card's prompt.
+   * @param {ImageColorTreatment} colorTreatment - The requested style.
+   */
+  async adoptImage(storyId: string, id: string, prompt: string, colorTreatment: ImageColorTreatment): Promise<void> {
+    const key = toCacheKey(storyId, id);
+    if (await dbService.getImageMetadata(key)) return;
+    const blob = await dbService.getImage(key);
+    if (!blob) return;
+    accessedThisSession.add(key);
+    await dbService.putImageMetadata(createMetadata(key, prompt, colorTreatment, blob.size));
+  },
+
+  /**
+   * Marks an image as recently viewed, at most once per session.
+   * @param {string} storyId - The story the card belongs to.
+   * @param {string} id - The card ID.
+   */
+  async recordAccess(storyId: string, id: string): Promise<void> {
+    const key = toCacheKey(storyId, id);
+    if (accessedThisSession.has(key)) return;
+    accessedThisSession.add(key);
+    const metadata = await dbService.getImageMetadata(key);
+    if (metadata) {
+      await dbService.putImageMetadata({ ...metadata, lastAccessedAt: new Date().toISOString() });
+    }
+  },
+
+  /**
+   * Evicts least-recently-accessed images, from any story, until the cache fits its byte budget.
+   * Images without metadata aren't counted until they are adopted.
+   * @param {string} storyId - The story being played.
+   * @param {Set<string>} [protectedIds] - Card IDs in that story that must be kept (e.g., ones currently on screen).
+   * @returns {Promise<string[]>} The cache keys of the evicted images.
+   */
+  async enforceSizeLimit(storyId: string, protectedIds: Set<string> = new Set()): Promise<string[]> {
+    const [metadata, budget] = await Promise.all([dbService.getAllImageMetadata(), getByteBudget()]);
+    let totalBytes = metadata.reduce((sum, meta) => sum + meta.byteSize, 0);
+    if (totalBytes <= budget) return [];
+
+    const protectedKeys = new Set([...protectedIds].map(id => toCacheKey(storyId, id)));
+    const candidates = metadata
+      .filter(meta => !protectedKeys.has(meta.id))
+      .sort((a, b) => a.lastAccessedAt.localeCompare(b.lastAccessedAt));
+
+    const evictedIds: string[] = [];
+    for (const meta of candidates) {
+      if (totalBytes <= budget) break;
+      evictedIds.push(meta.id);
+      totalBytes -= meta.byteSize;
+    }
+    if (evictedIds.length > 0) {
+      await dbService.deleteImages(evictedIds);
+      evictedIds.forEach(key => accessedThisSession.delete(key));
+    }
+    return evictedIds;
+  },
+};
@@ -0,0 +1,180 @@
+/**
+ * @file services/placeholderArtService.ts
+ * @description Draws stylised noir placeholder art for cards whose image could not be generated (no
+ * API key, exhausted quota, filtered content, or a provider that can't generate images).
+ *
+ * @architectural_note
+ * Placeholders are SVG data URLs rendered locally, so they cost nothing and need no network. They are
+ * memoized here and never written to the IndexedDB image cache or to the story slice's `imageUrls`:
+ * a placeholder is only shown while a card has no real image, and the next successful generation
+ * replaces it without anything to invalidate. Each drawing is seeded from the card ID, so a card
+ * always gets the same one.
+ */
+
+import { EvidenceRarity, ImageColorTreatment } from '../types';
+import { RARITY_CONFIG } from '../config';
+import { hashString } from './hash';
+
+/** What kind of card a placeholder is for, which decides the composition. */
+export type PlaceholderKind = 'character' | 'object' | 'location' | 'map' | 'scene';
+
+export interface PlaceholderRequest {
+    cardId: string;
+    kind: PlaceholderKind;
+    name: string;
+    rarity?: EvidenceRarity;
+    colorTreatment: ImageColorTreatment;
+}
+
+const INK = '#0b0b0d';
+const PAPER = '#e8e4da';
+const SMOKE = '#4b4b52';
+/** The accent of cards without a rarity, in the selective-colour treatment. */
+const NOIR_RED = '#D72638';
+
+const placeholderCache = new Map<string, string>();
+
+/** A small seeded PRNG (mulberry32), so a card's drawing never changes between sessions. */
+const createRandom = (seed: string) => {
+    let state = parseInt(hashString(seed), 16);
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const escapeXml = (text: string) =>
+    text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[char]!));
+
+/** Monochrome art stays grey; selective colour picks out one element in the rarity's colour. */
+const accentFor = ({ rarity, colorTreatment }: PlaceholderRequest) => {
+    if (colorTreatment === 'monochrome') return PAPER;
+    return rarity ? RARITY_CONFIG[rarity].color : NOIR_RED;
+};
+
+/** The shared backdrop: a dark vignette with a little film grain. */
+const backdrop = (width: number, height: number, random: () => number) => {
+    const grain = Array.from({ length: 60 }, () =>
+        `<circle cx="${(random() * width).toFixed(0)}" cy="${(random() * height).toFixed(0)}" r="${(random() * 1.6 + 0.4).toFixed(1)}" fill="${PAPER}" opacity="${(random() * 0.12).toFixed(2)}"/>`
+    ).join('');
+    return `<defs><radialGradient id="vignette" cx="50%" cy="40%" r="75%"><stop offset="0%" stop-color="#2a2a30"/><stop offset="100%" stop-color="${INK}"/></radialGradient></defs>
+<rect width="${width}" height="${height}" fill="url(#vignette)"/>${grain}`;
+};
+
+/** The card's name, set in condensed capitals along the bottom. */
+const caption = (name: string, width: number, height: number, color: string) =>
+    name ? `<text x="${width / 2}" y="${height - 48}" text-anchor="middle" font-family="Oswald, 'Arial Narrow', sans-serif" font-size="${Math.round(width / 16)}" letter-spacing="4" fill="${color}">${escapeXml(name.toUpperCase())}</text>` : '';
+
+/** A head-and-shoulders silhouette under a hard key light, like a line-up photo. */
+const drawCharacter = (request: PlaceholderRequest, random: () => number) => {
+    const accent = accentFor(request);
+    const tilt = (random() - 0.5) * 10;
+    const lineUp = Array.from({ length: 7 }, (_, i) =>
+        `<line x1="0" y1="${140 + i * 80}" x2="600" y2="${140 + i * 80}" stroke="${SMOKE}" stroke-width="2" opacity="0.5"/>`).join('');
+    return `${backdrop(600, 800, random)}${lineUp}
+<g transform="rotate(${tilt.toFixed(1)} 300 420)" fill="${INK}" stroke="${SMOKE}" stroke-width="3">
+<ellipse cx="300" cy="330" rx="${(88 + random() * 20).toFixed(0)}" ry="112"/>
+<path d="M110 800 C120 600 200 520 300 520 C400 520 480 600 490 800 Z"/>
+</g>
+<rect x="190" y="610" width="220" height="56" fill="${PAPER}" opacity="0.9"/>
+<text x="300" y="648" text-anchor="middle" font-family="monospace" font-size="26" fill="${INK}">No. ${parseInt(hashString(request.cardId), 16) % 90000 + 10000}</text>
+<line x1="0" y1="120" x2="600" y2="120" stroke="${accent}" stroke-width="6"/>
+${caption(request.name, 600, 800, PAPER)}`;
+};
+
+/** An evidence tag on a string, lying across a scattering of shapes. */
+const drawObject = (request: PlaceholderRequest, random: () => number) => {
+    const accent = accentFor(request);
+    const shapes = Array.from({ length: 5 }, () => {
+        const x = 80 + random() * 440;
+        const y = 140 + random() * 420;
+        const size = 30 + random() * 70;
+        return random() > 0.5
+            ? `<circle cx="${x.toFixed(0)}" cy="${y.toFixed(0)}" r="${(size / 2).toFixed(0)}" fill="none" stroke="${SMOKE}" stroke-width="3"/>`
+            : `<rect x="${x.toFixed(0)}" y="${y.toFixed(0)}" width="${size.toFixed(0)}" height="${(size * 0.6).toFixed(0)}" fill="none" stroke="${SMOKE}" stroke-width="3" transform="rotate(${(random() * 40 - 20).toFixed(0)} ${x.toFixed(0)} ${y.toFixed(0)})"/>`;
+    }).join('');
+    const tilt = (random() - 0.5) * 16;
+    return `${backdrop(600, 800, random)}${shapes}
+<path d="M300 60 C260 140 340 200 300 290" fill="none" stroke="${PAPER}" stroke-width="3" opacity="0.7"/>
+<g transform="rotate(${tilt.toFixed(1)} 300 440)">
+<path d="M180 290 L420 290 L420 600 L180 600 L180 330 Z" fill="${PAPER}"/>
+<circle cx="300" cy="320" r="12" fill="${INK}"/>
+<rect x="180" y="360" width="240" height="44" fill="${accent}"/>
+<text x="300" y="391" text-anchor="middle" font-family="Oswald, 'Arial Narrow', sans-serif" font-size="28" letter-spacing="6" fill="${INK}">EVIDENCE</text>
+<text x="200" y="450" font-family="monospace" font-size="20" fill="${INK}">ITEM ${parseInt(hashString(request.cardId), 16) % 900 + 100}</text>
+${[480, 520, 560].map(y => `<line x1="200" y1="${y}" x2="400" y2="${y}" stroke="${SMOKE}" stroke-width="2"/>`).join('')}
+</g>
+${caption(request.name, 600, 800, PAPER)}`;
+};
+
+/** A room in one-point perspective: a floor, a lit doorway and a slatted window. */
+const drawLocation = (request: PlaceholderRequest, random: () => number) => {
+    const accent = accentFor(request);
+    const doorX = 200 + random() * 200;
+    const floor = Array.from({ length: 9 }, (_, i) =>
+        `<line x1="300" y1="430" x2="${-300 + i * 150}" y2="800" stroke="${SMOKE}" stroke-width="2" opacity="0.6"/>`).join('');
+    const slats = Array.from({ length: 6 }, (_, i) =>
+        `<rect x="40" y="${160 + i * 26}" width="130" height="14" fill="${PAPER}" opacity="0.25"/>`).join('');
+    return `${backdrop(600, 800, random)}
+<rect x="0" y="430" width="600" height="370" fill="${INK}"/>${floor}${slats}
+<rect x="${doorX.toFixed(0)}" y="250" width="90" height="180" fill="${accent}" opacity="0.85"/>
+<path d="M${doorX.toFixed(0)} 430 L${(doorX + 90).toFixed(0)} 430 L${(doorX + 180).toFixed(0)} 800 L${(doorX - 90).toFixed(0)} 800 Z" fill="${accent}" opacity="0.15"/>
+${caption(request.name, 600, 800, PAPER)}`;
+};
+
+/** A schematic street map: blocks between a few avenues, with pins dropped on it. */
+const drawMap = (request: PlaceholderRequest, random: () => number) => {
+    const avenues = Array.from({ length: 6 }, (_, i) => 120 + i * 260 + random() * 60);
+    const streets = Array.from({ length: 4 }, (_, i) => 120 + i * 220 + random() * 40);
+    const roads = [
+        ...avenues.map(x => `<line x1="${x.toFixed(0)}" y1="0" x2="${(x + random() * 80 - 40).toFixed(0)}" y2="900" stroke="${SMOKE}" stroke-width="10"/>`),
+        ...streets.map(y => `<line x1="0" y1="${y.toFixed(0)}" x2="1600" y2="${(y + random() * 60 - 30).toFixed(0)}" stroke="${SMOKE}" stroke-width="8"/>`),
+    ].join('');
+    const pins = Array.from({ length: 5 }, () =>
+        `<circle cx="${(100 + random() * 1400).toFixed(0)}" cy="${(100 + random() * 700).toFixed(0)}" r="14" fill="${NOIR_RED}" stroke="${PAPER}" stroke-width="4"/>`).join('');
+    return `${backdrop(1600, 900, random)}
+<path d="M0 ${(650 + random() * 100).toFixed(0)} C400 600 900 820 1600 700 L1600 900 L0 900 Z" fill="#15202b"/>
+${roads}${pins}`;
+};
+
+/** Anything else (intro slides, social media posts): a figure in a lit doorway, seen from the street. */
+const drawScene = (request: PlaceholderRequest, random: () => number) => {
+    const accent = accentFor(request);
+    const x = 180 + random() * 240;
+    return `${backdrop(600, 800, random)}
+<rect x="${x.toFixed(0)}" y="200" width="140" height="320" fill="${accent}" opacity="0.8"/>
+<ellipse cx="${(x + 70).toFixed(0)}" cy="300" rx="24" ry="30" fill="${INK}"/>
+<path d="M${(x + 30).toFixed(0)} 520 C${(x + 35).toFixed(0)} 380 ${(x + 105).toFixed(0)} 380 ${(x + 110).toFixed(0)} 520 Z" fill="${INK}"/>
+<rect x="0" y="520" width="600" height="280" fill="${INK}"/>
+${caption(request.name, 600, 800, PAPER)}`;
+};
+
+const DRAWERS: Record<PlaceholderKind, (request: PlaceholderRequest, random: () => number) => string> = {
+    character: drawCharacter,
+    object: drawObject,
+    location: drawLocation,
+    map: drawMap,
+    scene: drawScene,
+};
+
+export const placeholderArtService = {
+    /**
+     * Returns a card's placeholder art, drawing it on first use.
+     * @param {PlaceholderRequest} request - The card to draw for.
+     * @returns {string} An SVG data URL, usable anywhere an image URL is.
+     */
+    getPlaceholderUrl(request: PlaceholderRequest): string {
+        const key = [request.cardId, request.kind, request.name, request.rarity ?? '', request.colorTreatment].join('\n');
+        const cached = placeholderCache.get(key);
+        if (cached) return cached;
+
+        const [width, height] = request.kind === 'map' ? [1600, 900] : [600, 800];
+        const body = DRAWERS[request.kind](request, createRandom(request.cardId));
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">${body}</svg>`;
+        const url = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+        placeholderCache.set(key, url);
+        return url;
+    },
+};
@@ -0,0 +1,158 @@
+/**
+ * @file services/saveBundleService.ts
+ * @description Builds, validates and unpacks portable save bundles — single JSON files that carry a
+ * save snapshot together with every generated image in the cache.
+ *
+ * @architectural_note
+ * Image generation costs quota, so the bundle deliberately includes the image Blobs (as base64)
+ * rather than just the game state. Validation happens entirely up front: nothing in IndexedDB or
+ * Redux is touched until a bundle has been checked against the story that is currently loaded.
+ */
+
+import { SaveBundle, SaveBundleImage, SavedGame } from '../types';
+import { b64toBlob, blobToBase64 } from './dbService';
+import { imageCacheService } from './imageCacheService';
+import { migrateSavedGame } from './saveGameService';
+
+export const SAVE_BUNDLE_FORMAT = 'foul-shot/save-bundle';
+export const SAVE_BUNDLE_VERSION = 1;
+
+/** The facts about the loaded story that an imported bundle must agree with. */
+export interface SaveBundleContext {
+    storyId: string;
+    storyTitle: string;
+    objectIds: Set<string>;
+    characterIds: Set<string>;
+    locationIds: Set<string>;
+}
+
+/** Collects IDs that the current story doesn't know about, for a readable error message. */
+const findUnknownIds = (ids: Iterable<string>, known: Set<string>): string[] =>
+    Array.from(new Set(ids)).filter(id => !known.has(id));
+
+const describeUnknown = (kind: string, ids: string[]): string => {
+    const preview = ids.slice(0, 5).join(', ');
+    return `${ids.length} unknown ${kind} ID(s): ${preview}${ids.length > 5 ? ', …' : ''}`;
+};
+
+const isBundleImage = (raw: unknown): raw is SaveBundleImage => {
+    const image = raw as Partial<SaveBundleImage> | null;
+    return !!image && typeof image.id === 'string' && typeof image.mimeType === 'string' && typeof image.data === 'string';
+};
+
+/**
+ * Checks a parsed bundle against the current story.
+ * @param {unknown} raw - The parsed JSON content of a bundle file.
+ * @param {SaveBundleContext} context - The currently loaded story.
+ * @returns {{ bundle: SaveBundle | null; errors: string[] }} The migrated bundle if it is valid, plus any problems found.
+ */
+export const validateSaveBundle = (raw: unknown, context: SaveBundleContext): { bundle: SaveBundle | null; errors: string[] } => {
+    const candidate = raw as Partial<SaveBundle> | null;
+    if (!candidate || candidate.format !== SAVE_BUNDLE_FORMAT) {
+        return { bundle: null, errors: ['This file is not a Foul Shot save bundle.'] };
+    }
+    if (typeof candidate.bundleVersion !== 'number' || candidate.bundleVersion > SAVE_BUNDLE_VERSION) {
+        return { bundle: null, errors: ['This bundle was exported by a newer version of the game.'] };
+    }
+
+    const save: SavedGame | null = migrateSavedGame(candidate.save);
+    if (!save) {
+        return { bundle: null, errors: ['The save inside this bundle could not be read.'] };
+    }
+    if (save.storyId !== context.storyId) {
+        return { bundle: null, errors: [`This bundle is for "${candidate.storyTitle}", but "${context.storyTitle}" is loaded.`] };
+    }
+
+    const errors: string[] = [];
+    const dynamicObjectIds = new Set(save.story.dynamicObjects.map(obj => obj.id));
+    const knownObjectIds = new Set([...context.objectIds, ...dynamicObjectIds]);
+
+    const unknownObjects = findUnknownIds([
+        ...Object.keys(save.story.objectProgress),
+        ...save.story.evidence.map(ev => ev.cardId),
+    ], knownObjectIds);
+    if (unknownObjects.length > 0) errors.push(describeUnknown('object', unknownObjects));
+
+    const unknownCharacters = findUnknownIds([
+        ...Object.keys(save.story.suspectFlags),
+        ...Object.values(save.story.objectProgress).flatMap(progress => progress.assignedToSuspectIds),
+        ...save.dialogue.sessions.map(session => session.characterId),
+    ], context.characterIds);
+    if (unknownCharacters.length > 0) errors.push(describeUnknown('character', unknownCharacters));
+
+    const unknownLocations = findUnknownIds([
+        ...Object.keys(save.story.dynamicHotspotCoords),
+        ...save.ui.visitedLocationIds,
+    ], context.locationIds);
+    if (unknownLocations.length > 0) errors.push(describeUnknown('location', unknownLocations));
+
+    const images = Array.isArray(candidate.images) ? candidate.images : [];
+    if (!images.every(isBundleImage)) errors.push('One or more images in the bundle are malformed.');
+
+    if (errors.length > 0) return { bundle: null, errors };
+    return { bundle: { ...(candidate as SaveBundle), save, images }, errors };
+};
+
+/**
+ * A service object that encapsulates save bundle I/O.
+ */
+export const saveBundleService = {
+    /**
+     * Packs a save snapshot and every cached image of its story into a bundle.
+     * @param {SavedGame} save - The snapshot to export.
+     * @returns {Promise<SaveBundle>} The bundle, ready to be serialized.
+     */
+    async buildBundle(save: SavedGame): Promise<SaveBundle> {
+        const cachedImages = await imageCacheService.loadImages(save.storyId);
+        const images: SaveBundleImage[] = [];
+        for (const { id, blob } of cachedImages) {
+            if (!blob) continue;
+            try {
+                images.push({ id, mimeType: blob.type || 'image/png', data: await blobToBase64(blob) });
+            } catch (error) {
+                // A single unreadable Blob shouldn't block the export; that image will simply regenerate.
+                console.warn(`Skipping image "${id}" in save bundle:`, error);
+            }
+        }
+        return {
+            format: SAVE_BUNDLE_FORMAT,
+            bundleVersion: SAVE_BUNDLE_VERSION,
+            exportedAt: new Date().toISOString(),
+            storyTitle: save.storyTitle,
+            save,
+            images,
+        };
+    },
+
+    /**
+     * Triggers a browser download of a bundle as a JSON file.
+     * @param {SaveBundle} bundle - The bundle to download.
+     */
+    downloadBundle(bundle: SaveBundle): void {
+        const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const slug = bundle.storyTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${slug || 'investigation'}-${bundle.exportedAt.slice(0, 10)}.json`;
+        link.click();
+        // Revoking in the same task can cancel the download in some browsers, so the URL outlives the click.
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    },
+
+    /**
+     * Writes a validated bundle's images into the story's image cache, overwriting any with the same ID.
+     * @param {string} storyId - The story the bundle belongs to.
+     * @param {SaveBundleImage[]} images - The images to import.
+     * @returns {Promise<{ id: string, blob: Blob }[]>} The stored Blobs, for refreshing in-memory URLs.
+     */
+    async importImages(storyId: string, images: SaveBundleImage[]): Promise<{ id: string, blob: Blob }[]> {
+        const stored: { id: string, blob: Blob }[] = [];
+        for (const image of images) {
+            const blob = b64toBlob(image.data, image.mimeType);
+            await imageCacheService.storeUnverifiedImage(storyId, image.id, blob);
+            stored.push({ id: image.id, blob });
+        }
+        return stored;
+    },
+};
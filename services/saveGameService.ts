@@ -0,0 +1,222 @@
+/**
+ * @file services/saveGameService.ts
+ * @description Reads and writes versioned save-game snapshots through `dbService`.
+ *
+ * @architectural_note
+ * Every save carries a `schemaVersion`. When the shape of `SavedGame` changes, bump
+ * `SAVE_SCHEMA_VERSION`, describe the previous shape in `SaveAtVersion`, and register a migration
+ * keyed by the version it upgrades *from*.
+ * Migrations run in sequence on load, so a save written by any older build is walked forward
+ * one step at a time until it matches the current shape. Saves written by a *newer* build are
+ * rejected rather than guessed at.
+ */
+
+import { SavedCaseFileState, SavedGame, SavedNarrativeState, SavedStoryState, SaveSlotRecord } from '../types';
+import { dbService } from './dbService';
+import { getStoryPackage } from '../data/storyRegistry';
+
+/** The current save-game schema version. */
+export const SAVE_SCHEMA_VERSION = 6;
+
+/** The key the single autosave was stored under before each case kept its own. Only ever read. */
+export const LEGACY_AUTOSAVE_KEY = 'autosave';
+
+/**
+ * Returns the key under which a case's continuous autosave is stored.
+ * @param {string} storyId - The registry ID of the case.
+ * @returns {string} The autosave key.
+ */
+export const getAutosaveKey = (storyId: string): string => `autosave:${storyId}`;
+
+/** Named save slots share the saves store with the autosave, distinguished by this key prefix. */
+const SLOT_KEY_PREFIX = 'slot:';
+
+/**
+ * The shape of a save at each schema version. Each older shape is written as its difference from the next.
+ * Older records are trusted to match the shape their version number claims.
+ */
+interface SaveAtVersion {
+    1: Omit<SaveAtVersion[2], 'dialogue'>;
+    2: Omit<SaveAtVersion[3], 'storyId'>;
+    // Same shape as v4, but its case file may still name supporting slots that no longer exist.
+    3: SaveAtVersion[4];
+    4: Omit<SaveAtVersion[5], 'story' | 'narrative'> & { story: SavedStoryState & { hasDiscoveredPaint?: boolean } };
+    5: Omit<SaveAtVersion[6], 'narrative'> & { narrative: Omit<SavedNarrativeState, 'solvedInteractionObjectIds'> };
+    6: SavedGame;
+}
+
+/** A save at any version the migrations know about. */
+type AnySave = SaveAtVersion[keyof SaveAtVersion];
+
+/** The version each older version migrates to. */
+interface NextSaveVersion { 1: 2; 2: 3; 3: 4; 4: 5; 5: 6 }
+
+/** The migration registry's type: each migration receives a save at version N and returns it in the version N + 1 shape. */
+type SaveMigrations = {
+    [N in keyof NextSaveVersion]: (save: SaveAtVersion[N]) => SaveAtVersion[NextSaveVersion[N]];
+};
+
+/**
+ * Moves a save's supporting-clue placements onto the case file's generated slots. Each anchor once
+ * had a hand-written number of supporting slots; it now has one per supporting clue, so slot IDs
+ * past that count no longer exist. Placements keep their order and are packed into the anchor's
+ * current slots; any that don't fit return to the evidence pool, and are reported. A case file whose
+ * slots all still exist is returned untouched.
+ */
+const repackSupportingPlacements = (storyId: string, caseFile: SavedCaseFileState): SavedCaseFileState => {
+    const anchors = getStoryPackage(storyId).storyData.caseFile.anchors;
+    const slotIds = new Set(anchors.flatMap(anchor => [anchor.primarySlot, ...anchor.supportingSlots].map(slot => slot.slotId)));
+    if (Object.keys(caseFile.slotPlacements ?? {}).every(slotId => slotIds.has(slotId))) {
+        return caseFile;
+    }
+
+    const slotPlacements = { ...caseFile.slotPlacements };
+    anchors.forEach(anchor => {
+        const prefix = `${anchor.id}-support-`;
+        const placed = Object.keys(slotPlacements)
+            .filter(slotId => slotId.startsWith(prefix))
+            .sort((a, b) => Number(a.slice(prefix.length)) - Number(b.slice(prefix.length)))
+            .map(slotId => {
+                const clueId = slotPlacements[slotId];
+                delete slotPlacements[slotId];
+                return clueId;
+            })
+            .filter((clueId): clueId is string => !!clueId);
+
+        anchor.supportingSlots.forEach((slot, index) => {
+            slotPlacements[slot.slotId] = placed[index] ?? null;
+        });
+        const unplaced = placed.slice(anchor.supportingSlots.length);
+        if (unplaced.length > 0) {
+            console.warn(`Save migration: the "${anchor.id}" case file anchor has fewer supporting slots now; returned ${unplaced.join(', ')} to the evidence pool.`);
+        }
+    });
+    return { ...caseFile, slotPlacements };
+};
+
+/**
+ * The migration registry, keyed by the schema version each function upgrades from.
+ */
+const SAVE_MIGRATIONS: SaveMigrations = {
+    // v2 persists interrogation transcripts. Older saves simply have no conversations yet.
+    1: (save) => ({ ...save, dialogue: { sessions: [] } }),
+    // v3 records which registered case a save belongs to. Foul Shot was the only case before then.
+    2: (save) => ({ ...save, storyId: 'foul-shot' }),
+    // v4 case files have one supporting slot per supporting clue, so placements in slots that were
+    // removed (e.g. Foul Shot's `means-support-3`) are moved onto the slots that remain.
+    3: (save) => ({ ...save, caseFile: repackSupportingPlacements(save.storyId, save.caseFile) }),
+    // v5 keeps story flags in the narrative slice. The one hardcoded flag, `hasDiscoveredPaint`,
+    // belonged to a discovery Foul Shot never had, so it is dropped rather than carried over.
+    4: ({ story: { hasDiscoveredPaint, ...story }, ...save }) => ({
+        ...save,
+        story,
+        narrative: { flags: {}, firedTriggerIds: [], unlockedHotspotIds: [] },
+    }),
+    // v6 records which interaction minigames were solved, since locks can now require one.
+    5: (save) => ({ ...save, narrative: { ...save.narrative, solvedInteractionObjectIds: [] } }),
+};
+
+/**
+ * Walks a raw save record forward to the current schema version.
+ * @param {unknown} raw - The record as read from storage.
+ * @returns {SavedGame | null} The migrated save, or null if the record is unusable.
+ */
+export const migrateSavedGame = (raw: unknown): SavedGame | null => {
+    const record = raw as { schemaVersion?: unknown } | null | undefined;
+    if (!record || typeof record.schemaVersion !== 'number') {
+        return null;
+    }
+    if (record.schemaVersion > SAVE_SCHEMA_VERSION) {
+        console.warn(`Save was written by a newer build (schema v${record.schemaVersion}). Ignoring it.`);
+        return null;
+    }
+
+    let save = record as AnySave;
+    while (save.schemaVersion < SAVE_SCHEMA_VERSION) {
+        // The version is only known at runtime, so the lookup can't keep each step's own types.
+        const migrate = (SAVE_MIGRATIONS as { [fromVersion: number]: ((save: AnySave) => AnySave) | undefined })[save.schemaVersion];
+        if (!migrate) {
+            console.error(`No save migration registered from schema v${save.schemaVersion}.`);
+            return null;
+        }
+        save = { ...migrate(save), schemaVersion: save.schemaVersion + 1 };
+    }
+    return save as SavedGame;
+};
+
+/**
+ * A service object that encapsulates save-game storage.
+ */
+export const saveGameService = {
+    /**
+     * Persists a save under the given key.
+     * @param {string} key - The save key.
+     * @param {SavedGame} save - The snapshot to store.
+     */
+    async writeSave(key: string, save: SavedGame): Promise<void> {
+        await dbService.putSaveRecord(key, save);
+    },
+
+    /**
+     * Loads and migrates a save.
+     * @param {string} key - The save key.
+     * @returns {Promise<SavedGame | null>} The migrated save, or null if none exists or it can't be read.
+     */
+    async readSave(key: string): Promise<SavedGame | null> {
+        const raw = await dbService.getSaveRecord(key);
+        return raw ? migrateSavedGame(raw) : null;
+    },
+
+    /**
+     * Removes a save.
+     * @param {string} key - The save key.
+     */
+    async deleteSave(key: string): Promise<void> {
+        await dbService.deleteSaveRecord(key);
+    },
+
+    /**
+     * Lists every named save slot, newest first. Each slot's snapshot is migrated on the way out;
+     * slots whose snapshot can't be migrated are skipped.
+     * @returns {Promise<SaveSlotRecord[]>} The readable save slots.
+     */
+    async listSlots(): Promise<SaveSlotRecord[]> {
+        const records = await dbService.getAllSaveRecords();
+        return records
+            .filter(({ key }) => key.startsWith(SLOT_KEY_PREFIX))
+            .map(({ record }) => {
+                const slot = record as SaveSlotRecord;
+                const save = migrateSavedGame(slot?.save);
+                return save ? { ...slot, save } : null;
+            })
+            .filter((slot): slot is SaveSlotRecord => !!slot)
+            .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+    },
+
+    /**
+     * Reads a single named save slot.
+     * @param {string} slotId - The slot ID.
+     * @returns {Promise<SaveSlotRecord | null>} The slot with a migrated snapshot, or null.
+     */
+    async readSlot(slotId: string): Promise<SaveSlotRecord | null> {
+        const slot = await dbService.getSaveRecord(`${SLOT_KEY_PREFIX}${slotId}`) as SaveSlotRecord | undefined;
+        const save = migrateSavedGame(slot?.save);
+        return slot && save ? { ...slot, save } : null;
+    },
+
+    /**
+     * Creates or overwrites a named save slot.
+     * @param {SaveSlotRecord} slot - The slot to store.
+     */
+    async writeSlot(slot: SaveSlotRecord): Promise<void> {
+        await dbService.putSaveRecord(`${SLOT_KEY_PREFIX}${slot.id}`, slot);
+    },
+
+    /**
+     * Removes a named save slot.
+     * @param {string} slotId - The slot ID.
+     */
+    async deleteSlot(slotId: string): Promise<void> {
+        await dbService.deleteSaveRecord(`${SLOT_KEY_PREFIX}${slotId}`);
+    },
+};
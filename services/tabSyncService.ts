@@ -0,0 +1,112 @@
+/**
+ * @file services/tabSyncService.ts
+ * @description A thin wrapper around `BroadcastChannel` and the Web Locks API that lets several
+ * open tabs of the game talk to each other and agree on a single image-queue leader.
+ *
+ * @architectural_note
+ * Leader election uses an exclusive Web Lock that the leader holds for as long as the tab is
+ * open. When the leader tab closes, the browser releases the lock and the next waiting tab is
+ * granted it automatically; there are no heartbeats or timeouts to tune. In browsers without
+ * Web Locks (or without BroadcastChannel) every tab simply acts as its own leader, which is
+ * exactly the pre-sync behaviour.
+ *
+ * Tabs may be playing different cases, so every message names its story and there is one leader
+ * lock per story.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { UnknownAction } from '@reduxjs/toolkit';
+
+const CHANNEL_NAME = 'foul-shot-sync';
+const LEADER_LOCK_NAME = 'foul-shot-image-queue-leader';
+
+/** The messages exchanged between tabs. `storyId` is the case the sending tab is playing. */
+export type TabSyncMessage =
+    | { kind: 'action'; sourceTabId: string; storyId: string; action: UnknownAction }
+    | { kind: 'imagesReady'; sourceTabId: string; storyId: string; results: { cardId: string; error: boolean; promptHash?: string }[] };
+
+/**
+ * True for actions that arrived from another tab (`tabSyncSlice` marks them with `meta.fromTab`).
+ * Kept out of the slice so that slices whose actions it syncs can check it without an import cycle.
+ */
+export const isRemoteAction = (action: UnknownAction): boolean =>
+    !!(action.meta as { fromTab?: string } | undefined)?.fromTab;
+
+/** This tab's identity for the lifetime of the page. */
+const TAB_ID = uuidv4();
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+    if (channel) return channel;
+    if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    return channel;
+};
+
+/**
+ * A service object that encapsulates cross-tab messaging and leader election.
+ */
+export const tabSyncService = {
+    tabId: TAB_ID,
+
+    /** Whether this browser can elect a leader. Without it, every tab must process its own image queue. */
+    supportsLeaderElection(): boolean {
+        return typeof navigator !== 'undefined' && !!navigator.locks && !!getChannel();
+    },
+
+    /**
+     * Sends a message to every other open tab. Messages are never delivered back to the sender.
+     * @param {TabSyncMessage} message - The message to broadcast.
+     */
+    post(message: TabSyncMessage): void {
+        try {
+            getChannel()?.postMessage(message);
+        } catch (error) {
+            // Typically a DataCloneError from a non-serializable payload; the other tabs just miss this one.
+            console.warn('Failed to broadcast message to other tabs:', error);
+        }
+    },
+
+    /**
+     * Registers a handler for messages from other tabs.
+     * @param {(message: TabSyncMessage) => void} handler - Called for each incoming message.
+     * @returns {() => void} A function that removes the handler.
+     */
+    subscribe(handler: (message: TabSyncMessage) => void): () => void {
+        const activeChannel = getChannel();
+        if (!activeChannel) return () => {};
+        const listener = (event: MessageEvent<TabSyncMessage>) => handler(event.data);
+        activeChannel.addEventListener('message', listener);
+        return () => activeChannel.removeEventListener('message', listener);
+    },
+
+    /**
+     * Queues this tab for image-queue leadership of one story. `onAcquired` runs once, when (and if)
+     * this tab becomes the leader; the lock is then held until it is released or the tab is closed.
+     * @param {string} storyId - The story whose image queue to lead.
+     * @param {() => void} onAcquired - Called when this tab becomes the leader.
+     * @returns {() => void} A function that leaves the election, or gives up leadership if it was won.
+     */
+    requestLeadership(storyId: string, onAcquired: () => void): () => void {
+        if (!this.supportsLeaderElection()) {
+            onAcquired();
+            return () => {};
+        }
+        const abortController = new AbortController();
+        let releaseLock = () => {};
+        navigator.locks.request(`${LEADER_LOCK_NAME}:${storyId}`, { signal: abortController.signal }, () => {
+            onAcquired();
+            // Holding the lock until released is what makes this tab the leader.
+            return new Promise<void>(resolve => { releaseLock = resolve; });
+        }).catch(error => {
+            if (abortController.signal.aborted) return;
+            console.error('Image queue leader election failed; processing images locally.', error);
+            onAcquired();
+        });
+        return () => {
+            abortController.abort();
+            releaseLock();
+        };
+    },
+};
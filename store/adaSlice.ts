@@ -3,16 +3,34 @@
  * @description This Redux slice manages the state for the AI assistant, ADA.
  * It handles the list of messages, loading and error states for API calls,
  * and whether there are new, unread messages.
+ * Card analyses go through `analyzeCard`, which answers from the analysis cache when it can
+ * (see `services/adaCacheService.ts`); the player can always ask for a fresh one.
+ * Responses stream in: `streamingMessage` holds the text received so far, and only one response
+ * streams at a time, since a newer request means the player has moved on.
  */
 
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { getADAResponse as fetchADAResponse } from '../services/geminiService';
+import { getADAResponse as fetchADAResponse } from '../services/aiService';
+import { adaCacheService } from '../services/adaCacheService';
+import { ADARequest, ADAAnalysisCacheEntry } from '../types';
 import { ADA_CONFIG } from '../config';
+import { caseSelected } from './caseSelectionSlice';
+import type { RootState } from './index';
 
 // The maximum number of messages to keep in ADA's log. This is a performance and memory
 // optimization to prevent the messages array from growing indefinitely during a long play session.
 const MAX_MESSAGES = ADA_CONFIG.MAX_MESSAGES;
 
+/**
+ * A card analysis on screen, with what is needed to request it again.
+ */
+interface CardAnalysis {
+  cacheKey: string;
+  request: ADARequest;
+  /** When the analysis was stored, if it was restored from the cache rather than freshly requested. */
+  cachedAt: string | null;
+}
+
 /**
  * Defines the shape of the ADA state.
  */
@@ -21,6 +39,8 @@ interface ADAState {
   isLoading: boolean; // True when an API call is in progress.
   error: string | null; // Stores any error message from the API call.
   hasNewMessages: boolean; // True if there are new messages the user hasn't seen yet.
+  cardAnalysis: CardAnalysis | null; // The analysis of the card in view, if there is one.
+  streamingMessage: string | null; // The response received so far while one is streaming.
 }
 
 /**
@@ -31,22 +51,87 @@ const initialState: ADAState = {
   isLoading: false,
   error: null,
   hasNewMessages: false,
+  cardAnalysis: null,
+  streamingMessage: null,
 };
 
+/** Cancels the response still streaming, if any. */
+let activeStream: AbortController | null = null;
+
 /**
- * An async thunk to fetch a response from the Gemini API.
+ * An async thunk to fetch a response from the configured AI provider.
  * This abstracts the API call logic and handles the async lifecycle (pending, fulfilled, rejected).
+ * Text is reported through `adaResponseStreamed` as it arrives. Starting a request cancels the one
+ * still streaming, which then rejects as aborted and is ignored by the reducers.
  */
-export const getADAResponse = createAsyncThunk<string, string, { rejectValue: string }>(
+export const getADAResponse = createAsyncThunk<string, ADARequest, { rejectValue: string }>(
   'ada/getResponse',
-  async (prompt, { rejectWithValue }) => {
+  async (request, { dispatch, rejectWithValue }) => {
+    activeStream?.abort();
+    const controller = new AbortController();
+    activeStream = controller;
     try {
-      const response = await fetchADAResponse(prompt);
+      const response = await fetchADAResponse(request, {
+        signal: controller.signal,
+        onText: text => {
+          if (!controller.signal.aborted) dispatch(adaResponseStreamed(text));
+        },
+      });
+      // Providers that can't stream can't be stopped either; their answer is dropped instead.
+      controller.signal.throwIfAborted();
       return response;
     } catch (error: any) {
+      // --- SUPERSEDED STREAM ---
+      // Rethrowing the abort reason (an `AbortError`) marks the rejection as aborted.
+      if (controller.signal.aborted) throw controller.signal.reason;
       // The `rejectWithValue` function is used to return a standard payload on failure.
       return rejectWithValue(error.message || 'An unknown error occurred with the AI.');
+    } finally {
+      if (activeStream === controller) activeStream = null;
+    }
+  }
+);
+
+/**
+ * Analyses the card in view: shows the cached analysis if there is one, and otherwise requests a
+ * fresh one and caches it. Requests carrying scripted directives always go to the AI, so the
+ * scripted note is delivered, and their answer replaces whatever was cached.
+ */
+export const analyzeCard = createAsyncThunk<void, { cacheKey: string; request: ADARequest; reanalyze?: boolean }, { state: RootState }>(
+  'ada/analyzeCard',
+  async ({ cacheKey, request, reanalyze }, { dispatch, getState }) => {
+    // A cached answer must not be followed by the end of an older stream.
+    activeStream?.abort();
+    dispatch(cardAnalysisRequested({ cacheKey, request }));
+
+    if (!reanalyze && request.directives.length === 0) {
+      const entry = await adaCacheService.getAnalysis(cacheKey);
+      // --- STALE LOOKUP GUARD ---
+      // The player may have moved to another card while IndexedDB was answering.
+      if (getState().ada.cardAnalysis?.cacheKey !== cacheKey) return;
+      if (entry) {
+        dispatch(cardAnalysisRestored(entry));
+        return;
+      }
     }
+
+    const result = await dispatch(getADAResponse(request));
+    if (getADAResponse.fulfilled.match(result)) {
+      await adaCacheService.saveAnalysis(cacheKey, result.payload);
+    }
+  }
+);
+
+/**
+ * Asks ADA for a fresh analysis of the card in view, replacing the one on screen and in the cache.
+ */
+export const reanalyzeCard = createAsyncThunk<void, void, { state: RootState }>(
+  'ada/reanalyzeCard',
+  async (_, { dispatch, getState }) => {
+    const cardAnalysis = getState().ada.cardAnalysis;
+    if (!cardAnalysis) return;
+    dispatch(clearADAMessages());
+    await dispatch(analyzeCard({ cacheKey: cardAnalysis.cacheKey, request: cardAnalysis.request, reanalyze: true }));
   }
 );
 
@@ -83,16 +168,52 @@ const adaSlice = createSlice({
         state.isLoading = false;
         state.error = null;
         state.hasNewMessages = false;
+        state.cardAnalysis = null;
+        state.streamingMessage = null;
+    },
+    /**
+     * Updates the response that is streaming in.
+     * @param {string} action.payload All the text received so far.
+     */
+    adaResponseStreamed(state, action: PayloadAction<string>) {
+        if (state.streamingMessage === null) return;
+        state.streamingMessage = action.payload;
+    },
+    /**
+     * Records which card analysis is being fetched, so a late answer for another card can be ignored
+     * and the player can ask for it again.
+     */
+    cardAnalysisRequested(state, action: PayloadAction<{ cacheKey: string; request: ADARequest }>) {
+        state.cardAnalysis = { ...action.payload, cachedAt: null };
+    },
+    /**
+     * Shows an analysis restored from the cache, as if ADA had just given it.
+     * @param {ADAAnalysisCacheEntry} action.payload The cached analysis.
+     */
+    cardAnalysisRestored(state, action: PayloadAction<ADAAnalysisCacheEntry>) {
+        if (state.cardAnalysis?.cacheKey !== action.payload.id) return;
+        state.cardAnalysis.cachedAt = action.payload.cachedAt;
+        // Any earlier request was cancelled to make way for this one.
+        state.isLoading = false;
+        state.streamingMessage = null;
+        state.messages.push(action.payload.text);
+        state.hasNewMessages = true;
+        if (state.messages.length > MAX_MESSAGES) {
+          state.messages.shift();
+        }
     }
   },
   extraReducers: (builder) => {
     builder
+      .addCase(caseSelected, () => initialState)
       .addCase(getADAResponse.pending, (state) => {
         state.isLoading = true;
         state.error = null;
+        state.streamingMessage = '';
       })
       .addCase(getADAResponse.fulfilled, (state, action: PayloadAction<string>) => {
         state.isLoading = false;
+        state.streamingMessage = null;
         state.hasNewMessages = true;
         state.messages.push(action.payload);
         // Prune the message history if it exceeds the maximum length.
@@ -101,17 +222,24 @@ const adaSlice = createSlice({
         }
       })
       .addCase(getADAResponse.rejected, (state, action) => {
+        // A superseded stream: the request that replaced it owns the loading state now.
+        if (action.meta?.aborted) return;
         state.isLoading = false;
         state.hasNewMessages = true;
         const errorMessage = action.payload || 'Failed to get a response from ADA.';
         state.error = errorMessage;
+        // Whatever arrived before the stream broke is still worth reading.
+        if (state.streamingMessage) {
+          state.messages.push(state.streamingMessage);
+        }
+        state.streamingMessage = null;
         state.messages.push("Analysis interrupted. A data corruption error occurred.");
-         if (state.messages.length > MAX_MESSAGES) {
+        while (state.messages.length > MAX_MESSAGES) {
           state.messages.shift();
         }
       });
   },
 });
 
-export const { addADAMessage, markMessagesAsRead, clearADAMessages } = adaSlice.actions;
+export const { addADAMessage, markMessagesAsRead, clearADAMessages, adaResponseStreamed, cardAnalysisRequested, cardAnalysisRestored } = adaSlice.actions;
 export default adaSlice.reducer;
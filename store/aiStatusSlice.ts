@@ -0,0 +1,54 @@
+/**
+ * @file store/aiStatusSlice.ts
+ * @description Mirrors the AI request policy's circuit breaker into Redux, so the UI can tell the
+ * player when AI features are paused and when they will resume.
+ *
+ * @architectural_note
+ * The circuit itself lives in `services/ai/requestPolicy.ts`, next to the requests it guards; this
+ * slice only follows it. `startAIStatusSync` subscribes once per session, and every change arrives
+ * as an `aiStatusChanged` action.
+ */
+
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import type { RootState } from './index';
+import { AIStatus } from '../types';
+import { getAIStatus, subscribeToAIStatus } from '../services/aiService';
+import { logError } from './errorLogSlice';
+
+const initialState: AIStatus = { circuit: 'closed', resumesAt: null, reason: null };
+
+const aiStatusSlice = createSlice({
+  name: 'aiStatus',
+  initialState,
+  reducers: {
+    aiStatusChanged: (_state, action: PayloadAction<AIStatus>) => action.payload,
+  },
+});
+
+export const { aiStatusChanged } = aiStatusSlice.actions;
+
+let isSubscribed = false;
+
+/**
+ * An async thunk that starts following the circuit breaker's status. Dispatching it again has no effect.
+ */
+export const startAIStatusSync = createAsyncThunk<void, void, { state: RootState }>(
+  'aiStatus/startSync',
+  async (_, { dispatch, getState }) => {
+    if (isSubscribed) return;
+    isSubscribed = true;
+
+    dispatch(aiStatusChanged(getAIStatus()));
+    subscribeToAIStatus(status => {
+      // Only the moment the circuit opens is worth a log entry; the reason is the quota error itself.
+      if (status.circuit === 'open' && getState().aiStatus.circuit !== 'open') {
+        dispatch(logError({ message: `AI requests paused until ${status.resumesAt} after repeated quota errors: ${status.reason}` }));
+      }
+      dispatch(aiStatusChanged(status));
+    });
+  }
+);
+
+export const selectAIStatus = (state: RootState) => state.aiStatus;
+
+export default aiStatusSlice.reducer;
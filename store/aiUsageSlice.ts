@@ -0,0 +1,170 @@
+/**
+ * @file store/aiUsageSlice.ts
+ * @description Holds the AI usage log for the usage dashboard: every AI request from the last few
+ * days, with selectors for the session, per-day and per-endpoint totals.
+ *
+ * @architectural_note
+ * Records arrive from the request policy through `startAIUsageTracking`, which also loads the
+ * stored log once per session; a listener appends each new record to IndexedDB. All totals are
+ * derived in selectors, so the stored log stays a plain list of requests.
+ */
+
+import { createSlice, createAsyncThunk, createEntityAdapter, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import type { RootState } from './index';
+import { startAppListening } from './listenerMiddleware';
+import { AIUsageRecord } from '../types';
+import { subscribeToAIUsage } from '../services/aiService';
+import { aiUsageService, toDayKey, AIUsageTotals } from '../services/aiUsageService';
+import { selectAllCharacters, selectAllObjects, selectAllLocations, selectStoryInfo } from './storySlice';
+import { AI_USAGE_CONFIG } from '../config';
+
+const aiUsageAdapter = createEntityAdapter<AIUsageRecord>();
+
+interface AIUsageState {
+  records: ReturnType<typeof aiUsageAdapter.getInitialState>;
+  /** When this session started; the session totals count the requests made since. */
+  sessionStartedAt: string;
+}
+
+const initialState: AIUsageState = {
+  records: aiUsageAdapter.getInitialState(),
+  sessionStartedAt: new Date().toISOString(),
+};
+
+const aiUsageSlice = createSlice({
+  name: 'aiUsage',
+  initialState,
+  reducers: {
+    aiUsageLoaded: (state, action: PayloadAction<AIUsageRecord[]>) => {
+      aiUsageAdapter.upsertMany(state.records, action.payload);
+    },
+    aiUsageRecorded: (state, action: PayloadAction<AIUsageRecord>) => {
+      aiUsageAdapter.addOne(state.records, action.payload);
+    },
+  },
+});
+
+export const { aiUsageLoaded, aiUsageRecorded } = aiUsageSlice.actions;
+
+let isSubscribed = false;
+
+/**
+ * An async thunk that starts recording AI usage and loads the stored log. Dispatching it again has no effect.
+ */
+export const startAIUsageTracking = createAsyncThunk(
+  'aiUsage/startTracking',
+  async (_, { dispatch }) => {
+    if (isSubscribed) return;
+    isSubscribed = true;
+
+    // Subscribed before loading, so requests made while the log loads aren't missed.
+    subscribeToAIUsage(record => dispatch(aiUsageRecorded(record)));
+    dispatch(aiUsageLoaded(await aiUsageService.loadRecentRecords()));
+  }
+);
+
+// Every new record is appended to the stored log as it arrives.
+startAppListening({
+  actionCreator: aiUsageRecorded,
+  effect: (action) => {
+    aiUsageService.saveRecord(action.payload);
+  },
+});
+
+const { selectAll: selectAIUsageRecords } = aiUsageAdapter.getSelectors((state: RootState) => state.aiUsage.records);
+
+const selectSessionStartedAt = (state: RootState) => state.aiUsage.sessionStartedAt;
+
+/** The totals the usage dashboard shows. */
+export interface AIUsageDashboard {
+  session: AIUsageTotals;
+  today: AIUsageTotals;
+  /** Attempts left in today's budget; negative once it is overspent. */
+  remainingToday: number;
+  /** Each day in the log, newest first. */
+  byDay: Array<{ day: string; totals: AIUsageTotals }>;
+  /** Today's totals per endpoint, the most attempts first, with the models and prompt template versions used. */
+  todayByEndpoint: Array<{ endpoint: string; models: string[]; promptTemplates: string[]; totals: AIUsageTotals }>;
+}
+
+/**
+ * Selects the usage dashboard's totals.
+ * @param {RootState} state - The root state.
+ * @param {string} today - Today's day key (see `toDayKey`), so the selector doesn't read the clock.
+ */
+export const selectAIUsageDashboard = createSelector(
+  [selectAIUsageRecords, selectSessionStartedAt, (_state: RootState, today: string) => today],
+  (records, sessionStartedAt, today): AIUsageDashboard => {
+    const recordsByDay = new Map<string, AIUsageRecord[]>();
+    records.forEach(record => {
+      const day = toDayKey(record.timestamp);
+      recordsByDay.set(day, [...(recordsByDay.get(day) ?? []), record]);
+    });
+    const todaysRecords = recordsByDay.get(today) ?? [];
+
+    const recordsByEndpoint = new Map<string, AIUsageRecord[]>();
+    todaysRecords.forEach(record => {
+      recordsByEndpoint.set(record.endpoint, [...(recordsByEndpoint.get(record.endpoint) ?? []), record]);
+    });
+
+    const todayTotals = aiUsageService.summarize(todaysRecords);
+    return {
+      session: aiUsageService.summarize(records.filter(record => record.timestamp >= sessionStartedAt)),
+      today: todayTotals,
+      remainingToday: AI_USAGE_CONFIG.DAILY_REQUEST_LIMIT - todayTotals.attempts,
+      byDay: [...recordsByDay.entries()]
+        .sort(([a], [b]) => b.localeCompare(a))
+        .map(([day, dayRecords]) => ({ day, totals: aiUsageService.summarize(dayRecords) })),
+      todayByEndpoint: [...recordsByEndpoint.entries()]
+        .map(([endpoint, endpointRecords]) => ({
+          endpoint,
+          models: [...new Set(endpointRecords.map(record => record.model))],
+          promptTemplates: [...new Set(endpointRecords.flatMap(record => record.promptTemplate ?? []))],
+          totals: aiUsageService.summarize(endpointRecords),
+        }))
+        .sort((a, b) => b.totals.attempts - a.totals.attempts),
+    };
+  }
+);
+
+/** An image prompt and what generating it has cost. */
+export interface ImagePromptUsage {
+  prompt: string;
+  /** The card in the current case with this image prompt, if any. */
+  cardName: string | null;
+  requests: number;
+  attempts: number;
+  failures: number;
+}
+
+/**
+ * Selects the image prompts generated most often across the whole log, which are what drain an
+ * image quota: cards whose images keep failing, or keep being regenerated.
+ */
+export const selectMostRegeneratedImages = createSelector(
+  [selectAIUsageRecords, selectAllCharacters, selectAllObjects, selectAllLocations, selectStoryInfo],
+  (records, characters, objects, locations, storyInfo): ImagePromptUsage[] => {
+    const cardNames = new Map<string, string>();
+    [...characters, ...objects, ...locations].forEach(card => cardNames.set(card.imagePrompt, card.name));
+    if (storyInfo.mapImagePrompt) cardNames.set(storyInfo.mapImagePrompt, 'Map');
+
+    const usage = new Map<string, ImagePromptUsage>();
+    records
+      .filter(record => record.endpoint === 'generateImage' && record.subject)
+      .forEach(record => {
+        const prompt = record.subject!;
+        const entry = usage.get(prompt) ?? { prompt, cardName: cardNames.get(prompt) ?? null, requests: 0, attempts: 0, failures: 0 };
+        usage.set(prompt, {
+          ...entry,
+          requests: entry.requests + 1,
+          attempts: entry.attempts + record.attempts,
+          failures: entry.failures + (record.outcome === 'ok' ? 0 : 1),
+        });
+      });
+    return [...usage.values()]
+      .sort((a, b) => b.attempts - a.attempts)
+      .slice(0, AI_USAGE_CONFIG.TOP_IMAGE_PROMPTS);
+  }
+);
+
+export default aiUsageSlice.reducer;
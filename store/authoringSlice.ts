@@ -0,0 +1,126 @@
+/**
+ * @file store/authoringSlice.ts
+ * @description State for the developer authoring mode: whether it's on, and the writer's edits to
+ * locations (text, hotspot placement, new move links) and objects (text) since the case was loaded.
+ *
+ * @architectural_note
+ * Edits live here rather than in the story slice, so they are never autosaved, synced to other tabs
+ * or undone with the player's actions. Cards overlay them through `authoringService` for a live
+ * preview, and `exportAuthoredContent` writes them into the story's raw source arrays.
+ */
+
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { Hotspot, HotspotChanges, LocationEdit, ObjectEdit } from '../types';
+import type { RootState } from './index';
+import { caseSelected } from './caseSelectionSlice';
+import { selectStoryPackage } from './storySlice';
+import { logError } from './errorLogSlice';
+import { authoringService } from '../services/authoringService';
+
+interface AuthoringState {
+  isActive: boolean;
+  locationEdits: { [locationId: string]: LocationEdit };
+  objectEdits: { [objectId: string]: ObjectEdit };
+  exportError: string | null;
+}
+
+const initialState: AuthoringState = {
+  isActive: false,
+  locationEdits: {},
+  objectEdits: {},
+  exportError: null,
+};
+
+/**
+ * An async thunk that downloads the story's `rawLocations` and `rawObjects` with every edit applied,
+ * ready to paste over the source files.
+ */
+export const exportAuthoredContent = createAsyncThunk<void, void, { state: RootState; rejectValue: string }>(
+  'authoring/export',
+  async (_, { getState, dispatch, rejectWithValue }) => {
+    const state = getState();
+    const storyPackage = selectStoryPackage(state);
+    if (!storyPackage.loadRawContent) {
+      return rejectWithValue(`"${storyPackage.title}" does not provide its source content for export.`);
+    }
+    try {
+      const raw = await storyPackage.loadRawContent();
+      const patched = authoringService.patchRawContent(raw, state.authoring.locationEdits, state.authoring.objectEdits);
+      authoringService.downloadPatchedContent(storyPackage.id, patched);
+    } catch (error) {
+      dispatch(logError({ message: 'Failed to export authored content.', stack: (error as Error).stack }));
+      return rejectWithValue('The authored content could not be exported.');
+    }
+  }
+);
+
+const emptyLocationEdit = (): LocationEdit => ({ text: {}, hotspotChanges: {}, addedHotspots: [] });
+
+const authoringSlice = createSlice({
+  name: 'authoring',
+  initialState,
+  reducers: {
+    authoringToggled(state) {
+      state.isActive = !state.isActive;
+    },
+    locationTextEdited(state, action: PayloadAction<{ locationId: string; text: LocationEdit['text'] }>) {
+      const edit = (state.locationEdits[action.payload.locationId] ??= emptyLocationEdit());
+      Object.assign(edit.text, action.payload.text);
+    },
+    hotspotEdited(state, action: PayloadAction<{ locationId: string; hotspotId: string; changes: HotspotChanges }>) {
+      const { locationId, hotspotId, changes } = action.payload;
+      const edit = (state.locationEdits[locationId] ??= emptyLocationEdit());
+      edit.hotspotChanges[hotspotId] = { ...edit.hotspotChanges[hotspotId], ...changes };
+    },
+    hotspotAdded(state, action: PayloadAction<{ locationId: string; hotspot: Hotspot }>) {
+      const edit = (state.locationEdits[action.payload.locationId] ??= emptyLocationEdit());
+      edit.addedHotspots.push(action.payload.hotspot);
+    },
+    /** Only hotspots added in authoring mode can be removed; authored ones are deleted in the source. */
+    addedHotspotRemoved(state, action: PayloadAction<{ locationId: string; hotspotId: string }>) {
+      const edit = state.locationEdits[action.payload.locationId];
+      if (!edit) return;
+      edit.addedHotspots = edit.addedHotspots.filter(h => h.id !== action.payload.hotspotId);
+      delete edit.hotspotChanges[action.payload.hotspotId];
+    },
+    objectTextEdited(state, action: PayloadAction<{ objectId: string; text: ObjectEdit }>) {
+      state.objectEdits[action.payload.objectId] = { ...state.objectEdits[action.payload.objectId], ...action.payload.text };
+    },
+    authoringEditsDiscarded(state) {
+      state.locationEdits = {};
+      state.objectEdits = {};
+    },
+  },
+  extraReducers: (builder) => {
+    // Edits are made against one case's content; they mean nothing in another.
+    builder.addCase(caseSelected, (state) => ({ ...initialState, isActive: state.isActive }));
+    builder.addCase(exportAuthoredContent.pending, (state) => {
+      state.exportError = null;
+    });
+    builder.addCase(exportAuthoredContent.rejected, (state, action) => {
+      state.exportError = action.payload ?? 'The authored content could not be exported.';
+    });
+  },
+});
+
+export const {
+  authoringToggled,
+  locationTextEdited,
+  hotspotEdited,
+  hotspotAdded,
+  addedHotspotRemoved,
+  objectTextEdited,
+  authoringEditsDiscarded,
+} = authoringSlice.actions;
+
+// --- Selectors ---
+
+export const selectIsAuthoring = (state: RootState) => state.authoring.isActive;
+export const selectLocationEdit = (state: RootState, locationId: string): LocationEdit | undefined => state.authoring.locationEdits[locationId];
+export const selectObjectEdit = (state: RootState, objectId: string): ObjectEdit | undefined => state.authoring.objectEdits[objectId];
+export const selectObjectEdits = (state: RootState) => state.authoring.objectEdits;
+export const selectAuthoringExportError = (state: RootState) => state.authoring.exportError;
+export const selectHasAuthoringEdits = (state: RootState) =>
+  Object.keys(state.authoring.locationEdits).length > 0 || Object.keys(state.authoring.objectEdits).length > 0;
+
+export default authoringSlice.reducer;
@@ -4,10 +4,12 @@
  * It's designed to be a self-contained module for the core puzzle gameplay loop.
  */
 
-import { createSlice, PayloadAction, createEntityAdapter, createSelector, EntityState } from '@reduxjs/toolkit';
-import { caseFileData } from '../data/caseFileData';
+import { createSlice, PayloadAction, createEntityAdapter, createSelector, EntityState, isAnyOf, current } from '@reduxjs/toolkit';
+import { getStoryPackage, DEFAULT_STORY_ID } from '../data/storyRegistry';
 import { Clue, EvidenceSlot, CaseFileViewMode, TimelineAnchorCategory, TimelineAnchor } from '../types';
 import { RootState } from './index';
+import { restoreSavedGame, restoreProgressSnapshot } from './persistenceSlice';
+import { caseSelected } from './caseSelectionSlice';
 
 // Use entity adapters for efficient, normalized state management of clues and slots.
 const cluesAdapter = createEntityAdapter<Clue>();
@@ -16,7 +18,7 @@ const slotsAdapter = createEntityAdapter<EvidenceSlot, string>({
 });
 
 // Define the shape of the state for this slice.
-interface CaseFileState {
+export interface CaseFileState {
   viewMode: CaseFileViewMode;
   activeTab: TimelineAnchorCategory;
   clues: EntityState<Clue, string>;
@@ -25,9 +27,9 @@ interface CaseFileState {
   lastIncorrectSlotId: string | null;
 }
 
-// Function to create the initial state from the static case file data.
-const createInitialState = (): CaseFileState => {
-  const allSlots = caseFileData.anchors.flatMap(anchor => [anchor.primarySlot, ...anchor.supportingSlots]);
+// Function to create the initial state from a case's static anchors.
+const createInitialState = (anchors: TimelineAnchor[]): CaseFileState => {
+  const allSlots = anchors.flatMap(anchor => [anchor.primarySlot, ...anchor.supportingSlots]);
 
   return {
     viewMode: 'workspace',
@@ -35,12 +37,12 @@ const createInitialState = (): CaseFileState => {
     // The `clues` state starts empty; clues are added as they are discovered.
     clues: cluesAdapter.getInitialState(),
     slots: slotsAdapter.setAll(slotsAdapter.getInitialState(), allSlots),
-    anchors: caseFileData.anchors,
+    anchors,
     lastIncorrectSlotId: null,
   };
 };
 
-const initialState: CaseFileState = createInitialState();
+const initialState: CaseFileState = createInitialState(getStoryPackage(DEFAULT_STORY_ID).storyData.caseFile.anchors);
 
 const caseFileSlice = createSlice({
   name: 'caseFile',
@@ -88,12 +90,27 @@ const caseFileSlice = createSlice({
         state.lastIncorrectSlotId = slotId;
       }
     },
+    /**
+     * Returns a placed clue to the evidence pool. Removing an anchor's primary clue also returns its
+     * supporting clues, since supporting slots can only be filled while the primary slot is.
+     * @param {string} action.payload The ID of the slot to clear.
+     */
+    removeClueFromSlot(state, action: PayloadAction<string>) {
+      const slotId = action.payload;
+      const anchor = state.anchors.find(a => a.primarySlot.slotId === slotId || a.supportingSlots.some(s => s.slotId === slotId));
+      if (!anchor || !state.slots.entities[slotId]?.placedClueId) return;
+
+      const slotIdsToClear = anchor.primarySlot.slotId === slotId
+        ? [slotId, ...anchor.supportingSlots.map(s => s.slotId)]
+        : [slotId];
+      slotsAdapter.updateMany(state.slots, slotIdsToClear.map(id => ({ id, changes: { placedClueId: null } })));
+    },
     clearLastIncorrectSlot(state) {
       state.lastIncorrectSlotId = null;
     },
     resetInvestigation(state) {
-      // Return to the initial state
-      return createInitialState();
+      // Return to the initial state of the case being played; the anchors themselves are never mutated.
+      return createInitialState(current(state).anchors);
     },
     /**
      * Adds a newly discovered clue to the evidence pool for the case file.
@@ -104,12 +121,34 @@ const caseFileSlice = createSlice({
       cluesAdapter.addOne(state.clues, action.payload);
     },
   },
+  extraReducers: (builder) => {
+    builder.addCase(caseSelected, (_state, action) => createInitialState(getStoryPackage(action.payload).storyData.caseFile.anchors));
+    builder.addMatcher(isAnyOf(restoreSavedGame, restoreProgressSnapshot), (state, action) => {
+      const saved = action.payload.caseFile;
+      // Slots are rebuilt from the static anchors so that a save can never introduce or drop a slot.
+      const baseline = createInitialState(current(state).anchors);
+      const slots = Object.values(baseline.slots.entities)
+        .filter((slot): slot is EvidenceSlot => !!slot)
+        .map(slot => ({ ...slot, placedClueId: saved.slotPlacements[slot.slotId] ?? null }));
+
+      // Undo/redo rewinds progress only; the player stays on the tab they are looking at.
+      const keepView = restoreProgressSnapshot.match(action);
+      return {
+        ...baseline,
+        viewMode: keepView ? state.viewMode : saved.viewMode,
+        activeTab: keepView ? state.activeTab : saved.activeTab,
+        clues: cluesAdapter.setAll(cluesAdapter.getInitialState(), saved.clues),
+        slots: slotsAdapter.setAll(slotsAdapter.getInitialState(), slots),
+      };
+    });
+  },
 });
 
 export const {
   setViewMode,
   setActiveTab,
   placeClueInSlot,
+  removeClueFromSlot,
   clearLastIncorrectSlot,
   resetInvestigation,
   addUnlockedClue,
@@ -0,0 +1,44 @@
+/**
+ * @file store/caseSelectionSlice.ts
+ * @description Tracks which case from the story registry the player is playing, and whether the
+ * case selection screen is showing.
+ *
+ * @architectural_note
+ * `caseSelected` is the multi-story counterpart of `restoreSavedGame`: every slice that holds
+ * story-specific state handles it in its own `extraReducers` and rebuilds itself from the chosen
+ * `StoryPackage`. This module deliberately imports no other slice, so all of them can depend on it.
+ * Loading the case's images and autosave afterwards is orchestrated by `App.tsx`, like startup is.
+ */
+
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { RootState } from './index';
+
+interface CaseSelectionState {
+  /** The case being played, or null while the case selection screen is showing. */
+  activeStoryId: string | null;
+}
+
+const initialState: CaseSelectionState = {
+  activeStoryId: null,
+};
+
+const caseSelectionSlice = createSlice({
+  name: 'caseSelection',
+  initialState,
+  reducers: {
+    /** Starts (or resumes) a case. Every story-specific slice resets to the chosen package. */
+    caseSelected(state, action: PayloadAction<string>) {
+      state.activeStoryId = action.payload;
+    },
+    /** Returns to the case selection screen. The current case stays loaded until another is picked. */
+    caseClosed(state) {
+      state.activeStoryId = null;
+    },
+  },
+});
+
+export const { caseSelected, caseClosed } = caseSelectionSlice.actions;
+
+export const selectActiveStoryId = (state: RootState) => state.caseSelection.activeStoryId;
+
+export default caseSelectionSlice.reducer;
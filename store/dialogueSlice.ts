@@ -0,0 +1,113 @@
+/**
+ * @file store/dialogueSlice.ts
+ * @description Keeps each character's interview or interrogation session: the transcript, the active
+ * and completed lines of inquiry, and the raw chat history the AI needs to pick up where it left off.
+ *
+ * @architectural_note
+ * `DialogueCard` used to hold all of this in local state, so leaving the card wiped the conversation.
+ * Only state that must outlive the card lives here; purely presentational state (slideshow index,
+ * ADA's feedback toast, the phase-complete handshake) stays in the component.
+ */
+
+import { createSlice, createEntityAdapter, EntityState, PayloadAction } from '@reduxjs/toolkit';
+import { DialogueSession, DialogueChatTurn, LineOfInquiryData, WitnessResponse } from '../types';
+import type { RootState } from './index';
+import { restoreSavedGame } from './persistenceSlice';
+import { caseSelected } from './caseSelectionSlice';
+
+const sessionsAdapter = createEntityAdapter({
+  selectId: (session: DialogueSession) => session.characterId,
+});
+
+interface DialogueState {
+  sessions: EntityState<DialogueSession, string>;
+}
+
+const initialState: DialogueState = {
+  sessions: sessionsAdapter.getInitialState(),
+};
+
+const createSession = (characterId: string): DialogueSession => ({
+  characterId,
+  messages: [],
+  lastQuestionAsked: null,
+  suggestedQuestions: null,
+  initialQuestions: null,
+  activeLoiId: null,
+  loiStatus: {},
+  chatHistory: [],
+});
+
+/** Returns the character's session draft, creating it first if the player hasn't spoken to them yet. */
+const getOrCreateSession = (state: DialogueState, characterId: string): DialogueSession => {
+  if (!state.sessions.entities[characterId]) {
+    sessionsAdapter.addOne(state.sessions, createSession(characterId));
+  }
+  return state.sessions.entities[characterId]!;
+};
+
+const dialogueSlice = createSlice({
+  name: 'dialogue',
+  initialState,
+  reducers: {
+    /**
+     * Opens a conversation. The opening statement is only shown the first time, so resuming an
+     * interview doesn't repeat it.
+     */
+    dialogueOpened(state, action: PayloadAction<{ characterId: string; openingMessage?: WitnessResponse }>) {
+      const { characterId, openingMessage } = action.payload;
+      if (state.sessions.entities[characterId]) return;
+      const session = getOrCreateSession(state, characterId);
+      if (openingMessage) session.messages.push(openingMessage);
+    },
+    lineOfInquirySelected(state, action: PayloadAction<{ characterId: string; loi: LineOfInquiryData }>) {
+      const session = getOrCreateSession(state, action.payload.characterId);
+      session.activeLoiId = action.payload.loi.id;
+      session.messages = [];
+      session.lastQuestionAsked = null;
+      session.initialQuestions = action.payload.loi.initialQuestions;
+    },
+    questionAsked(state, action: PayloadAction<{ characterId: string; text: string }>) {
+      const session = getOrCreateSession(state, action.payload.characterId);
+      session.lastQuestionAsked = action.payload.text;
+      session.initialQuestions = null;
+    },
+    witnessResponded(state, action: PayloadAction<{ characterId: string; response: WitnessResponse; suggestedQuestions?: string[] }>) {
+      const { characterId, response, suggestedQuestions } = action.payload;
+      const session = getOrCreateSession(state, characterId);
+      session.messages.push(response);
+      if (suggestedQuestions) session.suggestedQuestions = suggestedQuestions;
+    },
+    chatHistoryRecorded(state, action: PayloadAction<{ characterId: string; history: DialogueChatTurn[] }>) {
+      getOrCreateSession(state, action.payload.characterId).chatHistory = action.payload.history;
+    },
+    lineOfInquiryCompleted(state, action: PayloadAction<{ characterId: string; loiId: string }>) {
+      getOrCreateSession(state, action.payload.characterId).loiStatus[action.payload.loiId] = 'completed';
+    },
+    lineOfInquiryEnded(state, action: PayloadAction<string>) {
+      const session = state.sessions.entities[action.payload];
+      if (session) session.activeLoiId = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(caseSelected, () => initialState);
+    builder.addCase(restoreSavedGame, (state, action) => {
+      state.sessions = sessionsAdapter.setAll(sessionsAdapter.getInitialState(), action.payload.dialogue.sessions);
+    });
+  },
+});
+
+export const {
+  dialogueOpened,
+  lineOfInquirySelected,
+  questionAsked,
+  witnessResponded,
+  chatHistoryRecorded,
+  lineOfInquiryCompleted,
+  lineOfInquiryEnded,
+} = dialogueSlice.actions;
+
+export const { selectAll: selectAllDialogueSessions, selectById: selectDialogueSession } =
+  sessionsAdapter.getSelectors((state: RootState) => state.dialogue.sessions);
+
+export default dialogueSlice.reducer;
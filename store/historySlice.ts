@@ -0,0 +1,192 @@
+/**
+ * @file store/historySlice.ts
+ * @description An undo/redo stack for player-meaningful investigative actions: assigning evidence,
+ * adding it to the timeline, flagging suspects, logging testimony, and placing or removing clues
+ * in the case file.
+ *
+ * @architectural_note
+ * The stack stores progress snapshots rather than inverse actions. A listener records the state
+ * *before* each undoable action; undo and redo swap snapshots and dispatch `restoreProgressSnapshot`,
+ * which the story and case file slices already know how to apply. This means no action needs a
+ * hand-written inverse, and derived side effects of an action (e.g., a clue unlocked while filing
+ * evidence) are rewound along with it.
+ */
+
+import { createSlice, createAsyncThunk, PayloadAction, isAnyOf, UnknownAction } from '@reduxjs/toolkit';
+import { v4 as uuidv4 } from 'uuid';
+import { UndoHistoryEntry, ProgressSnapshot } from '../types';
+import type { RootState } from './index';
+import { startAppListening } from './listenerMiddleware';
+import { restoreSavedGame, restoreProgressSnapshot, selectProgressSnapshot } from './persistenceSlice';
+import { setAssignedSuspects, addToTimeline, toggleSuspect, createEvidenceFromTestimony } from './storySlice';
+import { placeClueInSlot, removeClueFromSlot } from './caseFileSlice';
+import { isRemoteAction } from '../services/tabSyncService';
+import { caseSelected } from './caseSelectionSlice';
+import { HISTORY_CONFIG } from '../config';
+
+interface HistoryState {
+  /** Undoable steps, oldest first. Each snapshot is the state before the step. */
+  past: UndoHistoryEntry[];
+  /** Redoable steps, most recently undone last. Each snapshot is the state after the step. */
+  future: UndoHistoryEntry[];
+}
+
+const initialState: HistoryState = {
+  past: [],
+  future: [],
+};
+
+const isUndoableAction = isAnyOf(
+  setAssignedSuspects,
+  addToTimeline,
+  toggleSuspect,
+  createEvidenceFromTestimony,
+  placeClueInSlot,
+  removeClueFromSlot,
+);
+
+/**
+ * Describes an undoable action for the history panel, using the state before it ran.
+ * @returns {{ label: string; subjectId: string | null }} The panel label and the card or slot it concerns.
+ */
+const describeAction = (action: UnknownAction, state: RootState): { label: string; subjectId: string | null } => {
+  const objectName = (id: string) => state.story.objects.entities[id]?.name || id;
+  const characterName = (id: string) => state.story.characters.entities[id]?.name || id;
+  const anchorTitleForSlot = (slotId: string) =>
+    state.caseFile.anchors.find(a => a.primarySlot.slotId === slotId || a.supportingSlots.some(s => s.slotId === slotId))?.title || 'the case file';
+
+  if (setAssignedSuspects.match(action)) {
+    const { objectId, suspectIds } = action.payload;
+    const target = suspectIds.length > 0 ? suspectIds.map(characterName).join(', ') : 'the evidence locker';
+    return { label: `Filed "${objectName(objectId)}" under ${target}`, subjectId: objectId };
+  }
+  if (addToTimeline.match(action)) {
+    return { label: `Added "${objectName(action.payload)}" to the timeline`, subjectId: action.payload };
+  }
+  if (toggleSuspect.match(action)) {
+    const { id, isSuspect } = action.payload;
+    return { label: `${isSuspect ? 'Flagged' : 'Cleared'} ${characterName(id)} as a suspect`, subjectId: id };
+  }
+  if (createEvidenceFromTestimony.match(action)) {
+    return { label: `Logged testimony from ${action.payload.character.name}`, subjectId: `obj-testimony-${action.payload.chunk.id}` };
+  }
+  if (placeClueInSlot.match(action)) {
+    return { label: `Placed a clue in ${anchorTitleForSlot(action.payload.slotId)}`, subjectId: action.payload.slotId };
+  }
+  if (removeClueFromSlot.match(action)) {
+    return { label: `Removed a clue from ${anchorTitleForSlot(action.payload)}`, subjectId: action.payload };
+  }
+  return { label: action.type, subjectId: null };
+};
+
+/** True when an action actually changed progress (e.g., a rejected clue placement does not). */
+const hasProgressChanged = (before: RootState, after: RootState) =>
+  before.story.objects !== after.story.objects ||
+  before.story.characters !== after.story.characters ||
+  before.story.evidence !== after.story.evidence ||
+  before.caseFile.slots !== after.caseFile.slots ||
+  before.caseFile.clues !== after.caseFile.clues;
+
+const historySlice = createSlice({
+  name: 'history',
+  initialState,
+  reducers: {
+    recordHistoryEntry(state, action: PayloadAction<UndoHistoryEntry>) {
+      const entry = action.payload;
+      const last = state.past[state.past.length - 1];
+      state.future = [];
+
+      // --- Coalescing ---
+      // Filing evidence dispatches several actions for the same card in quick succession.
+      // Merge them into the earlier entry, keeping its "before" snapshot.
+      const isSameBurst = last && entry.subjectId && last.subjectId === entry.subjectId &&
+        Date.parse(entry.timestamp) - Date.parse(last.timestamp) < HISTORY_CONFIG.COALESCE_WINDOW;
+      if (isSameBurst) {
+        last.label = entry.label;
+        last.timestamp = entry.timestamp;
+        return;
+      }
+
+      state.past.push(entry);
+      if (state.past.length > HISTORY_CONFIG.MAX_ENTRIES) {
+        state.past.shift();
+      }
+    },
+    entryUndone(state, action: PayloadAction<ProgressSnapshot>) {
+      const entry = state.past.pop();
+      if (entry) state.future.push({ ...entry, snapshot: action.payload });
+    },
+    entryRedone(state, action: PayloadAction<ProgressSnapshot>) {
+      const entry = state.future.pop();
+      if (entry) state.past.push({ ...entry, snapshot: action.payload });
+    },
+    clearHistory() {
+      return initialState;
+    },
+  },
+  extraReducers: (builder) => {
+    // Loading a different save makes the existing stack meaningless.
+    builder.addCase(restoreSavedGame, () => initialState);
+    builder.addCase(caseSelected, () => initialState);
+  },
+});
+
+/**
+ * An async thunk that rewinds the most recent undoable step.
+ */
+export const undoLastAction = createAsyncThunk<void, void, { state: RootState }>(
+  'history/undo',
+  async (_, { getState, dispatch }) => {
+    const { past } = getState().history;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+
+    dispatch(historySlice.actions.entryUndone(selectProgressSnapshot(getState())));
+    dispatch(restoreProgressSnapshot(entry.snapshot));
+  }
+);
+
+/**
+ * An async thunk that re-applies the most recently undone step.
+ */
+export const redoLastAction = createAsyncThunk<void, void, { state: RootState }>(
+  'history/redo',
+  async (_, { getState, dispatch }) => {
+    const { future } = getState().history;
+    const entry = future[future.length - 1];
+    if (!entry) return;
+
+    dispatch(historySlice.actions.entryRedone(selectProgressSnapshot(getState())));
+    dispatch(restoreProgressSnapshot(entry.snapshot));
+  }
+);
+
+// --- Recording ---
+startAppListening({
+  matcher: isUndoableAction,
+  effect: (action, listenerApi) => {
+    // Each tab keeps its own undo stack; steps taken in another tab are undone there.
+    if (isRemoteAction(action)) return;
+    // `getOriginalState` is only valid synchronously, so the snapshot is taken immediately.
+    const before = listenerApi.getOriginalState();
+    if (!hasProgressChanged(before, listenerApi.getState())) return;
+
+    const { label, subjectId } = describeAction(action, before);
+    listenerApi.dispatch(historySlice.actions.recordHistoryEntry({
+      id: uuidv4(),
+      label,
+      subjectId,
+      timestamp: new Date().toISOString(),
+      snapshot: selectProgressSnapshot(before),
+    }));
+  },
+});
+
+export const { clearHistory } = historySlice.actions;
+
+export const selectUndoStack = (state: RootState) => state.history.past;
+export const selectRedoStack = (state: RootState) => state.history.future;
+export const selectCanUndo = (state: RootState) => state.history.past.length > 0;
+export const selectCanRedo = (state: RootState) => state.history.future.length > 0;
+
+export default historySlice.reducer;
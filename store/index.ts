@@ -15,6 +15,17 @@ import uiReducer from './uiSlice';
 import adaReducer from './adaSlice';
 import errorLogReducer from './errorLogSlice';
 import caseFileReducer from './caseFileSlice';
+import persistenceReducer from './persistenceSlice';
+import saveSlotsReducer from './saveSlotsSlice';
+import historyReducer from './historySlice';
+import tabSyncReducer from './tabSyncSlice';
+import dialogueReducer from './dialogueSlice';
+import caseSelectionReducer from './caseSelectionSlice';
+import narrativeReducer from './narrativeSlice';
+import authoringReducer from './authoringSlice';
+import aiStatusReducer from './aiStatusSlice';
+import aiUsageReducer from './aiUsageSlice';
+import { listenerMiddleware } from './listenerMiddleware';
 
 /**
  * The main Redux store for the application.
@@ -29,7 +40,19 @@ export const store = configureStore({
     ada: adaReducer,     // Manages the state of the AI assistant (messages, loading state)
     caseFile: caseFileReducer, // Manages the state for the interactive case file
     errorLog: errorLogReducer, // Manages the new error logging system
+    persistence: persistenceReducer, // Tracks save-game hydration and autosave status
+    saveSlots: saveSlotsReducer, // Manages named save slots for playtesting
+    history: historyReducer, // The undo/redo stack for investigative actions
+    tabSync: tabSyncReducer, // Cross-tab sync and image-queue leadership
+    dialogue: dialogueReducer, // Interview and interrogation transcripts, resumable across visits
+    caseSelection: caseSelectionReducer, // Which registered case is being played
+    narrative: narrativeReducer, // Story flags and the effects of fired narrative triggers
+    authoring: authoringReducer, // Developer authoring mode and the writer's unexported edits
+    aiStatus: aiStatusReducer, // Whether AI requests are paused by the circuit breaker
+    aiUsage: aiUsageReducer, // The log of AI requests behind the usage dashboard
   },
+  // The listener middleware runs feature side effects (such as autosaving) after reducers.
+  middleware: (getDefaultMiddleware) => getDefaultMiddleware().prepend(listenerMiddleware.middleware),
 });
 
 /**
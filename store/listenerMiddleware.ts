@@ -0,0 +1,16 @@
+/**
+ * @file store/listenerMiddleware.ts
+ * @description The application's single listener middleware instance.
+ *
+ * @architectural_note
+ * Features that need to react to actions after the reducers have run (e.g., autosaving) register
+ * their effects through `startAppListening` instead of adding bespoke middleware to the store.
+ * The typed helper keeps `getState()` and `dispatch` correctly typed inside every effect.
+ */
+
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import type { RootState, AppDispatch } from './index';
+
+export const listenerMiddleware = createListenerMiddleware();
+
+export const startAppListening = listenerMiddleware.startListening.withTypes<RootState, AppDispatch>();
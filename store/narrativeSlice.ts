@@ -0,0 +1,231 @@
+/**
+ * @file store/narrativeSlice.ts
+ * @description The narrative trigger engine. Stories declare `narrativeTriggers` in their data; this
+ * module watches for the player actions they react to, checks their conditions, and applies their
+ * effects. It also holds the state those effects create: story flags, unlocked hotspots, and the ADA
+ * directives waiting for her next analysis. The same conditions decide whether a `ContentLock` is open.
+ *
+ * @architectural_note
+ * A listener turns actions into `NarrativeEvent`s by comparing state before and after, so the
+ * components that dispatch those actions don't know triggers exist. Effects are applied by
+ * dispatching ordinary actions (`addUnlockedClue`, `showModal`, ...), so they are persisted, synced
+ * and undone exactly like the player's own actions. Actions from other tabs never fire triggers:
+ * the tab where the player acted fires them once and its effects are synced from there.
+ */
+
+import { createSlice, PayloadAction, isAnyOf, UnknownAction } from '@reduxjs/toolkit';
+import { ContentLock, NarrativeCondition, NarrativeEffect, NarrativeEvent, NarrativeTrigger } from '../types';
+import type { RootState, AppDispatch } from './index';
+import { startAppListening } from './listenerMiddleware';
+import { restoreSavedGame, restoreProgressSnapshot } from './persistenceSlice';
+import { caseSelected } from './caseSelectionSlice';
+import { selectStoryPackage, setAssignedSuspects, markObjectAsAnalyzed } from './storySlice';
+import { addUnlockedClue, placeClueInSlot } from './caseFileSlice';
+import { lineOfInquiryCompleted } from './dialogueSlice';
+import { showModal } from './uiSlice';
+import { logError } from './errorLogSlice';
+import { isRemoteAction } from '../services/tabSyncService';
+
+interface NarrativeState {
+  flags: { [flag: string]: boolean };
+  firedTriggerIds: string[];
+  unlockedHotspotIds: string[];
+  solvedInteractionObjectIds: string[];
+  /** Directives queued by triggers, consumed by the next ADA analysis. Never persisted. */
+  pendingAdaDirectives: string[];
+}
+
+const initialState: NarrativeState = {
+  flags: {},
+  firedTriggerIds: [],
+  unlockedHotspotIds: [],
+  solvedInteractionObjectIds: [],
+  pendingAdaDirectives: [],
+};
+
+const narrativeSlice = createSlice({
+  name: 'narrative',
+  initialState,
+  reducers: {
+    triggerFired(state, action: PayloadAction<string>) {
+      if (!state.firedTriggerIds.includes(action.payload)) state.firedTriggerIds.push(action.payload);
+    },
+    flagSet(state, action: PayloadAction<{ flag: string; value: boolean }>) {
+      state.flags[action.payload.flag] = action.payload.value;
+    },
+    hotspotUnlocked(state, action: PayloadAction<string>) {
+      if (!state.unlockedHotspotIds.includes(action.payload)) state.unlockedHotspotIds.push(action.payload);
+    },
+    /** Recorded by the interaction minigames when the player enters the right solution. */
+    interactionSolved(state, action: PayloadAction<string>) {
+      if (!state.solvedInteractionObjectIds.includes(action.payload)) state.solvedInteractionObjectIds.push(action.payload);
+    },
+    adaDirectiveQueued(state, action: PayloadAction<string>) {
+      state.pendingAdaDirectives.push(action.payload);
+    },
+    adaDirectivesConsumed(state) {
+      state.pendingAdaDirectives = [];
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(caseSelected, () => initialState);
+    builder.addMatcher(isAnyOf(restoreSavedGame, restoreProgressSnapshot), (state, action) => {
+      const saved = action.payload.narrative;
+      state.flags = saved.flags;
+      state.firedTriggerIds = saved.firedTriggerIds;
+      state.unlockedHotspotIds = saved.unlockedHotspotIds;
+      state.solvedInteractionObjectIds = saved.solvedInteractionObjectIds;
+    });
+  },
+});
+
+export const { triggerFired, flagSet, hotspotUnlocked, interactionSolved, adaDirectiveQueued, adaDirectivesConsumed } = narrativeSlice.actions;
+
+// --- Conditions ---
+
+/**
+ * Checks one narrative condition against the current game.
+ * @param {NarrativeCondition} condition - The condition to check.
+ * @param {RootState} state - The current root state.
+ * @returns {boolean} True if the condition holds.
+ */
+export const isNarrativeConditionMet = (condition: NarrativeCondition, state: RootState): boolean => {
+  switch (condition.kind) {
+    case 'flag':
+      return (state.narrative.flags[condition.flag] ?? false) === (condition.value ?? true);
+    case 'objectCollected':
+      return !!state.story.objects.entities[condition.objectId]?.isEvidence;
+    case 'objectAnalyzed':
+      return !!state.story.objects.entities[condition.objectId]?.isFullyAnalyzed;
+    case 'interactionSolved':
+      return state.narrative.solvedInteractionObjectIds.includes(condition.objectId);
+    case 'clueUnlocked':
+      return !!state.caseFile.clues.entities[condition.clueId];
+    case 'cluePlaced':
+      return Object.values(state.caseFile.slots.entities).some(slot => slot?.placedClueId === condition.clueId);
+    case 'lineOfInquiryCompleted':
+      return state.dialogue.sessions.entities[condition.characterId]?.loiStatus[condition.loiId] === 'completed';
+    case 'triggerFired':
+      return state.narrative.firedTriggerIds.includes(condition.triggerId);
+  }
+};
+
+/**
+ * Checks whether locked content is open to the player.
+ * @param {ContentLock | undefined} lock - The content's lock, if it has one.
+ * @param {RootState} state - The current root state.
+ * @returns {boolean} True if there is no lock or every condition it requires holds.
+ */
+export const isContentUnlocked = (lock: ContentLock | undefined, state: RootState): boolean =>
+  !lock || lock.requires.every(condition => isNarrativeConditionMet(condition, state));
+
+// --- Events ---
+
+/** The ID a trigger's `on.targetId` is compared with for each event type. */
+const getEventTargetId = (event: NarrativeEvent): string => {
+  switch (event.type) {
+    case 'cardViewed': return event.cardId;
+    case 'evidenceCollected': return event.objectId;
+    case 'traceScanned': return event.objectId;
+    case 'lineOfInquiryCompleted': return event.loiId;
+    case 'cluePlaced': return event.clueId;
+    case 'interactionSolved': return event.objectId;
+  }
+};
+
+/**
+ * Works out which narrative events an action amounts to. State is compared before and after, so
+ * actions that change nothing (re-filing evidence, a rejected clue placement) are not events.
+ */
+const detectNarrativeEvents = (action: UnknownAction, current: RootState, previous: RootState): NarrativeEvent[] => {
+  const events: NarrativeEvent[] = [];
+  const { ui } = current;
+  // Restoring a save also moves the active card, but the player didn't look at anything new.
+  const cardChanged = ui.activeCardId !== previous.ui.activeCardId || ui.activeCardType !== previous.ui.activeCardType;
+  if (cardChanged && ui.activeView === 'card' && ui.activeCardId && ui.activeCardType && !restoreSavedGame.match(action)) {
+    events.push({ type: 'cardViewed', cardId: ui.activeCardId, cardType: ui.activeCardType });
+  }
+  if (setAssignedSuspects.match(action) && !previous.story.objects.entities[action.payload.objectId]?.isEvidence) {
+    events.push({ type: 'evidenceCollected', objectId: action.payload.objectId });
+  }
+  if (markObjectAsAnalyzed.match(action) && !previous.story.objects.entities[action.payload]?.isFullyAnalyzed) {
+    events.push({ type: 'traceScanned', objectId: action.payload });
+  }
+  if (lineOfInquiryCompleted.match(action)) {
+    const { characterId, loiId } = action.payload;
+    if (previous.dialogue.sessions.entities[characterId]?.loiStatus[loiId] !== 'completed') {
+      events.push({ type: 'lineOfInquiryCompleted', characterId, loiId });
+    }
+  }
+  if (placeClueInSlot.match(action)) {
+    const { clueId, slotId } = action.payload;
+    if (current.caseFile.slots.entities[slotId]?.placedClueId === clueId && previous.caseFile.slots.entities[slotId]?.placedClueId !== clueId) {
+      events.push({ type: 'cluePlaced', clueId, slotId });
+    }
+  }
+  if (interactionSolved.match(action) && !previous.narrative.solvedInteractionObjectIds.includes(action.payload)) {
+    events.push({ type: 'interactionSolved', objectId: action.payload });
+  }
+  return events;
+};
+
+// --- Effects ---
+
+const applyEffect = (effect: NarrativeEffect, state: RootState, dispatch: AppDispatch) => {
+  switch (effect.kind) {
+    case 'setFlag':
+      dispatch(flagSet({ flag: effect.flag, value: effect.value ?? true }));
+      break;
+    case 'adaDirective':
+      dispatch(adaDirectiveQueued(effect.directive));
+      break;
+    case 'unlockHotspot':
+      dispatch(hotspotUnlocked(effect.hotspotId));
+      break;
+    case 'addClue': {
+      const clue = selectStoryPackage(state).storyData.caseFile.clues.find(c => c.id === effect.clueId);
+      if (clue) dispatch(addUnlockedClue(clue));
+      break;
+    }
+    case 'showModal':
+      dispatch(showModal(effect.modal === 'documentViewer' ? { type: effect.modal, props: effect.props } : { type: effect.modal }));
+      break;
+  }
+};
+
+const shouldFire = (trigger: NarrativeTrigger, event: NarrativeEvent, state: RootState): boolean =>
+  trigger.on.event === event.type &&
+  (!trigger.on.targetId || trigger.on.targetId === getEventTargetId(event)) &&
+  (trigger.repeatable || !state.narrative.firedTriggerIds.includes(trigger.id)) &&
+  (trigger.conditions ?? []).every(condition => isNarrativeConditionMet(condition, state));
+
+startAppListening({
+  predicate: (action) => !isRemoteAction(action),
+  effect: (action, listenerApi) => {
+    const events = detectNarrativeEvents(action, listenerApi.getState(), listenerApi.getOriginalState());
+    if (events.length === 0) return;
+
+    const { narrativeTriggers } = selectStoryPackage(listenerApi.getState()).storyData;
+    events.forEach(event => {
+      narrativeTriggers.forEach(trigger => {
+        // Each trigger sees the effects of the ones before it, so one can set a flag another requires.
+        if (!shouldFire(trigger, event, listenerApi.getState())) return;
+        try {
+          listenerApi.dispatch(triggerFired(trigger.id));
+          trigger.effects.forEach(effect => applyEffect(effect, listenerApi.getState(), listenerApi.dispatch));
+        } catch (error) {
+          listenerApi.dispatch(logError({ message: `Narrative trigger "${trigger.id}" failed.`, stack: (error as Error).stack }));
+        }
+      });
+    });
+  },
+});
+
+// --- Selectors ---
+
+export const selectNarrativeFlags = (state: RootState) => state.narrative.flags;
+export const selectUnlockedHotspotIds = (state: RootState) => state.narrative.unlockedHotspotIds;
+export const selectSolvedInteractionObjectIds = (state: RootState) => state.narrative.solvedInteractionObjectIds;
+export const selectPendingAdaDirectives = (state: RootState) => state.narrative.pendingAdaDirectives;
+
+export default narrativeSlice.reducer;
@@ -0,0 +1,267 @@
+/**
+ * @file store/persistenceSlice.ts
+ * @description Save-game persistence for the story, UI, case file, dialogue and narrative slices.
+ * It snapshots the player-driven parts of those slices into IndexedDB (via `saveGameService`),
+ * rehydrates them on startup, and keeps the autosave current as the player acts.
+ *
+ * @architectural_note
+ * Restoration is a single `restoreSavedGame` action that each persisted slice handles in its own
+ * `extraReducers`. That keeps knowledge of each slice's internal shape (entity adapters, static
+ * anchors, etc.) inside the slice that owns it, while this module only decides *what* is saved.
+ * Transient state — object URLs, the image queue, open modals — is never persisted.
+ */
+
+import { createSlice, createAction, createAsyncThunk } from '@reduxjs/toolkit';
+import { SavedGame, StoryObject, StoryObjectProgress, ProgressSnapshot } from '../types';
+import type { RootState } from './index';
+import { getStoryPackage } from '../data/storyRegistry';
+import { saveGameService, SAVE_SCHEMA_VERSION, LEGACY_AUTOSAVE_KEY, getAutosaveKey } from '../services/saveGameService';
+import { startAppListening } from './listenerMiddleware';
+import { logError } from './errorLogSlice';
+import { caseSelected } from './caseSelectionSlice';
+import { PERSISTENCE_CONFIG } from '../config';
+
+/** Per story, the IDs of objects that ship with it. Anything else in the store was created during play. */
+const staticObjectIdsByStory = new Map<string, Set<string>>();
+const getStaticObjectIds = (storyId: string): Set<string> => {
+  let ids = staticObjectIdsByStory.get(storyId);
+  if (!ids) {
+    ids = new Set(getStoryPackage(storyId).storyData.objects.map(obj => obj.id));
+    staticObjectIdsByStory.set(storyId, ids);
+  }
+  return ids;
+};
+
+type PersistenceStatus = 'idle' | 'hydrating' | 'ready';
+
+interface PersistenceState {
+  /** Autosaving is suppressed until hydration finishes, so a fresh state can't overwrite a save. */
+  status: PersistenceStatus;
+  lastSavedAt: string | null;
+}
+
+const initialState: PersistenceState = {
+  status: 'idle',
+  lastSavedAt: null,
+};
+
+/**
+ * Replaces the persisted parts of the story, UI and case file slices with a saved snapshot.
+ * Handled by each of those slices in its `extraReducers`.
+ */
+export const restoreSavedGame = createAction<SavedGame>('persistence/restoreSavedGame');
+
+/**
+ * Replaces only the story and case file progress, leaving navigation untouched.
+ * Used by undo/redo; the story and case file slices treat it exactly like `restoreSavedGame`.
+ */
+export const restoreProgressSnapshot = createAction<ProgressSnapshot>('persistence/restoreProgressSnapshot');
+
+const pickObjectProgress = (obj: StoryObject): StoryObjectProgress => ({
+  isEvidence: obj.isEvidence,
+  assignedToSuspectIds: obj.assignedToSuspectIds,
+  hasBeenUnlocked: obj.hasBeenUnlocked,
+  isFullyAnalyzed: obj.isFullyAnalyzed,
+  findingIds: obj.findingIds,
+});
+
+/**
+ * Builds a complete, versioned snapshot of the current game.
+ * @param {RootState} state - The current root state.
+ * @returns {SavedGame} A JSON-serializable snapshot.
+ */
+export const selectSavedGame = (state: RootState): SavedGame => {
+  const { story, ui, caseFile, dialogue, narrative } = state;
+  const staticObjectIds = getStaticObjectIds(story.storyId);
+  const objectProgress: SavedGame['story']['objectProgress'] = {};
+  const dynamicObjects: StoryObject[] = [];
+
+  Object.values(story.objects.entities).forEach(obj => {
+    if (!obj) return;
+    if (staticObjectIds.has(obj.id)) {
+      objectProgress[obj.id] = pickObjectProgress(obj);
+    } else {
+      dynamicObjects.push(obj);
+    }
+  });
+
+  const suspectFlags: SavedGame['story']['suspectFlags'] = {};
+  Object.values(story.characters.entities).forEach(character => {
+    if (character) suspectFlags[character.id] = character.isSuspect;
+  });
+
+  const slotPlacements: SavedGame['caseFile']['slotPlacements'] = {};
+  Object.values(caseFile.slots.entities).forEach(slot => {
+    if (slot) slotPlacements[slot.slotId] = slot.placedClueId;
+  });
+
+  return {
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    storyId: story.storyId,
+    storyTitle: story.title,
+    story: {
+      objectProgress,
+      dynamicObjects,
+      suspectFlags,
+      evidence: story.evidence,
+      latentConnections: Object.values(story.latentConnections.entities).filter((c): c is NonNullable<typeof c> => !!c),
+      dynamicHotspotCoords: story.dynamicHotspotCoords,
+      playerTokens: story.playerTokens,
+    },
+    ui: {
+      activeView: ui.activeView,
+      activeCardId: ui.activeCardId,
+      activeCardType: ui.activeCardType,
+      activeCollectionType: ui.activeCollectionType,
+      activeCollectionTitle: ui.activeCollectionTitle,
+      history: ui.history,
+      locationsView: ui.locationsView,
+      visitedLocationIds: ui.visitedLocationIds,
+      introPlayed: ui.introPlayed,
+      locationPanelExpandedState: ui.locationPanelExpandedState,
+    },
+    caseFile: {
+      viewMode: caseFile.viewMode,
+      activeTab: caseFile.activeTab,
+      clues: Object.values(caseFile.clues.entities).filter((c): c is NonNullable<typeof c> => !!c),
+      slotPlacements,
+    },
+    dialogue: {
+      sessions: Object.values(dialogue.sessions.entities).filter((s): s is NonNullable<typeof s> => !!s),
+    },
+    narrative: {
+      flags: narrative.flags,
+      firedTriggerIds: narrative.firedTriggerIds,
+      unlockedHotspotIds: narrative.unlockedHotspotIds,
+      solvedInteractionObjectIds: narrative.solvedInteractionObjectIds,
+    },
+  };
+};
+
+/**
+ * Builds the story, case file and narrative portion of a snapshot, for undo/redo.
+ * @param {RootState} state - The current root state.
+ * @returns {ProgressSnapshot} The progress snapshot.
+ */
+export const selectProgressSnapshot = (state: RootState): ProgressSnapshot => {
+  const { story, caseFile, narrative } = selectSavedGame(state);
+  return { story, caseFile, narrative };
+};
+
+/**
+ * An async thunk that restores the autosave, if one exists for the current story.
+ * Resolves to `true` when a save was restored.
+ */
+export const loadSavedGame = createAsyncThunk<boolean, void, { state: RootState }>(
+  'persistence/loadSavedGame',
+  async (_, { dispatch, getState }) => {
+    try {
+      const { storyId } = getState().story;
+      // Builds from before multi-story support kept a single autosave under the legacy key.
+      const save = await saveGameService.readSave(getAutosaveKey(storyId)) ?? await saveGameService.readSave(LEGACY_AUTOSAVE_KEY);
+      if (!save) return false;
+
+      // --- DEFENSIVE CHECK ---
+      // A save from a different story would reference objects that don't exist here.
+      if (save.storyId !== storyId) {
+        console.warn(`Ignoring autosave for "${save.storyTitle}"; the loaded story is "${getState().story.title}".`);
+        return false;
+      }
+
+      dispatch(restoreSavedGame(save));
+      return true;
+    } catch (error) {
+      dispatch(logError({ message: 'Failed to restore the saved game.', stack: (error as Error).stack }));
+      return false;
+    }
+  }
+);
+
+/**
+ * An async thunk that writes the current game to the autosave slot.
+ * Resolves to the timestamp of the snapshot that was written.
+ */
+export const saveGame = createAsyncThunk<string, void, { state: RootState }>(
+  'persistence/saveGame',
+  async (_, { getState }) => {
+    const save = selectSavedGame(getState());
+    await saveGameService.writeSave(getAutosaveKey(save.storyId), save);
+    return save.savedAt;
+  }
+);
+
+const persistenceSlice = createSlice({
+  name: 'persistence',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // Nothing is autosaved for a newly selected case until its own autosave has been loaded.
+      .addCase(caseSelected, () => initialState)
+      .addCase(loadSavedGame.pending, (state) => {
+        state.status = 'hydrating';
+      })
+      .addCase(loadSavedGame.fulfilled, (state) => {
+        state.status = 'ready';
+      })
+      .addCase(loadSavedGame.rejected, (state) => {
+        state.status = 'ready';
+      })
+      .addCase(saveGame.fulfilled, (state, action) => {
+        state.lastSavedAt = action.payload;
+      });
+  },
+});
+
+// --- Autosave ---
+
+/**
+ * The slices of state that make up a save. An action only schedules an autosave when it
+ * changes one of these references, so image-cache churn and modal toggles don't cause writes.
+ */
+const PERSISTED_STATE_SELECTORS: ((state: RootState) => unknown)[] = [
+  state => state.story.objects,
+  state => state.story.characters,
+  state => state.story.evidence,
+  state => state.story.latentConnections,
+  state => state.story.dynamicHotspotCoords,
+  state => state.story.playerTokens,
+  state => state.ui.activeView,
+  state => state.ui.activeCardId,
+  state => state.ui.history,
+  state => state.ui.locationsView,
+  state => state.ui.visitedLocationIds,
+  state => state.ui.introPlayed,
+  state => state.ui.locationPanelExpandedState,
+  state => state.caseFile.clues,
+  state => state.caseFile.slots,
+  state => state.caseFile.activeTab,
+  state => state.caseFile.viewMode,
+  state => state.dialogue.sessions,
+  state => state.narrative.flags,
+  state => state.narrative.firedTriggerIds,
+  state => state.narrative.unlockedHotspotIds,
+  state => state.narrative.solvedInteractionObjectIds,
+];
+
+startAppListening({
+  predicate: (_action, currentState, previousState) =>
+    currentState.persistence.status === 'ready' &&
+    PERSISTED_STATE_SELECTORS.some(select => select(currentState) !== select(previousState)),
+  effect: async (_action, listenerApi) => {
+    // Debounce: a newer change cancels the pending write and restarts the timer.
+    listenerApi.cancelActiveListeners();
+    await listenerApi.delay(PERSISTENCE_CONFIG.AUTOSAVE_DEBOUNCE_DELAY);
+    // --- CASE SWITCH CHECK ---
+    // If the player switched cases during the delay, the store now holds the new case's fresh state,
+    // and writing it would overwrite that case's autosave.
+    if (listenerApi.getState().persistence.status !== 'ready') return;
+    await listenerApi.dispatch(saveGame());
+  },
+});
+
+export const selectPersistenceStatus = (state: RootState) => state.persistence.status;
+export const selectLastSavedAt = (state: RootState) => state.persistence.lastSavedAt;
+
+export default persistenceSlice.reducer;
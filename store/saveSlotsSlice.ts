@@ -0,0 +1,285 @@
+/**
+ * @file store/saveSlotsSlice.ts
+ * @description Manages named, multi-slot saves on top of the save-game persistence layer.
+ * Each slot holds a full `SavedGame` snapshot plus a summary (evidence count, case file
+ * progress) and a thumbnail of the last location the player visited, so playtesters can jump
+ * between known states — and branch them — without losing the original.
+ * It also owns exporting and importing portable save bundles, which move a session (images
+ * included) between browsers.
+ */
+
+import { createSlice, createAsyncThunk, createEntityAdapter, isPending, isFulfilled, isRejected } from '@reduxjs/toolkit';
+import { v4 as uuidv4 } from 'uuid';
+import { SaveSlotRecord, SaveSlotSummary } from '../types';
+import type { RootState } from './index';
+import { saveGameService } from '../services/saveGameService';
+import { saveBundleService, validateSaveBundle } from '../services/saveBundleService';
+import { restoreSavedGame, selectSavedGame } from './persistenceSlice';
+import { updateImageCache } from './storySlice';
+import { logError } from './errorLogSlice';
+
+const saveSlotsAdapter = createEntityAdapter<SaveSlotSummary>({
+  sortComparer: (a, b) => b.savedAt.localeCompare(a.savedAt),
+});
+
+interface SaveSlotsState {
+  slots: ReturnType<typeof saveSlotsAdapter.getInitialState>;
+  /** Object URLs for each slot's thumbnail, keyed by slot ID. Revoked whenever the list is refreshed. */
+  thumbnailUrls: { [slotId: string]: string };
+  /** The slot most recently saved to or loaded from, if any. */
+  activeSlotId: string | null;
+  isBusy: boolean;
+  error: string | null;
+}
+
+const initialState: SaveSlotsState = {
+  slots: saveSlotsAdapter.getInitialState(),
+  thumbnailUrls: {},
+  activeSlotId: null,
+  isBusy: false,
+  error: null,
+};
+
+/** Strips a stored slot record down to the summary kept in Redux. */
+const toSummary = ({ save, thumbnail, ...summary }: SaveSlotRecord): SaveSlotSummary => summary;
+
+/**
+ * Captures the generated image of the last visited location as a thumbnail Blob.
+ * Returns null if that location has no image yet.
+ */
+const captureThumbnail = async (state: RootState): Promise<{ locationId: string | null; blob: Blob | null }> => {
+  const { visitedLocationIds } = state.ui;
+  const locationId = visitedLocationIds[visitedLocationIds.length - 1] ?? null;
+  const url = locationId ? state.story.imageUrls[locationId] : undefined;
+  if (!url) return { locationId, blob: null };
+
+  try {
+    const response = await fetch(url);
+    return { locationId, blob: await response.blob() };
+  } catch (error) {
+    console.warn(`Could not capture save thumbnail for ${locationId}:`, error);
+    return { locationId, blob: null };
+  }
+};
+
+/**
+ * An async thunk that reads all save slots from IndexedDB and refreshes the slot list.
+ */
+export const fetchSaveSlots = createAsyncThunk<
+  { summaries: SaveSlotSummary[]; thumbnailUrls: { [slotId: string]: string } },
+  void,
+  { state: RootState }
+>(
+  'saveSlots/fetch',
+  async (_, { getState }) => {
+    // Release the previous batch of thumbnail URLs before creating new ones.
+    Object.values(getState().saveSlots.thumbnailUrls).forEach(url => URL.revokeObjectURL(url));
+
+    const records = await saveGameService.listSlots();
+    const thumbnailUrls: { [slotId: string]: string } = {};
+    records.forEach(record => {
+      if (record.thumbnail) thumbnailUrls[record.id] = URL.createObjectURL(record.thumbnail);
+    });
+    return { summaries: records.map(toSummary), thumbnailUrls };
+  }
+);
+
+/**
+ * An async thunk that writes the current game to a save slot.
+ * Omitting `slotId` creates a new slot; passing one overwrites it. Resolves to the slot ID.
+ */
+export const saveToSlot = createAsyncThunk<string, { slotId?: string; name: string }, { state: RootState; rejectValue: string }>(
+  'saveSlots/save',
+  async ({ slotId, name }, { getState, dispatch, rejectWithValue }) => {
+    try {
+      const state = getState();
+      const save = selectSavedGame(state);
+      const anchors = state.caseFile.anchors;
+      const filledPrimarySlots = anchors.filter(anchor => !!state.caseFile.slots.entities[anchor.primarySlot.slotId]?.placedClueId).length;
+      const { locationId, blob } = await captureThumbnail(state);
+
+      const record: SaveSlotRecord = {
+        id: slotId || uuidv4(),
+        name: name.trim() || 'Untitled Save',
+        savedAt: save.savedAt,
+        storyTitle: save.storyTitle,
+        evidenceCount: save.story.evidence.length,
+        caseFileProgress: {
+          filledPrimarySlots,
+          totalPrimarySlots: anchors.length,
+          isComplete: anchors.length > 0 && filledPrimarySlots === anchors.length,
+        },
+        thumbnailLocationId: locationId,
+        save,
+        thumbnail: blob,
+      };
+
+      await saveGameService.writeSlot(record);
+      await dispatch(fetchSaveSlots());
+      return record.id;
+    } catch (error) {
+      dispatch(logError({ message: `Failed to write save slot "${name}".`, stack: (error as Error).stack }));
+      return rejectWithValue('The game could not be saved.');
+    }
+  }
+);
+
+/**
+ * An async thunk that restores the game stored in a save slot. Resolves to the slot ID.
+ */
+export const loadSaveSlot = createAsyncThunk<string, string, { state: RootState; rejectValue: string }>(
+  'saveSlots/load',
+  async (slotId, { getState, dispatch, rejectWithValue }) => {
+    const slot = await saveGameService.readSlot(slotId);
+    if (!slot) {
+      return rejectWithValue('That save could not be read. It may have been written by a newer version of the game.');
+    }
+    // --- DEFENSIVE CHECK ---
+    if (slot.save.storyId !== getState().story.storyId) {
+      return rejectWithValue(`That save belongs to "${slot.save.storyTitle}", not the story currently loaded.`);
+    }
+    dispatch(restoreSavedGame(slot.save));
+    return slotId;
+  }
+);
+
+/**
+ * An async thunk that copies an existing slot into a new one, leaving the original untouched.
+ * Resolves to the new slot's ID.
+ */
+export const branchSaveSlot = createAsyncThunk<string, { slotId: string; name: string }, { rejectValue: string }>(
+  'saveSlots/branch',
+  async ({ slotId, name }, { dispatch, rejectWithValue }) => {
+    const slot = await saveGameService.readSlot(slotId);
+    if (!slot) {
+      return rejectWithValue('That save could not be read, so it cannot be branched.');
+    }
+    const branch: SaveSlotRecord = {
+      ...slot,
+      id: uuidv4(),
+      name: name.trim() || `${slot.name} (branch)`,
+      savedAt: new Date().toISOString(),
+    };
+    await saveGameService.writeSlot(branch);
+    await dispatch(fetchSaveSlots());
+    return branch.id;
+  }
+);
+
+/**
+ * An async thunk that permanently deletes a save slot.
+ */
+export const deleteSaveSlot = createAsyncThunk<string, string>(
+  'saveSlots/delete',
+  async (slotId, { dispatch }) => {
+    await saveGameService.deleteSlot(slotId);
+    await dispatch(fetchSaveSlots());
+    return slotId;
+  }
+);
+
+/**
+ * An async thunk that exports the current game and the full image cache as a downloadable bundle.
+ */
+export const exportSaveBundle = createAsyncThunk<void, void, { state: RootState; rejectValue: string }>(
+  'saveSlots/exportBundle',
+  async (_, { getState, dispatch, rejectWithValue }) => {
+    try {
+      const bundle = await saveBundleService.buildBundle(selectSavedGame(getState()));
+      saveBundleService.downloadBundle(bundle);
+    } catch (error) {
+      dispatch(logError({ message: 'Failed to export save bundle.', stack: (error as Error).stack }));
+      return rejectWithValue('The investigation could not be exported.');
+    }
+  }
+);
+
+/**
+ * An async thunk that imports a save bundle file. The bundle is validated against the current
+ * story's title and IDs first; only then are its images written and its save restored.
+ */
+export const importSaveBundle = createAsyncThunk<void, File, { state: RootState; rejectValue: string }>(
+  'saveSlots/importBundle',
+  async (file, { getState, dispatch, rejectWithValue }) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      return rejectWithValue('That file is not valid JSON.');
+    }
+
+    const { story } = getState();
+    const { bundle, errors } = validateSaveBundle(raw, {
+      storyId: story.storyId,
+      storyTitle: story.title,
+      objectIds: new Set(story.objects.ids),
+      characterIds: new Set(story.characters.ids),
+      locationIds: new Set(story.locations.ids),
+    });
+    if (!bundle) {
+      return rejectWithValue(`Import rejected. ${errors.join(' ')}`);
+    }
+
+    try {
+      const stored = await saveBundleService.importImages(story.storyId, bundle.images);
+      // Replace in-memory URLs too, since the cache hydration skips IDs that already have one.
+      // The replaced URLs are revoked by the story slice's `updateImageCache` listener.
+      dispatch(updateImageCache(stored.map(({ id, blob }) => ({ cardId: id, url: URL.createObjectURL(blob), error: false }))));
+      dispatch(restoreSavedGame(bundle.save));
+    } catch (error) {
+      dispatch(logError({ message: 'Failed to import save bundle.', stack: (error as Error).stack }));
+      return rejectWithValue('The bundle was valid, but importing it failed.');
+    }
+  }
+);
+
+const saveSlotsSlice = createSlice({
+  name: 'saveSlots',
+  initialState,
+  reducers: {
+    clearSaveSlotError(state) {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchSaveSlots.fulfilled, (state, action) => {
+        saveSlotsAdapter.setAll(state.slots, action.payload.summaries);
+        state.thumbnailUrls = action.payload.thumbnailUrls;
+        if (state.activeSlotId && !state.slots.entities[state.activeSlotId]) {
+          state.activeSlotId = null;
+        }
+      })
+      .addCase(saveToSlot.fulfilled, (state, action) => {
+        state.activeSlotId = action.payload;
+      })
+      .addCase(loadSaveSlot.fulfilled, (state, action) => {
+        state.activeSlotId = action.payload;
+      });
+
+    // Every slot operation shares the same busy/error bookkeeping.
+    const slotOperations = [saveToSlot, loadSaveSlot, branchSaveSlot, deleteSaveSlot, exportSaveBundle, importSaveBundle] as const;
+    builder
+      .addMatcher(isPending(...slotOperations), (state) => {
+        state.isBusy = true;
+        state.error = null;
+      })
+      .addMatcher(isFulfilled(...slotOperations), (state) => {
+        state.isBusy = false;
+      })
+      .addMatcher(isRejected(...slotOperations), (state, action) => {
+        state.isBusy = false;
+        state.error = (action.payload as string | undefined) || action.error.message || 'The save operation failed.';
+      });
+  },
+});
+
+export const { clearSaveSlotError } = saveSlotsSlice.actions;
+
+export const { selectAll: selectAllSaveSlots } = saveSlotsAdapter.getSelectors((state: RootState) => state.saveSlots.slots);
+export const selectSaveSlotThumbnails = (state: RootState) => state.saveSlots.thumbnailUrls;
+export const selectActiveSaveSlotId = (state: RootState) => state.saveSlots.activeSlotId;
+export const selectIsSaveSlotBusy = (state: RootState) => state.saveSlots.isBusy;
+export const selectSaveSlotError = (state: RootState) => state.saveSlots.error;
+
+export default saveSlotsSlice.reducer;
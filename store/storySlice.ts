@@ -7,17 +7,20 @@
  * to prevent API rate limiting while maximizing speed.
  */
 
-import { createSlice, PayloadAction, createSelector, createAsyncThunk, createEntityAdapter, EntityState } from '@reduxjs/toolkit';
-import { storyData } from '../data/story';
-import { introSlideshowData } from '../data/introSlideshowData';
-import { Character, StoryObject, Evidence, CardType, Location, Testimony, StoryInfo, EvidenceGroup, CanonicalTimeline, EvidenceStack, DialogueChunkData, LatentConnection, Bounty, TimelineTag } from '../types';
+import { createSlice, PayloadAction, createSelector, createAsyncThunk, createEntityAdapter, EntityState, isAnyOf } from '@reduxjs/toolkit';
+import { getStoryPackage, DEFAULT_STORY_ID } from '../data/storyRegistry';
+import { Character, StoryObject, Evidence, CardType, Location, Testimony, StoryInfo, EvidenceGroup, CanonicalTimeline, EvidenceStack, DialogueChunkData, LatentConnection, Bounty, TimelineTag, ImageColorTreatment } from '../types';
 import { RootState, AppDispatch } from './index';
-import { generateImage as generateImageAPI } from '../services/geminiService';
-import { dbService, b64toBlob } from '../services/dbService';
+import { generateImage as generateImageAPI, setPromptOverrides } from '../services/aiService';
+import { b64toBlob } from '../services/dbService';
+import { imageCacheService, getImageFingerprint } from '../services/imageCacheService';
 import { GAME_MECHANICS, API_CONFIG } from '../config';
 import { logError } from './errorLogSlice';
 import { v4 as uuidv4 } from 'uuid';
 import { showModal } from './uiSlice';
+import { restoreSavedGame, restoreProgressSnapshot } from './persistenceSlice';
+import { caseSelected } from './caseSelectionSlice';
+import { startAppListening } from './listenerMiddleware';
 
 
 // --- Image Generation Queue System ---
@@ -26,7 +29,16 @@ import { showModal } from './uiSlice';
 interface ImageGenerationRequest {
   cardId: string;
   prompt: string;
-  colorTreatment: 'monochrome' | 'selectiveColor' | 'map';
+  colorTreatment: ImageColorTreatment;
+}
+
+/** The outcome of generating (or loading) one card's image. */
+interface ImageCacheResult {
+  cardId: string;
+  url: string | null;
+  error: boolean;
+  /** The fingerprint of the prompt the image was generated from, when known. */
+  promptHash?: string;
 }
 
 // --- Entity Adapters ---
@@ -39,7 +51,9 @@ const bountiesAdapter = createEntityAdapter<Bounty>();
 const latentConnectionsAdapter = createEntityAdapter<LatentConnection>();
 
 // --- State Interface ---
-interface StoryState {
+export interface StoryState {
+  /** The `StoryPackage` this state was built from. */
+  storyId: string;
   title: string;
   storyInfo: StoryInfo;
   // FIX: EntityState requires a second type argument for the ID type. All IDs in this app are strings.
@@ -56,9 +70,10 @@ interface StoryState {
   imageUrls: { [id: string]: string };
   imageErrors: { [id: string]: boolean };
   imageLoading: { [id: string]: boolean };
+  /** The prompt fingerprint of each cached image, used to spot images whose prompt has since changed. */
+  imageFingerprints: { [id: string]: string };
   imageGenerationQueue: ImageGenerationRequest[];
   isQueueProcessing: boolean;
-  hasDiscoveredPaint: boolean;
   dynamicHotspotCoords: { [locationId: string]: { [hotspotId: string]: { x: number; y: number } } };
   milestoneThreshold: number;
   accusationThreshold: number;
@@ -66,56 +81,71 @@ interface StoryState {
   playerTokens: number;
 }
 
-const initialState: StoryState = {
-  title: storyData.title,
-  storyInfo: storyData.storyInfo,
-  characters: charactersAdapter.setAll(charactersAdapter.getInitialState(), storyData.characters),
-  objects: objectsAdapter.setAll(objectsAdapter.getInitialState(), storyData.objects),
-  locations: locationsAdapter.setAll(locationsAdapter.getInitialState(), storyData.locations),
-  evidenceGroups: evidenceGroupsAdapter.setAll(evidenceGroupsAdapter.getInitialState(), storyData.evidenceGroups),
-  testimonies: testimoniesAdapter.setAll(testimoniesAdapter.getInitialState(), storyData.testimonies),
-  canonicalTimeline: storyData.canonicalTimeline,
-  evidenceStacks: storyData.evidenceStacks || [],
-  bounties: bountiesAdapter.getInitialState(),
-  latentConnections: latentConnectionsAdapter.getInitialState(),
-  evidence: [],
-  imageUrls: {},
-  imageErrors: {},
-  imageLoading: {},
-  imageGenerationQueue: [],
-  isQueueProcessing: false,
-  hasDiscoveredPaint: false,
-  dynamicHotspotCoords: {},
-  milestoneThreshold: GAME_MECHANICS.MILESTONE_THRESHOLD,
-  accusationThreshold: GAME_MECHANICS.ACCUSATION_THRESHOLD,
-  totalDiscoverableEvidence: storyData.objects.filter(o => o.rarity !== 'irrelevant').length,
-  playerTokens: 100, // Starting tokens for playtesting
+/**
+ * Builds a fresh story state from a case in the story registry.
+ * @param {string} storyId - The `StoryPackage` ID.
+ * @returns {StoryState} The state a new investigation of that case starts from.
+ */
+const createInitialState = (storyId: string): StoryState => {
+  const { id, storyData } = getStoryPackage(storyId);
+  return {
+    storyId: id,
+    title: storyData.title,
+    storyInfo: storyData.storyInfo,
+    characters: charactersAdapter.setAll(charactersAdapter.getInitialState(), storyData.characters),
+    objects: objectsAdapter.setAll(objectsAdapter.getInitialState(), storyData.objects),
+    locations: locationsAdapter.setAll(locationsAdapter.getInitialState(), storyData.locations),
+    evidenceGroups: evidenceGroupsAdapter.setAll(evidenceGroupsAdapter.getInitialState(), storyData.evidenceGroups),
+    testimonies: testimoniesAdapter.setAll(testimoniesAdapter.getInitialState(), storyData.testimonies),
+    canonicalTimeline: storyData.canonicalTimeline,
+    evidenceStacks: storyData.evidenceStacks || [],
+    bounties: bountiesAdapter.getInitialState(),
+    latentConnections: latentConnectionsAdapter.getInitialState(),
+    evidence: [],
+    imageUrls: {},
+    imageErrors: {},
+    imageLoading: {},
+    imageFingerprints: {},
+    imageGenerationQueue: [],
+    isQueueProcessing: false,
+    dynamicHotspotCoords: {},
+    milestoneThreshold: GAME_MECHANICS.MILESTONE_THRESHOLD,
+    accusationThreshold: GAME_MECHANICS.ACCUSATION_THRESHOLD,
+    totalDiscoverableEvidence: storyData.objects.filter(o => o.rarity !== 'irrelevant').length,
+    playerTokens: 100, // Starting tokens for playtesting
+  };
 };
 
+const initialState: StoryState = createInitialState(DEFAULT_STORY_ID);
+
 /**
  * An async thunk to hydrate the image URL cache from IndexedDB on app startup.
  * This loads previously generated images without needing to call the API again.
+ * The cache is trimmed to its size budget first, so evicted images are never loaded.
  */
 export const hydrateImageCache = createAsyncThunk(
   'story/hydrateImageCache',
   async (_, { dispatch, getState }) => {
+    const urls: { [id: string]: string } = {};
+    const fingerprints: { [id: string]: string } = {};
     try {
-      const cachedImages = await dbService.getAllImages();
-      const urls: { [id: string]: string } = {};
-      const existingUrls = (getState() as RootState).story.imageUrls;
+      const { storyId, imageUrls: existingUrls } = (getState() as RootState).story;
+      await imageCacheService.enforceSizeLimit(storyId);
+      const cachedImages = await imageCacheService.loadImages(storyId);
 
       for (const item of cachedImages) {
         // --- CRITICAL FIX: Idempotent Hydration ---
         // This check prevents a race condition where a pre-existing image URL
         // from the initial state could be overwritten by a new
-        if (!existingUrls[item.id] && item.blob) {
+        if (!existingUrls[item.id]) {
             urls[item.id] = URL.createObjectURL(item.blob);
+            if (item.promptHash) fingerprints[item.id] = item.promptHash;
         }
       }
-      return urls;
+      return { urls, fingerprints };
     } catch (error) {
       dispatch(logError({ message: 'Failed to hydrate image cache from IndexedDB.', stack: (error as Error).stack }));
-      return {};
+      return { urls, fingerprints };
     }
   }
 );
@@ -127,6 +157,11 @@ export const processImageGenerationQueue = createAsyncThunk(
         if (state.story.isQueueProcessing || state.story.imageGenerationQueue.length === 0) {
             return;
         }
+        // --- MULTI-TAB CHECK ---
+        // Only the elected leader tab spends API quota; followers receive finished images via tab sync.
+        if (!state.tabSync.isImageQueueLeader) {
+            return;
+        }
 
         dispatch(storySlice.actions.setIsQueueProcessing(true));
 
@@ -136,14 +171,14 @@ export const processImageGenerationQueue = createAsyncThunk(
 
         dispatch(storySlice.actions.setImageGenerationQueue(remainingRequests));
 
-        const promises = requestsToProcess.map(async (request) => {
+        const promises = requestsToProcess.map(async (request): Promise<ImageCacheResult> => {
             try {
                 const result = await generateImageAPI(request.prompt, request.colorTreatment);
                 if (result) {
                     const blob = b64toBlob(result.bytes, result.mimeType);
-                    await dbService.saveImage(request.cardId, blob);
+                    await imageCacheService.storeImage(state.story.storyId, request.cardId, blob, request.prompt, request.colorTreatment);
                     const url = URL.createObjectURL(blob);
-                    return { cardId: request.cardId, url, error: false };
+                    return { cardId: request.cardId, url, error: false, promptHash: getImageFingerprint(request.prompt, request.colorTreatment) };
                 }
                 return { cardId: request.cardId, url: null, error: true };
             } catch (error) {
@@ -152,13 +187,24 @@ export const processImageGenerationQueue = createAsyncThunk(
             }
         });
 
-        const results = await Promise.all(promises);
-        dispatch(storySlice.actions.updateImageCache(results));
-        
-        dispatch(storySlice.actions.setIsQueueProcessing(false));
+        try {
+            const results = await Promise.all(promises);
+            // --- CASE SWITCH CHECK ---
+            // If the player switched cases mid-batch, these cards belong to the old case; its fresh state must not see them.
+            if ((getState() as RootState).story.storyId !== state.story.storyId) {
+                return;
+            }
+            dispatch(storySlice.actions.updateImageCache(results));
+
+            dispatch(storySlice.actions.setIsQueueProcessing(false));
 
-        if (remainingRequests.length > 0) {
-            setTimeout(() => dispatch(processImageGenerationQueue()), API_CONFIG.IMAGE_QUEUE_BATCH_DELAY);
+            if (remainingRequests.length > 0) {
+                setTimeout(() => dispatch(processImageGenerationQueue()), API_CONFIG.IMAGE_QUEUE_BATCH_DELAY);
+            }
+        } finally {
+            // New images may push the cache over budget, even a batch the player switched away from;
+            // never evict the ones just generated.
+            await imageCacheService.enforceSizeLimit(state.story.storyId, new Set(requestsToProcess.map(request => request.cardId)));
         }
     }
 );
@@ -266,14 +312,25 @@ const storySlice = createSlice({
             }
         }
     },
-    setHasDiscoveredPaint(state, action: PayloadAction<boolean>) {
-      state.hasDiscoveredPaint = action.payload;
-    },
     queueImageGeneration(state, action: PayloadAction<ImageGenerationRequest>) {
-        if (!state.imageUrls[action.payload.cardId] && !state.imageLoading[action.payload.cardId]) {
-            state.imageGenerationQueue.push(action.payload);
-            state.imageLoading[action.payload.cardId] = true;
+        const { cardId, prompt, colorTreatment } = action.payload;
+        if (state.imageLoading[cardId]) return;
+
+        if (state.imageUrls[cardId]) {
+            const fingerprint = getImageFingerprint(prompt, colorTreatment);
+            const cachedFingerprint = state.imageFingerprints[cardId];
+            // --- CACHE VALIDATION ---
+            // An image with no fingerprint predates metadata; adopt it rather than paying to regenerate.
+            // An image with a different fingerprint is stale; regenerate it, showing the old one meanwhile.
+            if (cachedFingerprint === undefined) {
+                state.imageFingerprints[cardId] = fingerprint;
+                return;
+            }
+            if (cachedFingerprint === fingerprint) return;
         }
+
+        state.imageGenerationQueue.push(action.payload);
+        state.imageLoading[cardId] = true;
     },
     setImageGenerationQueue(state, action: PayloadAction<ImageGenerationRequest[]>) {
         state.imageGenerationQueue = action.payload;
@@ -281,12 +338,21 @@ const storySlice = createSlice({
     setIsQueueProcessing(state, action: PayloadAction<boolean>) {
         state.isQueueProcessing = action.payload;
     },
-    updateImageCache(state, action: PayloadAction<{ cardId: string, url: string | null, error: boolean }[]>) {
+    updateImageCache(state, action: PayloadAction<ImageCacheResult[]>) {
+        // Results can arrive from another tab while this tab still has the request queued.
+        const resolvedIds = new Set(action.payload.map(result => result.cardId));
+        state.imageGenerationQueue = state.imageGenerationQueue.filter(request => !resolvedIds.has(request.cardId));
         action.payload.forEach(result => {
             state.imageLoading[result.cardId] = false;
             if (result.url) {
                 state.imageUrls[result.cardId] = result.url;
                 delete state.imageErrors[result.cardId];
+                // An image of unknown provenance (e.g., imported from a bundle) is re-adopted on next use.
+                if (result.promptHash) {
+                    state.imageFingerprints[result.cardId] = result.promptHash;
+                } else {
+                    delete state.imageFingerprints[result.cardId];
+                }
             } else {
                 state.imageErrors[result.cardId] = true;
             }
@@ -309,12 +375,14 @@ const storySlice = createSlice({
             objectsAdapter.updateOne(state.objects, { id: originalObjectId, changes: { findingIds: updatedFindingIds } });
         }
     },
-    addLatentConnection(state, action: PayloadAction<Omit<LatentConnection, 'id'>>) {
-        const newConnection: LatentConnection = {
-            id: `conn-${uuidv4()}`,
-            ...action.payload
-        };
-        latentConnectionsAdapter.addOne(state.latentConnections, newConnection);
+    addLatentConnection: {
+        reducer(state, action: PayloadAction<LatentConnection>) {
+            latentConnectionsAdapter.addOne(state.latentConnections, action.payload);
+        },
+        // The ID is generated up front so every tab that replays this action agrees on it.
+        prepare(connection: Omit<LatentConnection, 'id'>) {
+            return { payload: { id: `conn-${uuidv4()}`, ...connection } };
+        },
     },
     resolveLatentConnection(state, action: PayloadAction<{ connectionId: string, targetObjectId: string }>) {
         const connection = state.latentConnections.entities[action.payload.connectionId];
@@ -368,8 +436,27 @@ const storySlice = createSlice({
     },
   },
   extraReducers: (builder) => {
-    builder.addCase(hydrateImageCache.fulfilled, (state, action: PayloadAction<{ [id: string]: string }>) => {
-        state.imageUrls = { ...state.imageUrls, ...action.payload };
+    builder.addCase(hydrateImageCache.fulfilled, (state, action) => {
+        state.imageUrls = { ...state.imageUrls, ...action.payload.urls };
+        state.imageFingerprints = { ...state.imageFingerprints, ...action.payload.fingerprints };
+    });
+    // Rebuilds entities from the story data and layers the saved progress on top, so edits to
+    // the story content are picked up even when an older save is restored.
+    // Picking a case replaces everything, including the in-memory image URLs of the previous case.
+    builder.addCase(caseSelected, (_state, action) => createInitialState(action.payload));
+    builder.addMatcher(isAnyOf(restoreSavedGame, restoreProgressSnapshot), (state, action) => {
+        const saved = action.payload.story;
+        const { storyData } = getStoryPackage(state.storyId);
+        const staticObjects = storyData.objects.map(obj => ({ ...obj, ...saved.objectProgress[obj.id] }));
+        state.objects = objectsAdapter.setAll(objectsAdapter.getInitialState(), [...staticObjects, ...saved.dynamicObjects]);
+        state.characters = charactersAdapter.setAll(
+            charactersAdapter.getInitialState(),
+            storyData.characters.map(character => ({ ...character, isSuspect: saved.suspectFlags[character.id] ?? character.isSuspect }))
+        );
+        state.latentConnections = latentConnectionsAdapter.setAll(latentConnectionsAdapter.getInitialState(), saved.latentConnections);
+        state.evidence = saved.evidence;
+        state.dynamicHotspotCoords = saved.dynamicHotspotCoords;
+        state.playerTokens = saved.playerTokens;
     });
   }
 });
@@ -378,17 +465,67 @@ export const {
     toggleSuspect,
     setAssignedSuspects,
     addToTimeline,
-    setHasDiscoveredPaint,
     queueImageGeneration,
+    updateImageCache,
     markObjectAsAnalyzed,
     addDynamicObject,
     addFindingIdToObject,
     addLatentConnection,
+    resolveLatentConnection,
     createEvidenceFromTestimony,
     addTokens,
     setDynamicHotspotCoords,
 } = storySlice.actions;
 
+// --- Image Cache Adoption ---
+// When `queueImageGeneration` adopts an image that had no fingerprint, record the metadata so the
+// image is validated (and counted towards the size budget) from now on.
+startAppListening({
+  actionCreator: queueImageGeneration,
+  effect: (action, listenerApi) => {
+    const { cardId, prompt, colorTreatment } = action.payload;
+    const wasAdopted = !listenerApi.getOriginalState().story.imageFingerprints[cardId] &&
+      !!listenerApi.getState().story.imageFingerprints[cardId];
+    if (wasAdopted) {
+      imageCacheService.adoptImage(listenerApi.getState().story.storyId, cardId, prompt, colorTreatment);
+    }
+  },
+});
+
+// A replaced image's object URL is released, whichever path (queue, tab sync, bundle import) replaced it.
+startAppListening({
+  actionCreator: updateImageCache,
+  effect: (action, listenerApi) => {
+    const previousUrls = listenerApi.getOriginalState().story.imageUrls;
+    const currentUrls = listenerApi.getState().story.imageUrls;
+    action.payload.forEach(({ cardId }) => {
+      const previousUrl = previousUrls[cardId];
+      if (previousUrl?.startsWith('blob:') && previousUrl !== currentUrls[cardId]) {
+        URL.revokeObjectURL(previousUrl);
+      }
+    });
+  },
+});
+
+// Picking a case starts it with no images, so every object URL the previous case held is released.
+startAppListening({
+  actionCreator: caseSelected,
+  effect: (_action, listenerApi) => {
+    Object.values(listenerApi.getOriginalState().story.imageUrls)
+      .filter(url => url.startsWith('blob:'))
+      .forEach(url => URL.revokeObjectURL(url));
+  },
+});
+
+// The chosen case's prompt overrides apply to every AI request from here on, including the images it queues.
+startAppListening({
+  actionCreator: caseSelected,
+  effect: (action) => {
+    const { id, promptOverrides } = getStoryPackage(action.payload);
+    setPromptOverrides(id, promptOverrides);
+  },
+});
+
 // --- Entity Selectors ---
 // Corrected to pass a selector for the specific entity slice state, not the whole story slice.
 export const { selectAll: selectAllCharacters, selectById: selectCharacterById } = 
@@ -401,6 +538,9 @@ export const { selectAll: selectAllEvidenceGroups, selectById: selectEvidenceGro
     evidenceGroupsAdapter.getSelectors((state: RootState) => state.story.evidenceGroups);
 
 // --- Memoized, Derived Selectors ---
+export const selectStoryId = (state: RootState) => state.story.storyId;
+/** The registry package of the loaded case, for its case file clues, intro slides and ADA hooks. */
+export const selectStoryPackage = (state: RootState) => getStoryPackage(state.story.storyId);
 export const selectStoryInfo = (state: RootState) => state.story.storyInfo;
 export const selectPlayerTokens = (state: RootState) => state.story.playerTokens;
 export const selectBounties = (state: RootState) => Object.values(state.story.bounties.entities).filter((b): b is Bounty => !!b);
@@ -0,0 +1,239 @@
+/**
+ * @file store/tabSyncSlice.ts
+ * @description Keeps the Redux stores of several open tabs in step, and makes sure only one of
+ * them — the elected image-queue leader — spends API quota on image generation.
+ *
+ * @architectural_note
+ * Outgoing: listeners rebroadcast an allowlist of player-driven story, case file, narrative and UI
+ * actions.
+ * Incoming: those actions are dispatched verbatim with a `meta.fromTab` marker, which stops them
+ * from being rebroadcast (and from entering the local undo history).
+ * Images: follower tabs still queue requests locally (so their spinners show), but only the leader
+ * processes the queue. When the leader finishes a batch it announces the card IDs; followers load
+ * the Blobs from the shared IndexedDB cache and create their own object URLs, since object URLs
+ * cannot cross tab boundaries.
+ * Cases: a tab only syncs with tabs playing the same case, and each case elects its own leader.
+ */
+
+import { createSlice, createAsyncThunk, isAnyOf, UnknownAction } from '@reduxjs/toolkit';
+import type { RootState } from './index';
+import { startAppListening } from './listenerMiddleware';
+import { tabSyncService, TabSyncMessage, isRemoteAction } from '../services/tabSyncService';
+import { imageCacheService } from '../services/imageCacheService';
+import {
+  toggleSuspect,
+  setAssignedSuspects,
+  addToTimeline,
+  queueImageGeneration,
+  updateImageCache,
+  markObjectAsAnalyzed,
+  addDynamicObject,
+  addFindingIdToObject,
+  addLatentConnection,
+  resolveLatentConnection,
+  createEvidenceFromTestimony,
+  addTokens,
+  setDynamicHotspotCoords,
+  processImageGenerationQueue,
+} from './storySlice';
+import { placeClueInSlot, removeClueFromSlot, addUnlockedClue, resetInvestigation } from './caseFileSlice';
+import { triggerFired, flagSet, hotspotUnlocked, interactionSolved } from './narrativeSlice';
+import { lineOfInquiryCompleted } from './dialogueSlice';
+import { markIntroAsPlayed, markLocationsVisited } from './uiSlice';
+import { restoreSavedGame, restoreProgressSnapshot } from './persistenceSlice';
+import { caseSelected } from './caseSelectionSlice';
+
+interface TabSyncState {
+  /** Whether this tab processes the image generation queue. */
+  isImageQueueLeader: boolean;
+}
+
+const initialState: TabSyncState = {
+  // Without leader election every tab must process its own queue, as it did before sync existed.
+  isImageQueueLeader: !tabSyncService.supportsLeaderElection(),
+};
+
+const markRemote = (action: UnknownAction, sourceTabId: string): UnknownAction => ({
+  ...action,
+  meta: { ...(action.meta as object | undefined), fromTab: sourceTabId },
+});
+
+/**
+ * The actions mirrored to other tabs. Navigation, modals and image-cache bookkeeping are
+ * deliberately absent: each tab keeps its own view, and images travel via `imagesReady`. Of the
+ * dialogue actions only completed lines of inquiry are mirrored, since locks can require them; the
+ * conversations themselves stay in the tab they were held in.
+ */
+const isSyncedAction = isAnyOf(
+  toggleSuspect,
+  setAssignedSuspects,
+  addToTimeline,
+  queueImageGeneration,
+  markObjectAsAnalyzed,
+  addDynamicObject,
+  addFindingIdToObject,
+  addLatentConnection,
+  resolveLatentConnection,
+  createEvidenceFromTestimony,
+  addTokens,
+  setDynamicHotspotCoords,
+  placeClueInSlot,
+  removeClueFromSlot,
+  addUnlockedClue,
+  resetInvestigation,
+  markIntroAsPlayed,
+  triggerFired,
+  flagSet,
+  hotspotUnlocked,
+  interactionSolved,
+  lineOfInquiryCompleted,
+  restoreProgressSnapshot,
+);
+
+const tabSyncSlice = createSlice({
+  name: 'tabSync',
+  initialState,
+  reducers: {
+    setImageQueueLeader(state, action: { payload: boolean }) {
+      state.isImageQueueLeader = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    // Leadership is per case; the new case's election starts with `startTabSync`.
+    builder.addCase(caseSelected, () => initialState);
+  },
+});
+
+const { setImageQueueLeader } = tabSyncSlice.actions;
+
+/** The case this tab is syncing, or null before `startTabSync` (and between cases). */
+let syncedStoryId: string | null = null;
+let isSubscribed = false;
+let releaseLeadership = () => {};
+
+/** Sends a local action to the other tabs. Nothing is sent before `startTabSync`, so startup hydration stays local. */
+const broadcastAction = (action: UnknownAction) => {
+  if (!syncedStoryId) return;
+  tabSyncService.post({ kind: 'action', sourceTabId: tabSyncService.tabId, storyId: syncedStoryId, action });
+};
+
+/**
+ * An async thunk that connects this tab to the other tabs playing the same case and enters it into
+ * that case's leader election. Dispatch it after the case's autosave has been restored. Dispatching
+ * it again for the same case has no effect.
+ */
+export const startTabSync = createAsyncThunk<void, void, { state: RootState }>(
+  'tabSync/start',
+  async (_, { dispatch, getState }) => {
+    const { storyId } = getState().story;
+    if (syncedStoryId === storyId) return;
+    syncedStoryId = storyId;
+
+    releaseLeadership = tabSyncService.requestLeadership(storyId, () => {
+      // The lock may be granted after the player has already moved on to another case.
+      if (syncedStoryId !== storyId) return;
+      dispatch(setImageQueueLeader(true));
+      // Drain anything this tab queued while it was a follower (e.g., after the old leader closed).
+      dispatch(processImageGenerationQueue());
+    });
+
+    if (isSubscribed) return;
+    isSubscribed = true;
+
+    const handleImagesReady = async (message: Extract<TabSyncMessage, { kind: 'imagesReady' }>) => {
+      const { imageUrls, imageFingerprints } = getState().story;
+      const results = await Promise.all(message.results
+        // Skip images this tab already has, unless the leader regenerated them from a new prompt.
+        .filter(({ cardId, promptHash }) => !imageUrls[cardId] || (!!promptHash && imageFingerprints[cardId] !== promptHash))
+        .map(async ({ cardId, error, promptHash }) => {
+          const blob = error ? undefined : await imageCacheService.loadImage(message.storyId, cardId);
+          return blob
+            ? { cardId, url: URL.createObjectURL(blob), error: false, promptHash }
+            : { cardId, url: null, error: true };
+        }));
+      // --- CASE SWITCH CHECK ---
+      if (results.length > 0 && message.storyId === syncedStoryId) {
+        dispatch(markRemote(updateImageCache(results), message.sourceTabId));
+      }
+    };
+
+    tabSyncService.subscribe(message => {
+      // Tabs playing another case share the channel but nothing else.
+      if (message.storyId !== syncedStoryId) return;
+      if (message.kind === 'action') {
+        dispatch(markRemote(message.action, message.sourceTabId));
+        // A follower asked for an image; the leader is the only tab that will generate it.
+        if (queueImageGeneration.match(message.action) && getState().tabSync.isImageQueueLeader) {
+          const { cardId } = message.action.payload;
+          const { imageUrls, imageLoading, imageFingerprints } = getState().story;
+          if (imageUrls[cardId] && !imageLoading[cardId]) {
+            // Already cached and current here, so the leader's reducer ignored the request; point the follower at the cache.
+            tabSyncService.post({
+              kind: 'imagesReady',
+              sourceTabId: tabSyncService.tabId,
+              storyId: message.storyId,
+              results: [{ cardId, error: false, promptHash: imageFingerprints[cardId] }],
+            });
+          } else {
+            dispatch(processImageGenerationQueue());
+          }
+        }
+      } else if (message.kind === 'imagesReady') {
+        handleImagesReady(message);
+      }
+    });
+  }
+);
+
+// --- Outgoing Sync ---
+
+startAppListening({
+  predicate: (action) => isSyncedAction(action) && !isRemoteAction(action),
+  effect: (action) => {
+    broadcastAction(action);
+  },
+});
+
+// Loading a save mirrors the player's progress, but not their navigation, to the other tabs.
+startAppListening({
+  actionCreator: restoreSavedGame,
+  effect: (action) => {
+    if (isRemoteAction(action)) return;
+    const { story, caseFile, narrative } = action.payload;
+    broadcastAction(restoreProgressSnapshot({ story, caseFile, narrative }));
+  },
+});
+
+// Visited locations are recorded as a side effect of navigation, which itself isn't synced.
+startAppListening({
+  predicate: (action, currentState, previousState) =>
+    !isRemoteAction(action) && currentState.ui.visitedLocationIds !== previousState.ui.visitedLocationIds,
+  effect: (_action, listenerApi) => {
+    const ids = listenerApi.getState().ui.visitedLocationIds;
+    broadcastAction(markLocationsVisited(ids));
+  },
+});
+
+// Announce finished images so other tabs can pick them up from IndexedDB.
+startAppListening({
+  actionCreator: updateImageCache,
+  effect: (action) => {
+    if (!syncedStoryId || isRemoteAction(action)) return;
+    const results = action.payload.map(({ cardId, error, promptHash }) => ({ cardId, error, promptHash }));
+    tabSyncService.post({ kind: 'imagesReady', sourceTabId: tabSyncService.tabId, storyId: syncedStoryId, results });
+  },
+});
+
+// Switching cases leaves the old case's tabs and election until the new case has loaded its save.
+startAppListening({
+  actionCreator: caseSelected,
+  effect: () => {
+    syncedStoryId = null;
+    releaseLeadership();
+    releaseLeadership = () => {};
+  },
+});
+
+export const selectIsImageQueueLeader = (state: RootState) => state.tabSync.isImageQueueLeader;
+
+export default tabSyncSlice.reducer;
@@ -6,8 +6,10 @@
  */
 
 import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
-import { ViewType, CardType } from '../types';
+import { ViewType, CardType, NavigationHistoryEntry } from '../types';
 import { AppDispatch, RootState } from './index';
+import { restoreSavedGame } from './persistenceSlice';
+import { caseSelected } from './caseSelectionSlice';
 
 /**
  * Defines the possible types of modals that can be displayed.
@@ -27,23 +29,19 @@ export type ModalType =
   | 'documentViewer'
   | 'forensicFinding'
   | 'latentConnection'
-  | 'errorLog';
+  | 'errorLog'
+  | 'aiUsage'
+  | 'promptPreview'
+  | 'saveSlots'
+  | 'history';
 
-interface HistoryEntry {
-  view: ViewType;
-  cardId: string | null;
-  cardType: CardType | null;
-  collectionType?: string;
-  collectionTitle?: string;
-}
-
-interface UiState {
+export interface UiState {
   activeView: ViewType;
   activeCardId: string | null;
   activeCardType: CardType | null;
   activeCollectionType: string | null;
   activeCollectionTitle: string | null;
-  history: HistoryEntry[];
+  history: NavigationHistoryEntry[];
   activeModal: ModalType | null;
   // --- Developer Note on `activeModalProps: any` ---
   // The `any` type is used here deliberately to create a flexible modal system.
@@ -197,6 +195,17 @@ const uiSlice = createSlice({
         localStorage.setItem('introPlayed', 'true');
       }
     },
+    /**
+     * Merges location IDs visited in another tab into this tab's visited list.
+     * @param {string[]} action.payload The other tab's visited location IDs.
+     */
+    markLocationsVisited(state, action: PayloadAction<string[]>) {
+      action.payload.forEach(id => {
+        if (!state.visitedLocationIds.includes(id)) {
+          state.visitedLocationIds.push(id);
+        }
+      });
+    },
     addTimelineMessage(state, action: PayloadAction<string>) {
       // Replace existing messages with the new one for a single, dismissible toast.
       state.timelineMessages = [action.payload];
@@ -229,6 +238,14 @@ const uiSlice = createSlice({
       state.locationPanelExpandedState[locationId] = isExpanded;
     },
   },
+  extraReducers: (builder) => {
+    builder.addCase(restoreSavedGame, (state, action) => {
+      // Open modals and toast/animation queues are intentionally left as they are.
+      return { ...state, ...action.payload.ui };
+    });
+    // A new case starts on its own map; whether the player has seen the intro is not case-specific.
+    builder.addCase(caseSelected, (state) => ({ ...initialState, introPlayed: state.introPlayed }));
+  },
 });
 
 export const {
@@ -239,6 +256,7 @@ export const {
   showModal,
   hideModal,
   markIntroAsPlayed,
+  markLocationsVisited,
   addTimelineMessage,
   clearTimelineMessages,
   addNewlyAddedEvidenceId,
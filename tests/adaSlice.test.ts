@@ -35,7 +35,8 @@ jest.mock('@reduxjs/toolkit', () => {
 
 // Now that the mock is set up, we can import the slice.
 // `getADAResponse` will be the mockThunk we created inside the factory.
-import adaReducer, { clearADAMessages, getADAResponse } from '../store/adaSlice';
+import adaReducer, { clearADAMessages, getADAResponse, adaResponseStreamed, cardAnalysisRequested, cardAnalysisRestored } from '../store/adaSlice';
+import { PlayerAction } from '../types';
 import { configureStore } from '@reduxjs/toolkit';
 
 describe('adaSlice', () => {
@@ -56,6 +57,8 @@ describe('adaSlice', () => {
     isLoading: false,
     error: null,
     hasNewMessages: false,
+    cardAnalysis: null,
+    streamingMessage: null,
   };
 
   it('should handle initial state', () => {
@@ -107,4 +110,47 @@ describe('adaSlice', () => {
     expect(state.messages[1]).toContain("Analysis interrupted");
   });
 
+  it('should grow the streaming message as text arrives', () => {
+    const pending = adaReducer(initialState, { type: getADAResponse.pending.type });
+    const partial = adaReducer(pending, adaResponseStreamed('The caliber'));
+    const more = adaReducer(partial, adaResponseStreamed('The caliber doesn\'t match.'));
+
+    expect(partial.streamingMessage).toBe('The caliber');
+    expect(more.streamingMessage).toBe('The caliber doesn\'t match.');
+    expect(more.messages).toEqual(initialState.messages);
+  });
+
+  it('should keep a partial response readable when the stream fails', () => {
+    const streaming = { ...initialState, isLoading: true, streamingMessage: 'The caliber' };
+    const state = adaReducer(streaming, { type: getADAResponse.rejected.type, payload: 'Connection lost.' });
+
+    expect(state.streamingMessage).toBeNull();
+    expect(state.messages[1]).toBe('The caliber');
+    expect(state.messages[2]).toContain("Analysis interrupted");
+  });
+
+  it('should ignore a stream superseded by a newer request', () => {
+    const streaming = { ...initialState, isLoading: true, streamingMessage: '' };
+    const state = adaReducer(streaming, { type: getADAResponse.rejected.type, meta: { aborted: true } });
+
+    expect(state).toEqual(streaming);
+  });
+
+  const request = { storyTitle: 'Foul Shot', action: PlayerAction.VIEW_CARD, contextDetails: 'Player is viewing the card for A.', directives: [] };
+
+  it('should show a cached analysis for the card in view', () => {
+    const requested = adaReducer(initialState, cardAnalysisRequested({ cacheKey: 'story:card:1', request }));
+    const state = adaReducer(requested, cardAnalysisRestored({ id: 'story:card:1', text: 'Cached insight.', cachedAt: '2024-01-01T00:00:00.000Z' }));
+
+    expect(state.messages).toEqual([...initialState.messages, 'Cached insight.']);
+    expect(state.cardAnalysis?.cachedAt).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('should ignore a cached analysis for a card no longer in view', () => {
+    const requested = adaReducer(initialState, cardAnalysisRequested({ cacheKey: 'story:card:2', request }));
+    const state = adaReducer(requested, cardAnalysisRestored({ id: 'story:card:1', text: 'Cached insight.', cachedAt: '2024-01-01T00:00:00.000Z' }));
+
+    expect(state.messages).toEqual(initialState.messages);
+  });
+
 });
\ No newline at end of file
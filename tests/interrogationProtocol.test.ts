@@ -0,0 +1,84 @@
+/**
+ * @file tests/interrogationProtocol.test.ts
+ * @description Unit tests for validating interrogation replies against the protocol schema.
+ *
+ * @developer_note Like the other files in this folder, this is a conceptual test file that assumes a
+ * Jest environment. `config` is mocked so that importing the AI service never reads Vite's
+ * `import.meta.env`; it then runs on the offline provider.
+ */
+
+import { jest, describe, it, expect } from '@jest/globals';
+
+jest.mock('../config', () => ({
+  AI_CONFIG: {
+    PROVIDER: 'offline',
+    FIXTURE_MODE: 'off',
+    INTERROGATION_REPAIR_ATTEMPTS: 2,
+    RETRY_BUDGETS: {},
+    CIRCUIT_BREAKER_THRESHOLD: 3,
+    CIRCUIT_BREAKER_COOLDOWN_MS: 60000,
+  },
+}));
+
+import { parseInterrogationResponse } from '../services/ai/aiProvider';
+import { getInterrogationResponse, getChatTranscript, InterviewChat } from '../services/aiService';
+import { DialogueChatTurn } from '../types';
+
+const validReply = {
+  chunks: [{
+    text: 'He looked pathetic, pleading about some custody papers.',
+    isCriticalClue: true,
+    insight: { justification: 'Only the killer would know this.', newLead: 'Connect his vehicle to the scene.' },
+  }],
+  phaseUpdate: { progressValue: 40 },
+  phaseCompleted: true,
+  nextSuggestedQuestions: ['Which papers?'],
+  adaFeedback: 'He just placed himself at the scene.',
+};
+
+describe('parseInterrogationResponse', () => {
+  it('accepts a valid reply wrapped in prose', () => {
+    const parsed = parseInterrogationResponse(`Here you go:\n${JSON.stringify(validReply)}`);
+    expect(parsed.phaseCompleted).toBe(true);
+    expect(parsed.chunks[0].insight?.newLead).toBe('Connect his vehicle to the scene.');
+  });
+
+  it('names each missing field', () => {
+    const { adaFeedback: _adaFeedback, ...reply } = validReply;
+    expect(() => parseInterrogationResponse(JSON.stringify(reply))).toThrow('missing required fields: adaFeedback');
+  });
+
+  it('rejects an incomplete insight and a non-boolean phaseCompleted', () => {
+    const reply = {
+      ...validReply,
+      chunks: [{ ...validReply.chunks[0], insight: { justification: 'Only the killer would know this.' } }],
+      phaseCompleted: 'yes',
+    };
+    expect(() => parseInterrogationResponse(JSON.stringify(reply))).toThrow(/chunks\.0\.insight\.newLead[\s\S]*phaseCompleted/);
+  });
+});
+
+describe('getInterrogationResponse', () => {
+  /** A chat that answers each message with the next scripted reply, or rejects when the reply is an Error. */
+  const scriptedChat = (replies: Array<string | Error>): InterviewChat => {
+    const transcript: DialogueChatTurn[] = [];
+    return {
+      sendMessage: async (message) => {
+        transcript.push({ role: 'user', text: message });
+        const reply = replies.shift();
+        if (reply instanceof Error) throw reply;
+        transcript.push({ role: 'model', text: reply ?? '' });
+        return reply ?? '';
+      },
+      getTranscript: () => transcript,
+    };
+  };
+
+  it('leaves the failed exchange out of the transcript when a repair send rejects', async () => {
+    const chat = scriptedChat([JSON.stringify(validReply), 'not json', new Error('Network down')]);
+    await getInterrogationResponse(chat, 'Where were you that night?');
+
+    await expect(getInterrogationResponse(chat, 'And the papers?')).rejects.toThrow('Network down');
+    expect(getChatTranscript(chat).map(turn => turn.text)).toEqual(['Where were you that night?', JSON.stringify(validReply)]);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * @file tests/offlineProvider.test.ts
+ * @description Unit tests for the offline AI provider's deterministic answers.
+ *
+ * @developer_note Like the other files in this folder, this is a conceptual test file that assumes a
+ * Jest environment.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createOfflineProvider } from '../services/ai/offlineProvider';
+import { ADARequest, PlayerAction } from '../types';
+
+describe('createOfflineProvider', () => {
+  const provider = createOfflineProvider();
+
+  const request: ADARequest = {
+    storyTitle: 'Foul Shot',
+    action: PlayerAction.VIEW_CARD,
+    contextDetails: 'Player is at the crime scene.',
+    directives: [],
+  };
+
+  it('gives the same ADA response to the same request', async () => {
+    expect(await provider.getADAResponse(request)).toBe(await provider.getADAResponse({ ...request }));
+  });
+
+  it('lets a scripted directive take precedence in ADA responses', async () => {
+    const response = await provider.getADAResponse({ ...request, directives: ['Point out the caliber.'] });
+    expect(response).toBe('Point out the caliber.');
+  });
+
+  it('accepts a case that names the culprit and covers every key event', async () => {
+    const groundTruth = { culpritId: 'char_a', keyEvents: [{ objectId: 'obj_1', description: 'The weapon.' }] };
+    const evaluation = await provider.evaluateTimeline({ suspectId: 'char_a', evidenceIds: ['obj_1'] }, groundTruth, 'A');
+    expect(evaluation?.verdict).toBe('Case Accepted');
+    expect(evaluation?.score).toBe(100);
+  });
+
+  it('rejects a case against the wrong suspect with missing evidence', async () => {
+    const groundTruth = { culpritId: 'char_a', keyEvents: [{ objectId: 'obj_1', description: 'The weapon.' }] };
+    const evaluation = await provider.evaluateTimeline({ suspectId: 'char_b', evidenceIds: ['obj_2'] }, groundTruth, 'B');
+    expect(evaluation?.verdict).toBe('Case Rejected');
+    expect(evaluation?.weaknesses).toContain('Missing: The weapon.');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @file tests/placeholderArtService.test.ts
+ * @description Unit tests for the procedural placeholder art shown when a card's image can't be generated.
+ *
+ * @developer_note Like the other files in this folder, this is a conceptual test file that assumes a
+ * Jest environment. `config` is mocked so that importing the service never reads Vite's `import.meta.env`,
+ * and the hash is spied on to tell a cached drawing from a fresh one.
+ */
+
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+
+jest.mock('../config', () => ({
+  RARITY_CONFIG: {
+    irrelevant: { color: '#6b7280' },
+    circumstantial: { color: '#3b82f6' },
+    material: { color: '#a855f7' },
+    critical: { color: '#f59e0b' },
+  },
+}));
+jest.mock('../services/hash', () => {
+  const actual = jest.requireActual<typeof import('../services/hash')>('../services/hash');
+  return { hashString: jest.fn(actual.hashString) };
+});
+
+import { placeholderArtService, PlaceholderRequest } from '../services/placeholderArtService';
+import { hashString } from '../services/hash';
+
+const decode = (url: string) => decodeURIComponent(url.replace('data:image/svg+xml;charset=utf-8,', ''));
+
+const request = (overrides: Partial<PlaceholderRequest> = {}): PlaceholderRequest => ({
+  cardId: 'char-walter',
+  kind: 'character',
+  name: 'Walter Halley',
+  colorTreatment: 'selectiveColor',
+  ...overrides,
+});
+
+describe('placeholderArtService', () => {
+  beforeEach(() => {
+    (hashString as jest.Mock).mockClear();
+  });
+
+  it('draws an SVG data URL captioned with the card name', () => {
+    const url = placeholderArtService.getPlaceholderUrl(request({ cardId: 'char-caption' }));
+    expect(url.startsWith('data:image/svg+xml')).toBe(true);
+    expect(decode(url)).toContain('WALTER HALLEY');
+  });
+
+  it('always draws the same card the same way, and different cards differently', () => {
+    const first = placeholderArtService.getPlaceholderUrl(request({ cardId: 'obj-knife', kind: 'object', name: 'Knife' }));
+    const again = placeholderArtService.getPlaceholderUrl(request({ cardId: 'obj-knife', kind: 'object', name: 'Knife' }));
+    const other = placeholderArtService.getPlaceholderUrl(request({ cardId: 'obj-rope', kind: 'object', name: 'Knife' }));
+    expect(again).toBe(first);
+    expect(other).not.toBe(first);
+  });
+
+  it('reuses a drawing instead of drawing it again', () => {
+    placeholderArtService.getPlaceholderUrl(request({ cardId: 'loc-gym', kind: 'location', name: 'Gym' }));
+    expect(hashString).toHaveBeenCalled();
+
+    (hashString as jest.Mock).mockClear();
+    placeholderArtService.getPlaceholderUrl(request({ cardId: 'loc-gym', kind: 'location', name: 'Gym' }));
+    expect(hashString).not.toHaveBeenCalled();
+  });
+
+  it('draws again when the colour treatment changes', () => {
+    const monochrome = placeholderArtService.getPlaceholderUrl(request({ cardId: 'obj-tag', kind: 'object', colorTreatment: 'monochrome' }));
+    const critical = placeholderArtService.getPlaceholderUrl(request({ cardId: 'obj-tag', kind: 'object', rarity: 'critical' }));
+    expect(critical).not.toBe(monochrome);
+    expect(decode(critical)).toContain('#f59e0b');
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * @file tests/promptRegistry.test.ts
+ * @description Unit tests for the prompt template registry and per-case overrides.
+ *
+ * @developer_note Like the other files in this folder, this is a conceptual test file that assumes a
+ * Jest environment.
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { renderPrompt, setPromptOverrides, getPromptTemplate } from '../services/ai/promptRegistry';
+
+describe('promptRegistry', () => {
+  afterEach(() => setPromptOverrides('test-case'));
+
+  it('renders the default template and references its version', () => {
+    const rendered = renderPrompt('interrogation.repair', { problem: 'The reply was empty.' });
+    expect(rendered.ref).toBe('interrogation.repair@1');
+    expect(rendered.text).toContain('The reply was empty.');
+  });
+
+  it('adds the reply protocol to a persona, zeroing progress in interviews', () => {
+    const interview = renderPrompt('character.persona', { persona: 'You are a witness.', mode: 'interview' }).text;
+    const interrogation = renderPrompt('character.persona', { persona: 'You are a suspect.', mode: 'interrogation' }).text;
+    expect(interview.startsWith('You are a witness.')).toBe(true);
+    expect(interview).toContain('"nextSuggestedQuestions"');
+    expect(interview).toContain('always set it to 0');
+    expect(interrogation).not.toContain('always set it to 0');
+  });
+
+  it("uses a case's override and names the case in the reference", () => {
+    setPromptOverrides('test-case', {
+      'interrogation.repair': { version: 3, description: 'Terse repair.', render: ({ problem }) => `Fix it: ${problem}` },
+    });
+    expect(renderPrompt('interrogation.repair', { problem: 'Bad JSON.' })).toEqual({
+      text: 'Fix it: Bad JSON.',
+      ref: 'interrogation.repair@3 (test-case)',
+    });
+    // Templates the case doesn't override keep their defaults.
+    expect(getPromptTemplate('timeline.summary').overriddenBy).toBeNull();
+  });
+});
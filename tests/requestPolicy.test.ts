@@ -0,0 +1,90 @@
+/**
+ * @file tests/requestPolicy.test.ts
+ * @description Unit tests for the retry budgets and circuit breaker every AI request goes through.
+ *
+ * @developer_note Like the other files in this folder, this is a conceptual test file that assumes a
+ * Jest environment. Delays are a few milliseconds, so the tests run on real timers.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createRequestPolicy, createAIRequestError, classifyAIError, RetryBudget } from '../services/ai/requestPolicy';
+import { AIEndpoint } from '../services/ai/aiProvider';
+import { AIUsageRecord } from '../types';
+
+const budget: RetryBudget = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1000 };
+const budgets: Record<AIEndpoint, RetryBudget> = {
+  getADAResponse: budget,
+  interviewMessage: budget,
+  generateImage: budget,
+  analyzeImageForHotspots: budget,
+  summarizePlayerTimeline: budget,
+  evaluateTimeline: budget,
+};
+
+const details = { model: 'test-model', promptChars: 12 };
+
+const createPolicy = () => createRequestPolicy({ budgets, breakerThreshold: 3, breakerCooldownMs: 20 });
+
+/** A call that fails with the given error a number of times, then succeeds. */
+const failingCall = (failures: number, error: () => Error) => {
+  let attempts = 0;
+  const call = async () => {
+    attempts++;
+    if (attempts <= failures) throw error();
+    return 'ok';
+  };
+  return { call, attempts: () => attempts };
+};
+
+describe('createRequestPolicy', () => {
+  it('retries transient errors within the budget', async () => {
+    const { call, attempts } = failingCall(2, () => createAIRequestError('503 UNAVAILABLE', 'transient'));
+    expect(await createPolicy().run('evaluateTimeline', call, details)).toBe('ok');
+    expect(attempts()).toBe(3);
+  });
+
+  it('never retries a fatal error', async () => {
+    const { call, attempts } = failingCall(1, () => new Error('400 INVALID_ARGUMENT'));
+    await expect(createPolicy().run('evaluateTimeline', call, details)).rejects.toThrow('INVALID_ARGUMENT');
+    expect(attempts()).toBe(1);
+  });
+
+  it('gives up when the server asks for a longer wait than the budget allows', async () => {
+    const { call, attempts } = failingCall(1, () => createAIRequestError('429', 'quota', 60000));
+    await expect(createPolicy().run('evaluateTimeline', call, details)).rejects.toThrow('429');
+    expect(attempts()).toBe(1);
+  });
+
+  it('opens the circuit after repeated quota errors, then lets a trial request close it', async () => {
+    const policy = createPolicy();
+    const { call } = failingCall(3, () => new Error('got status: 429 RESOURCE_EXHAUSTED'));
+    await expect(policy.run('generateImage', call, details)).rejects.toThrow('RESOURCE_EXHAUSTED');
+    expect(policy.getStatus().circuit).toBe('open');
+
+    const refused = await policy.run('getADAResponse', async () => 'ok', details).catch(error => error);
+    expect(classifyAIError(refused).kind).toBe('circuitOpen');
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(policy.getStatus().circuit).toBe('halfOpen');
+    expect(await policy.run('getADAResponse', async () => 'ok', details)).toBe('ok');
+    expect(policy.getStatus().circuit).toBe('closed');
+  });
+
+  it('reports one usage record per request, counting every attempt', async () => {
+    const policy = createPolicy();
+    const records: AIUsageRecord[] = [];
+    policy.subscribeToUsage(record => records.push(record));
+    const { call } = failingCall(1, () => createAIRequestError('503 UNAVAILABLE', 'transient'));
+    await policy.run('generateImage', call, { ...details, subject: 'A rain-soaked alley.' });
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ endpoint: 'generateImage', outcome: 'ok', attempts: 2, retriedAfter: ['transient'], promptChars: 12, responseChars: 2, subject: 'A rain-soaked alley.' });
+  });
+});
+
+describe('classifyAIError', () => {
+  it('reads the retry delay from a Google RetryInfo detail', () => {
+    const body = { error: { code: 429, details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '42s' }] } };
+    expect(classifyAIError(new Error(`got status: 429. ${JSON.stringify(body)}`))).toEqual({ kind: 'quota', retryAfterMs: 42000 });
+  });
+});
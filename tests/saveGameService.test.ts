@@ -0,0 +1,88 @@
+/**
+ * @file tests/saveGameService.test.ts
+ * @description Unit tests for save-game schema migration.
+ *
+ * @developer_note Like the other files in this folder, this is a conceptual test file that assumes a
+ * Jest environment. `dbService` is mocked so that importing the service never touches IndexedDB.
+ */
+
+import { jest, describe, it, expect } from '@jest/globals';
+
+jest.mock('../services/dbService', () => ({ dbService: {} }));
+
+import { migrateSavedGame, SAVE_SCHEMA_VERSION } from '../services/saveGameService';
+
+describe('migrateSavedGame', () => {
+  const v1Save = {
+    schemaVersion: 1,
+    savedAt: '2025-01-01T00:00:00.000Z',
+    storyTitle: 'Foul Shot',
+    story: {},
+    ui: {},
+    caseFile: {},
+  };
+
+  it('walks a v1 save forward to the current schema version', () => {
+    const migrated = migrateSavedGame(v1Save);
+    expect(migrated?.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+  });
+
+  it('gives a v1 save an empty dialogue history', () => {
+    const migrated = migrateSavedGame(v1Save);
+    expect(migrated?.dialogue).toEqual({ sessions: [] });
+  });
+
+  it('assigns saves from before multi-story support to Foul Shot', () => {
+    expect(migrateSavedGame(v1Save)?.storyId).toBe('foul-shot');
+    expect(migrateSavedGame({ ...v1Save, schemaVersion: 2, dialogue: { sessions: [] } })?.storyId).toBe('foul-shot');
+  });
+
+  it('moves placements out of case file slots that no longer exist', () => {
+    const slotPlacements = {
+      'means-primary': 'clue-means-primary',
+      'means-support-1': null,
+      'means-support-2': 'clue-means-support-2',
+      'means-support-3': 'clue-means-support-3',
+      'opportunity-support-1': null,
+    };
+    const v3Save = { ...v1Save, schemaVersion: 3, dialogue: { sessions: [] }, storyId: 'foul-shot', caseFile: { clues: [], slotPlacements } };
+    const migrated = migrateSavedGame(v3Save)?.caseFile.slotPlacements;
+    expect(migrated?.['means-support-1']).toBe('clue-means-support-2');
+    expect(migrated?.['means-support-2']).toBe('clue-means-support-3');
+    expect(migrated?.['means-primary']).toBe('clue-means-primary');
+    expect(migrated).not.toHaveProperty('means-support-3');
+    expect(migrated).not.toHaveProperty('opportunity-support-1');
+  });
+
+  it('leaves case files already on the generated slots as they are', () => {
+    const slotPlacements = {
+      'means-primary': null,
+      'means-support-1': null,
+      'means-support-2': 'clue-means-support-2',
+    };
+    const v3Save = { ...v1Save, schemaVersion: 3, dialogue: { sessions: [] }, storyId: 'foul-shot', caseFile: { clues: [], slotPlacements } };
+    expect(migrateSavedGame(v3Save)?.caseFile.slotPlacements).toEqual(slotPlacements);
+  });
+
+  it('moves story flags out of the story state into an empty narrative state', () => {
+    const v4Save = { ...v1Save, schemaVersion: 4, storyId: 'foul-shot', dialogue: { sessions: [] }, story: { evidence: [], hasDiscoveredPaint: true } };
+    const migrated = migrateSavedGame(v4Save);
+    expect(migrated?.story).toEqual({ evidence: [] });
+    expect(migrated?.narrative).toEqual({ flags: {}, firedTriggerIds: [], unlockedHotspotIds: [], solvedInteractionObjectIds: [] });
+  });
+
+  it('keeps existing narrative progress when adding solved interactions', () => {
+    const narrative = { flags: { sawAffairPhotos: true }, firedTriggerIds: ['trg_first_look_pi_photos'], unlockedHotspotIds: [] };
+    const v5Save = { ...v1Save, schemaVersion: 5, storyId: 'foul-shot', dialogue: { sessions: [] }, narrative };
+    expect(migrateSavedGame(v5Save)?.narrative).toEqual({ ...narrative, solvedInteractionObjectIds: [] });
+  });
+
+  it('rejects saves written by a newer build', () => {
+    expect(migrateSavedGame({ ...v1Save, schemaVersion: SAVE_SCHEMA_VERSION + 1 })).toBeNull();
+  });
+
+  it('rejects records without a schema version', () => {
+    expect(migrateSavedGame({ storyTitle: 'Foul Shot' })).toBeNull();
+    expect(migrateSavedGame(undefined)).toBeNull();
+  });
+});
@@ -19,6 +19,8 @@
  *   functional domain, making it easier to read, understand, and debug.
  */
 
+import type { PromptOverrides } from './services/ai/promptRegistry';
+
 // --- Core UI & Navigation Types ---
 
 /** Defines the main views the user can navigate to. */
@@ -52,11 +54,13 @@ export type EvidenceRarity = 'irrelevant' | 'circumstantial' | 'material' | 'cri
 export interface Hotspot {
   id: string;
   type?: 'investigate' | 'move'; // The type of interaction, influences the icon. 'investigate' is default.
-  coords?: { top: string; left: string; width: string; height: string }; // Optional static coords
+  coords?: { top: string; left: string; width?: string; height?: string }; // Optional static coords, as percentages
   targetCardId: string; // The ID of the card to navigate to
   targetCardType: CardType; // Can now point to an evidence group
   label: string; // The text displayed on the hotspot
   aiHint?: string; // An optional hint for the AI to locate the object
+  isHidden?: boolean; // Hidden until a narrative trigger's `unlockHotspot` effect reveals it
+  lock?: ContentLock; // Shown, but unusable until the lock's conditions hold
 }
 
 /**
@@ -95,26 +99,40 @@ export interface Evidence {
 // This is the core of the scalable architecture. Instead of adding properties directly to
 // Character or StoryObject, we add `DataComponent`s to their `components` array.
 
-export type DataComponentType = 
-  | 'socialMedia' 
-  | 'phoneLog' 
-  | 'cctv' 
-  | 'records' 
-  | 'file' 
-  | 'purchaseInfo' 
-  | 'interaction'
-  | 'documentContent'
-  | 'dialogue'
-  | 'physicalCharacteristics';
+/** The character components whose content is the objects the character owns, opened as a collection. */
+export type CollectionComponentType = 'socialMedia' | 'phoneLog' | 'cctv' | 'records' | 'file';
 
-/** A generic Data Component, forming the basis of the component-based architecture. */
-export interface DataComponent {
-  type: DataComponentType;
-  props: any;
+/**
+ * Maps each component type to the shape of its `props`. This is the single list of component types:
+ * `DataComponent`, the runtime validators in `data/dataComponents.ts` and the component registry are
+ * all keyed by it, so a new type must be added here first.
+ */
+export interface DataComponentPropsMap {
+  socialMedia: CollectionComponentProps;
+  phoneLog: CollectionComponentProps;
+  cctv: CollectionComponentProps;
+  records: CollectionComponentProps;
+  file: CollectionComponentProps;
+  purchaseInfo: PurchaseInfo;
+  interaction: Interaction;
+  documentContent: DocumentContent;
+  dialogue: DialogueData;
+  physicalCharacteristics: PhysicalCharacteristics;
 }
 
+export type DataComponentType = keyof DataComponentPropsMap;
+
+/** A Data Component of one specific type, with its props typed accordingly. */
+export type DataComponentOfType<K extends DataComponentType> = { type: K; props: DataComponentPropsMap[K]; lock?: ContentLock };
+
+/** A Data Component, forming the basis of the component-based architecture. Narrow on `type` to reach typed props. */
+export type DataComponent = { [K in DataComponentType]: DataComponentOfType<K> }[DataComponentType];
+
 // --- Data Component Prop Interfaces ---
 
+/** Collection components carry no data of their own; the card gathers the owner's objects of the matching category. */
+export type CollectionComponentProps = Record<string, unknown>;
+
 export interface PhysicalCharacteristics {
   height: string;
   weight: string;
@@ -192,6 +210,8 @@ export interface StoryObject {
   tags?: TimelineTag[];
   metadata?: {
     unlocksCaseFileClueId?: string;
+    /** A case file clue declared inline. The compiler adds it to the case file and sets `unlocksCaseFileClueId`. */
+    caseFileClue?: Clue;
     timelineSummary?: string;
   };
   forensicDetails?: {
@@ -226,6 +246,8 @@ export interface Location {
     notes?: string;
   };
    officialReportIds?: { id: string; type: CardType }[];
+  /** While locked, the location card shows only its name and the lock's teaser. */
+  lock?: ContentLock;
 }
 
 /** Represents a collection of objects found together. */
@@ -257,6 +279,120 @@ export interface StoryData {
   testimonies: Testimony[];
   canonicalTimeline: CanonicalTimeline | null;
   evidenceStacks?: EvidenceStack[];
+  /** The case file board, generated at build time from the clues the objects declare. */
+  caseFile: CaseFileData;
+  /** The story's scripted moments, evaluated by `narrativeSlice` as the player acts. */
+  narrativeTriggers: NarrativeTrigger[];
+}
+
+/** One slide of a case's introductory slideshow. */
+export interface IntroSlide {
+  id: string;
+  imagePrompt: string;
+  narration: string;
+}
+
+/** Everything that makes up one playable case, as listed on the case selection screen. */
+export interface StoryPackage {
+  /** Stable identifier, used to namespace saves and cached images. Never change it once shipped. */
+  id: string;
+  title: string;
+  /** A one- or two-sentence hook shown on the case selection screen. */
+  tagline: string;
+  storyData: StoryData;
+  introSlides: IntroSlide[];
+  /** Loads the uncompiled locations and objects, for exporting authoring edits. Only needed in development. */
+  loadRawContent?: () => Promise<RawAuthoringContent>;
+  /** Replacements for the default AI prompt templates, used while this case is being played. */
+  promptOverrides?: PromptOverrides;
+}
+
+// --- Authoring ---
+
+/** A location or object entry as written in the story's source files, before compilation. */
+export type RawContentEntry = { id: string } & Record<string, unknown>;
+
+/** The source arrays authoring edits are exported against (`rawLocations` and `rawObjects`). */
+export interface RawAuthoringContent {
+  locations: RawContentEntry[];
+  objects: RawContentEntry[];
+}
+
+/** The parts of a hotspot a writer can change in authoring mode. */
+export type HotspotChanges = Partial<Pick<Hotspot, 'label' | 'aiHint' | 'coords'>>;
+
+/** A writer's unsaved changes to one location. Hotspot changes apply to authored and added hotspots alike. */
+export interface LocationEdit {
+  text: Partial<Pick<Location, 'name' | 'sceneSummary' | 'detailedDescription'>>;
+  hotspotChanges: { [hotspotId: string]: HotspotChanges };
+  addedHotspots: Hotspot[];
+}
+
+/** A writer's unsaved changes to one object's text. */
+export type ObjectEdit = Partial<Pick<StoryObject, 'name' | 'description' | 'unidentifiedDescription'>>;
+
+// --- Narrative Triggers ---
+
+/** Something the player did that a narrative trigger can react to. */
+export type NarrativeEvent =
+  | { type: 'cardViewed'; cardId: string; cardType: CardType }
+  | { type: 'evidenceCollected'; objectId: string }
+  | { type: 'traceScanned'; objectId: string }
+  | { type: 'lineOfInquiryCompleted'; characterId: string; loiId: string }
+  | { type: 'cluePlaced'; clueId: string; slotId: string }
+  | { type: 'interactionSolved'; objectId: string };
+
+export type NarrativeEventType = NarrativeEvent['type'];
+
+/**
+ * A fact about the current game a trigger can require. Each kind names the ID it checks:
+ * a flag, an object (collected, forensically analyzed, or its interaction solved), a case file clue
+ * (unlocked or placed in a slot), a line of inquiry, or another trigger.
+ */
+export type NarrativeCondition =
+  | { kind: 'flag'; flag: string; value?: boolean }
+  | { kind: 'objectCollected'; objectId: string }
+  | { kind: 'objectAnalyzed'; objectId: string }
+  /** The object's `interaction` component (phone unlock, safe crack, ...) has been solved. */
+  | { kind: 'interactionSolved'; objectId: string }
+  | { kind: 'clueUnlocked'; clueId: string }
+  | { kind: 'cluePlaced'; clueId: string }
+  | { kind: 'lineOfInquiryCompleted'; characterId: string; loiId: string }
+  | { kind: 'triggerFired'; triggerId: string };
+
+/**
+ * Gates a hotspot, location, data component or line of inquiry until every condition holds. Locked
+ * content stays visible, showing the teaser instead, so the player knows there is more to find.
+ */
+export interface ContentLock {
+  requires: NarrativeCondition[];
+  teaser: string;
+}
+
+/** A modal a trigger may open. Only modals whose props can be authored as plain data are allowed. */
+export type NarrativeModal =
+  | { modal: 'documentViewer'; props: DocumentContent }
+  | { modal: 'introSlideshow' };
+
+/** What a trigger does when it fires. */
+export type NarrativeEffect =
+  | { kind: 'setFlag'; flag: string; value?: boolean }
+  /** Appended to ADA's next analysis prompt, e.g. to make her notice a connection. */
+  | { kind: 'adaDirective'; directive: string }
+  | { kind: 'unlockHotspot'; hotspotId: string }
+  /** Unlocks a case file clue declared on some object, without the player filing that object. */
+  | { kind: 'addClue'; clueId: string }
+  | ({ kind: 'showModal' } & NarrativeModal);
+
+/** A scripted story moment: when `on` happens and every condition holds, the effects run in order. */
+export interface NarrativeTrigger {
+  id: string;
+  /** The event to react to. `targetId` narrows it to one card, object, line of inquiry or clue. */
+  on: { event: NarrativeEventType; targetId?: string };
+  conditions?: NarrativeCondition[];
+  /** Whether the trigger may fire again after its first time. Defaults to false. */
+  repeatable?: boolean;
+  effects: NarrativeEffect[];
 }
 
 // --- AI & Player Interaction Types ---
@@ -272,6 +408,18 @@ export enum PlayerAction {
   FILTER_TIMELINE = 'FILTER_TIMELINE',
 }
 
+/** Everything ADA is told about one player action. The AI provider turns it into a prompt. */
+export interface ADARequest {
+  storyTitle: string;
+  action: PlayerAction;
+  /** A human-readable description of what the player is looking at or did. */
+  contextDetails: string;
+  /** The image prompt of the current view, for visual analysis. */
+  imagePrompt?: string;
+  /** Scripted narrative directives queued by the story's triggers, each used once. */
+  directives: string[];
+}
+
 /** Defines the "ground truth" for the case's solution. */
 export interface CanonicalTimeline {
   culpritId: string;
@@ -321,6 +469,7 @@ export interface LineOfInquiryData {
     id: string;
     label: string;
     initialQuestions: string[];
+    lock?: ContentLock;
 }
 
 /** The complete data for a character's dialogue component. */
@@ -336,6 +485,32 @@ export interface DialogueData {
     suggestedQuestions?: string[];
 }
 
+/** One turn of the raw chat history with a character's AI, replayed to resume a conversation. */
+export interface DialogueChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+/**
+ * Everything remembered about the player's conversation with one character.
+ * Which testimony has been logged is not stored here; it is derived from the story's testimony objects,
+ * so undoing a logged statement also makes it loggable again.
+ */
+export interface DialogueSession {
+    characterId: string;
+    /** The transcript of the current line of inquiry (or the whole interview). */
+    messages: WitnessResponse[];
+    lastQuestionAsked: string | null;
+    /** Suggestions returned by the AI. Null until the first response, when the dialogue data's defaults apply. */
+    suggestedQuestions: string[] | null;
+    /** The opening questions of the active line of inquiry, cleared once the player asks anything. */
+    initialQuestions: string[] | null;
+    activeLoiId: string | null;
+    loiStatus: Record<string, 'completed'>;
+    /** The AI's full memory of the conversation, across every line of inquiry. */
+    chatHistory: DialogueChatTurn[];
+}
+
 /** Represents ADA's real-time feedback during an interrogation. */
 export interface ActiveFeedback {
   text: string;
@@ -407,14 +582,229 @@ export interface TimelineAnchor {
   supportingSlots: EvidenceSlot[];
 }
 
+/** An anchor as authored: only its copy. The slots are generated from the clues in its category. */
+export type CaseFileAnchorDefinition = Pick<TimelineAnchor, 'id' | 'title' | 'timeLabel'>;
+
 export interface CaseFileData {
   title: string;
+  /** Every clue the case file can receive, looked up when evidence names one in `unlocksCaseFileClueId`. */
   clues: Clue[];
   anchors: TimelineAnchor[];
 }
 
+// --- Save Game Types ---
+
+/** A single step in the UI's back-navigation stack. */
+export interface NavigationHistoryEntry {
+  view: ViewType;
+  cardId: string | null;
+  cardType: CardType | null;
+  collectionType?: string;
+  collectionTitle?: string;
+}
+
+/**
+ * The player-driven fields of a story object. Everything else about an object (names, prompts,
+ * descriptions) is re-read from the story data on load, so content edits are never masked by a save.
+ */
+export type StoryObjectProgress = Pick<StoryObject, 'isEvidence' | 'assignedToSuspectIds' | 'hasBeenUnlocked' | 'isFullyAnalyzed' | 'findingIds'>;
+
+/** The persisted subset of the story slice. */
+export interface SavedStoryState {
+  objectProgress: { [objectId: string]: StoryObjectProgress };
+  /** Objects created during play (forensic findings, testimony evidence) that don't exist in the story data. */
+  dynamicObjects: StoryObject[];
+  suspectFlags: { [characterId: string]: boolean };
+  evidence: Evidence[];
+  latentConnections: LatentConnection[];
+  dynamicHotspotCoords: { [locationId: string]: { [hotspotId: string]: { x: number; y: number } } };
+  playerTokens: number;
+}
+
+/** The persisted subset of the UI slice. Modals and transient animation state are deliberately excluded. */
+export interface SavedUiState {
+  activeView: ViewType;
+  activeCardId: string | null;
+  activeCardType: CardType | null;
+  activeCollectionType: string | null;
+  activeCollectionTitle: string | null;
+  history: NavigationHistoryEntry[];
+  locationsView: 'map' | 'list';
+  visitedLocationIds: string[];
+  introPlayed: boolean;
+  locationPanelExpandedState: { [locationId: string]: boolean };
+}
+
+/** The persisted subset of the case file slice. Anchors are static and are rebuilt from the case file data. */
+export interface SavedCaseFileState {
+  viewMode: CaseFileViewMode;
+  activeTab: TimelineAnchorCategory;
+  clues: Clue[];
+  slotPlacements: { [slotId: string]: string | null };
+}
+
+/** The persisted narrative slice. Queued ADA directives are transient and never saved. */
+export interface SavedNarrativeState {
+  flags: { [flag: string]: boolean };
+  firedTriggerIds: string[];
+  unlockedHotspotIds: string[];
+  /** Objects whose `interaction` component the player has solved. */
+  solvedInteractionObjectIds: string[];
+}
+
+/** The persisted dialogue slice: every conversation the player has started. */
+export interface SavedDialogueState {
+  sessions: DialogueSession[];
+}
+
+/** A complete, versioned snapshot of a game in progress. */
+export interface SavedGame {
+  schemaVersion: number;
+  savedAt: string;
+  /** The `StoryPackage` the save belongs to. */
+  storyId: string;
+  storyTitle: string;
+  story: SavedStoryState;
+  ui: SavedUiState;
+  caseFile: SavedCaseFileState;
+  dialogue: SavedDialogueState;
+  narrative: SavedNarrativeState;
+}
+
+/**
+ * The parts of a save that undo/redo rewinds. UI state is left alone so undoing never navigates.
+ * Narrative state is included so a trigger fired by an undone action can fire again.
+ */
+export type ProgressSnapshot = Pick<SavedGame, 'story' | 'caseFile' | 'narrative'>;
+
+/** A single undoable step in the investigation history panel. */
+export interface UndoHistoryEntry {
+  id: string;
+  label: string;
+  timestamp: string;
+  /** The card or slot the action was about; consecutive actions on the same subject are coalesced. */
+  subjectId: string | null;
+  /** For entries on the undo stack: the state *before* the action. For redo entries: the state after it. */
+  snapshot: ProgressSnapshot;
+}
+
+/** The at-a-glance details shown for a named save slot. */
+export interface SaveSlotSummary {
+  id: string;
+  name: string;
+  savedAt: string;
+  storyTitle: string;
+  evidenceCount: number;
+  caseFileProgress: {
+    filledPrimarySlots: number;
+    totalPrimarySlots: number;
+    isComplete: boolean;
+  };
+  /** The location whose generated image was captured as the slot's thumbnail. */
+  thumbnailLocationId: string | null;
+}
+
+/** A named save slot as stored in IndexedDB. */
+export interface SaveSlotRecord extends SaveSlotSummary {
+  save: SavedGame;
+  thumbnail: Blob | null;
+}
+
+/** A generated image serialized for transport inside a save bundle. */
+export interface SaveBundleImage {
+  id: string;
+  mimeType: string;
+  /** Base64-encoded image bytes (no data URL prefix). */
+  data: string;
+}
+
+/**
+ * A portable, single-file export of an investigation: the save snapshot (which already carries
+ * `dynamicHotspotCoords`) plus every cached image, so a session can move between browsers without
+ * regenerating any art.
+ */
+export interface SaveBundle {
+  format: string;
+  bundleVersion: number;
+  exportedAt: string;
+  storyTitle: string;
+  save: SavedGame;
+  images: SaveBundleImage[];
+}
+
+// --- Image Cache Types ---
+
+/** The visual treatments an image can be generated with. */
+export type ImageColorTreatment = 'monochrome' | 'selectiveColor' | 'map';
+
+/** Bookkeeping stored alongside each cached image, used for invalidation and LRU eviction. */
+export interface ImageCacheMetadata {
+  id: string;
+  /** A hash of the model, treatment and full styled prompt the image was generated from. */
+  promptHash: string;
+  colorTreatment: ImageColorTreatment;
+  model: string;
+  byteSize: number;
+  createdAt: string;
+  lastAccessedAt: string;
+}
+
+/** One of ADA's card analyses, as stored in the IndexedDB analysis cache. */
+export interface ADAAnalysisCacheEntry {
+  /** The cache key (see `adaCacheService.getCacheKey`). */
+  id: string;
+  text: string;
+  cachedAt: string;
+}
+
 // --- System & Debugging Types ---
 
+/**
+ * The state of the AI circuit breaker: `closed` while requests flow, `open` while they are paused
+ * after repeated quota errors, and `halfOpen` once the pause is over and a trial request may go out.
+ */
+export type AICircuitState = 'closed' | 'open' | 'halfOpen';
+
+/** Whether AI requests are currently going out, as shown to the player. */
+export interface AIStatus {
+    circuit: AICircuitState;
+    /** When requests resume, while the circuit is open. */
+    resumesAt: string | null;
+    /** The error that last opened the circuit. */
+    reason: string | null;
+}
+
+/**
+ * How an AI request ended: `ok`, the kind of error it finally failed with, or `aborted` when the
+ * game cancelled it.
+ */
+export type AIRequestOutcome = 'ok' | 'quota' | 'transient' | 'fatal' | 'circuitOpen' | 'aborted';
+
+/** The accounting of one AI request, across all of its attempts. Persisted for the usage dashboard. */
+export interface AIUsageRecord {
+    id: string;
+    /** When the request was made. */
+    timestamp: string;
+    /** Which kind of request it was (an `AIEndpoint`). */
+    endpoint: string;
+    model: string;
+    /** The size of the prompt, in characters. */
+    promptChars: number;
+    /** The prompt template and version the prompt was rendered from (a `RenderedPrompt` ref). */
+    promptTemplate?: string;
+    /** The size of the response, in characters (base64 characters for images). Zero if it failed. */
+    responseChars: number;
+    /** From the first attempt to the final outcome, including any waits between retries. */
+    latencyMs: number;
+    outcome: AIRequestOutcome;
+    /** Requests actually sent; every one counts against the quota. Zero if the circuit breaker refused it. */
+    attempts: number;
+    /** Why each attempt that was retried failed, in order. Absent if the first attempt settled the request. */
+    retriedAfter?: Exclude<AIRequestOutcome, 'ok' | 'aborted'>[];
+    /** What the request was about, where that's worth grouping by: the prompt, for images. */
+    subject?: string;
+}
+
 /** Represents a single entry in the error log. */
 export interface ErrorLogEntry {
     id: string;